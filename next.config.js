@@ -1,5 +1,9 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  experimental: {
+    // Runs src/instrumentation.ts on server start (background harvester)
+    instrumentationHook: true,
+  },
   images: {
     remotePatterns: [
       {
@@ -0,0 +1,136 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useSearchDictionaries } from '@/hooks/useSearchDictionaries';
+import { getSearchStrategies } from '@/lib/searchStrategies';
+import { SearchType } from '@/types';
+import DictionaryEditor from '@/components/DictionaryEditor';
+import SearchTypeIndicator from '@/components/SearchTypeIndicator';
+import { Button } from '@/components/ui/Button';
+import LoadingIndicator from '@/components/ui/LoadingIndicator';
+import ErrorDisplay from '@/components/ui/ErrorDisplay';
+
+/**
+ * Admin page for curating the search terms each search type draws from
+ */
+export default function DictionariesAdminPage() {
+  const {
+    dictionaries,
+    isLoading,
+    error,
+    adminToken,
+    changeAdminToken,
+    createDictionary,
+    activateDictionary,
+    deleteDictionary,
+    addTerm,
+    updateTerm,
+    removeTerm
+  } = useSearchDictionaries();
+  
+  const [name, setName] = useState('');
+  const [searchType, setSearchType] = useState<SearchType>(SearchType.RandomTime);
+  const [terms, setTerms] = useState('');
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    
+    // Terms can be separated by commas or new lines
+    const termList = terms.split(/[,\n]/).map(term => term.trim()).filter(Boolean);
+    if (await createDictionary(name.trim(), searchType, termList)) {
+      setName('');
+      setTerms('');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <nav className="bg-gray-900 text-white shadow-lg">
+        <div className="container mx-auto px-4 py-3 flex items-center justify-between">
+          <h1 className="text-xl font-bold">GrailTube · Search Dictionaries</h1>
+          <Link href="/" className="text-sm text-gray-300 hover:text-white">Back to GrailTube</Link>
+        </div>
+      </nav>
+
+      <main className="container mx-auto px-4 py-6 max-w-4xl">
+        <p className="text-gray-600 mb-6">
+          Each search type draws its queries from its active dictionary, picking heavier terms more often.
+          Changes apply to the next search.
+        </p>
+
+        <label className="flex items-center space-x-2 mb-6 text-sm text-gray-600">
+          <span>Admin token</span>
+          <input
+            type="password"
+            value={adminToken}
+            onChange={(e) => changeAdminToken(e.target.value)}
+            placeholder="ADMIN_TOKEN from the server"
+            autoComplete="off"
+            className="flex-1 max-w-xs border border-gray-300 rounded px-2 py-1 text-sm"
+          />
+        </label>
+
+        {error && <ErrorDisplay message={error} className="mb-6" />}
+
+        <form onSubmit={handleCreate} className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 mb-8 space-y-3">
+          <h2 className="font-semibold">New dictionary</h2>
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Name, e.g. Non-English words"
+              className="flex-1 border border-gray-300 rounded px-2 py-1 text-sm"
+            />
+            <select
+              value={searchType}
+              onChange={(e) => setSearchType(e.target.value)}
+              className="border border-gray-300 rounded px-2 py-1 text-sm"
+            >
+              {getSearchStrategies().map(strategy => (
+                <option key={strategy.id} value={strategy.id}>{strategy.label}</option>
+              ))}
+            </select>
+          </div>
+          <textarea
+            value={terms}
+            onChange={(e) => setTerms(e.target.value)}
+            placeholder="Terms, separated by commas or new lines (optional)"
+            rows={3}
+            className="w-full border border-gray-300 rounded px-2 py-1 text-sm font-mono"
+          />
+          <Button type="submit" size="sm">Create dictionary</Button>
+        </form>
+
+        {isLoading && dictionaries.length === 0 ? (
+          <LoadingIndicator className="my-16" size="lg" />
+        ) : (
+          getSearchStrategies().map(strategy => (
+            <section key={strategy.id} className="mb-8">
+              <h2 className="text-lg font-semibold mb-3 flex items-center">
+                <SearchTypeIndicator searchType={strategy.id} size="sm" />
+              </h2>
+              <div className="space-y-3">
+                {dictionaries
+                  .filter(dictionary => dictionary.searchType === strategy.id)
+                  .map(dictionary => (
+                    <DictionaryEditor
+                      key={dictionary.id}
+                      dictionary={dictionary}
+                      onActivate={activateDictionary}
+                      onDelete={deleteDictionary}
+                      onAddTerm={addTerm}
+                      onUpdateTerm={updateTerm}
+                      onRemoveTerm={removeTerm}
+                    />
+                  ))}
+              </div>
+            </section>
+          ))
+        )}
+      </main>
+    </div>
+  );
+}
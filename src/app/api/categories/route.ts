@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { getVideoCategories } from '@/lib/youtube';
+import { ApiError, handleApiError } from '@/lib/api';
+import { DEFAULT_REGION_CODE } from '@/lib/constants';
+import logger from '@/lib/logger';
+
+/**
+ * GET /api/categories?region=US - List YouTube's video categories for a region
+ * The region is an ISO 3166-1 alpha-2 code and defaults to DEFAULT_REGION_CODE
+ */
+export async function GET(request: Request) {
+  try {
+    const region = (new URL(request.url).searchParams.get('region') || DEFAULT_REGION_CODE).toUpperCase();
+    if (!/^[A-Z]{2}$/.test(region)) {
+      throw new ApiError('region must be a two-letter country code', 400);
+    }
+    
+    logger.debug('API route: Listing video categories', { region });
+    const categories = await getVideoCategories(region, request.signal);
+    
+    return NextResponse.json({ region, categories });
+  } catch (error) {
+    const { error: errorMessage, status, code } = handleApiError(error, 'listing video categories');
+    return NextResponse.json({ error: errorMessage, code }, { status });
+  }
+}
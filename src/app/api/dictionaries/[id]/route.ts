@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+import { ApiError, handleApiError, parseIdParam } from '@/lib/api';
+import { requireAdmin } from '@/lib/adminAuth';
+import { ensureDatabase } from '@/lib/db';
+import { DictionaryModel } from '@/lib/models/dictionaryModel';
+import { searchDictionaries } from '@/lib/searchDictionaries';
+
+/**
+ * PUT /api/dictionaries/[id] - Rename a dictionary or make it active
+ * Body: { name?, isActive? } where isActive: true makes it its search type's active
+ * dictionary (replacing the previous one); a dictionary without an enabled, weighted
+ * term can't be made active
+ * Admin only: requires the x-admin-token header (see adminAuth)
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    requireAdmin(request);
+    const id = parseIdParam(params.id);
+    const data = await request.json();
+    
+    await ensureDatabase();
+    const dictionary = await DictionaryModel.getById(id);
+    if (!dictionary) {
+      throw new ApiError('Dictionary not found', 404);
+    }
+    if (data.isActive === true) {
+      searchDictionaries.requireUsableTerms(dictionary.terms);
+    }
+    
+    if (data.name !== undefined) {
+      const name = typeof data.name === 'string' ? data.name.trim() : '';
+      if (!name || name.length > 100) {
+        throw new ApiError('name must be 1 to 100 characters', 400);
+      }
+      await DictionaryModel.rename(id, name);
+    }
+    if (data.isActive === true) {
+      await DictionaryModel.activate(id);
+    }
+    searchDictionaries.invalidate();
+    
+    return NextResponse.json({ dictionary: await DictionaryModel.getById(id) });
+  } catch (error) {
+    const { error: errorMessage, status, code } = handleApiError(error, 'updating dictionary');
+    return NextResponse.json({ error: errorMessage, code }, { status });
+  }
+}
+
+/**
+ * DELETE /api/dictionaries/[id] - Delete a dictionary that isn't active
+ * Admin only: requires the x-admin-token header (see adminAuth)
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    requireAdmin(request);
+    const id = parseIdParam(params.id);
+    
+    await ensureDatabase();
+    const dictionary = await DictionaryModel.getById(id);
+    if (!dictionary) {
+      throw new ApiError('Dictionary not found', 404);
+    }
+    if (dictionary.isActive) {
+      throw new ApiError('Activate another dictionary before deleting the active one', 400);
+    }
+    
+    await DictionaryModel.remove(id);
+    searchDictionaries.invalidate();
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    const { error: errorMessage, status, code } = handleApiError(error, 'deleting dictionary');
+    return NextResponse.json({ error: errorMessage, code }, { status });
+  }
+}
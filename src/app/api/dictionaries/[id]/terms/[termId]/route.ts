@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import { ApiError, handleApiError, parseIdParam } from '@/lib/api';
+import { requireAdmin } from '@/lib/adminAuth';
+import { ensureDatabase } from '@/lib/db';
+import { DictionaryModel } from '@/lib/models/dictionaryModel';
+import { searchDictionaries } from '@/lib/searchDictionaries';
+import { MAX_TERM_WEIGHT } from '@/lib/constants';
+
+/**
+ * PUT /api/dictionaries/[id]/terms/[termId] - Change a term's weight or enable/disable it
+ * Body: { weight?, enabled? }
+ * Disabling or zero-weighting the last usable term of the active dictionary is a 400
+ * Admin only: requires the x-admin-token header (see adminAuth)
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: { id: string; termId: string } }
+) {
+  try {
+    requireAdmin(request);
+    const id = parseIdParam(params.id);
+    const termId = parseIdParam(params.termId, 'termId');
+    const data = await request.json();
+    
+    const weight = data.weight !== undefined ? Number(data.weight) : undefined;
+    if (weight !== undefined && (!Number.isFinite(weight) || weight < 0 || weight > MAX_TERM_WEIGHT)) {
+      throw new ApiError(`weight must be a number from 0 to ${MAX_TERM_WEIGHT}`, 400);
+    }
+    if (data.enabled !== undefined && typeof data.enabled !== 'boolean') {
+      throw new ApiError('enabled must be a boolean', 400);
+    }
+    
+    await ensureDatabase();
+    const dictionary = await DictionaryModel.getById(id);
+    if (dictionary?.isActive) {
+      searchDictionaries.requireUsableTerms(dictionary.terms.map(term => term.id === termId
+        ? { ...term, weight: weight ?? term.weight, enabled: data.enabled ?? term.enabled }
+        : term));
+    }
+    if (!await DictionaryModel.updateTerm(id, termId, { weight, enabled: data.enabled })) {
+      throw new ApiError('Term not found', 404);
+    }
+    searchDictionaries.invalidate();
+    
+    return NextResponse.json({ dictionary: await DictionaryModel.getById(id) });
+  } catch (error) {
+    const { error: errorMessage, status, code } = handleApiError(error, 'updating dictionary term');
+    return NextResponse.json({ error: errorMessage, code }, { status });
+  }
+}
+
+/**
+ * DELETE /api/dictionaries/[id]/terms/[termId] - Remove a term from a dictionary
+ * Removing the last usable term of the active dictionary is a 400
+ * Admin only: requires the x-admin-token header (see adminAuth)
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string; termId: string } }
+) {
+  try {
+    requireAdmin(request);
+    const id = parseIdParam(params.id);
+    const termId = parseIdParam(params.termId, 'termId');
+    
+    await ensureDatabase();
+    const dictionary = await DictionaryModel.getById(id);
+    if (dictionary?.isActive) {
+      searchDictionaries.requireUsableTerms(dictionary.terms.filter(term => term.id !== termId));
+    }
+    if (!await DictionaryModel.removeTerm(id, termId)) {
+      throw new ApiError('Term not found', 404);
+    }
+    searchDictionaries.invalidate();
+    
+    return NextResponse.json({ dictionary: await DictionaryModel.getById(id) });
+  } catch (error) {
+    const { error: errorMessage, status, code } = handleApiError(error, 'removing dictionary term');
+    return NextResponse.json({ error: errorMessage, code }, { status });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { ApiError, handleApiError, parseIdParam } from '@/lib/api';
+import { requireAdmin } from '@/lib/adminAuth';
+import { ensureDatabase } from '@/lib/db';
+import { DictionaryModel } from '@/lib/models/dictionaryModel';
+import { searchDictionaries } from '@/lib/searchDictionaries';
+import { MAX_TERM_WEIGHT } from '@/lib/constants';
+
+/**
+ * POST /api/dictionaries/[id]/terms - Add a term to a dictionary
+ * Body: { term, weight? } where weight defaults to 1
+ * Admin only: requires the x-admin-token header (see adminAuth)
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    requireAdmin(request);
+    const id = parseIdParam(params.id);
+    const data = await request.json();
+    
+    const term = typeof data.term === 'string' ? data.term.trim() : '';
+    if (!term || term.length > 255) {
+      throw new ApiError('term must be 1 to 255 characters', 400);
+    }
+    const weight = data.weight !== undefined ? Number(data.weight) : 1;
+    if (!Number.isFinite(weight) || weight < 0 || weight > MAX_TERM_WEIGHT) {
+      throw new ApiError(`weight must be a number from 0 to ${MAX_TERM_WEIGHT}`, 400);
+    }
+    
+    await ensureDatabase();
+    if (!await DictionaryModel.getById(id)) {
+      throw new ApiError('Dictionary not found', 404);
+    }
+    if (!await DictionaryModel.addTerm(id, term, weight)) {
+      throw new ApiError('The dictionary already has that term', 409);
+    }
+    searchDictionaries.invalidate();
+    
+    return NextResponse.json({ dictionary: await DictionaryModel.getById(id) }, { status: 201 });
+  } catch (error) {
+    const { error: errorMessage, status, code } = handleApiError(error, 'adding dictionary term');
+    return NextResponse.json({ error: errorMessage, code }, { status });
+  }
+}
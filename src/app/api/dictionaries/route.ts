@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { ApiError, handleApiError } from '@/lib/api';
+import { requireAdmin } from '@/lib/adminAuth';
+import { ensureDatabase } from '@/lib/db';
+import { DictionaryModel } from '@/lib/models/dictionaryModel';
+import { searchDictionaries } from '@/lib/searchDictionaries';
+import { hasSearchStrategy } from '@/lib/searchStrategies';
+import logger from '@/lib/logger';
+
+// Dictionaries are edited at runtime, so never serve a cached response
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/dictionaries - List every search dictionary with its terms
+ */
+export async function GET() {
+  try {
+    // Loading seeds the built-in dictionaries on first use
+    await searchDictionaries.load();
+    await ensureDatabase();
+    return NextResponse.json({ dictionaries: await DictionaryModel.getAll() });
+  } catch (error) {
+    const { error: errorMessage, status, code } = handleApiError(error, 'listing dictionaries');
+    return NextResponse.json({ error: errorMessage, code }, { status });
+  }
+}
+
+/**
+ * POST /api/dictionaries - Create a dictionary
+ * Body: { name, searchType, terms?, activate? } where terms is a list of strings
+ * and activate makes it the search type's active dictionary (which needs at least one term)
+ * Admin only: requires the x-admin-token header (see adminAuth)
+ */
+export async function POST(request: Request) {
+  try {
+    requireAdmin(request);
+    const data = await request.json();
+    
+    const name = typeof data.name === 'string' ? data.name.trim() : '';
+    if (!name || name.length > 100) {
+      throw new ApiError('name must be 1 to 100 characters', 400);
+    }
+    if (!hasSearchStrategy(data.searchType)) {
+      throw new ApiError('searchType must be a registered search type', 400);
+    }
+    const terms = Array.isArray(data.terms)
+      ? data.terms.map(String).map((term: string) => term.trim()).filter(Boolean)
+      : [];
+    if (data.activate) {
+      // New terms start enabled with weight 1
+      searchDictionaries.requireUsableTerms(terms.map(() => ({ weight: 1, enabled: true })));
+    }
+    
+    await ensureDatabase();
+    const id = await DictionaryModel.create(name, data.searchType, terms);
+    if (data.activate) {
+      await DictionaryModel.activate(id);
+    }
+    searchDictionaries.invalidate();
+    logger.info('API route: Created dictionary', { id, name, searchType: data.searchType });
+    
+    return NextResponse.json({ dictionary: await DictionaryModel.getById(id) }, { status: 201 });
+  } catch (error) {
+    const { error: errorMessage, status, code } = handleApiError(error, 'creating dictionary');
+    return NextResponse.json({ error: errorMessage, code }, { status });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { harvester } from '@/lib/harvester';
+import { ApiError, handleApiError } from '@/lib/api';
+import { requireAdmin } from '@/lib/adminAuth';
+
+// Harvester state changes in the background, so never serve a cached response
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/harvester - Harvester activity and candidate pool sizes
+ */
+export async function GET() {
+  try {
+    return NextResponse.json({ harvester: await harvester.getStatus() });
+  } catch (error) {
+    const { error: errorMessage, status, code } = handleApiError(error, 'fetching harvester status');
+    return NextResponse.json({ error: errorMessage, code }, { status });
+  }
+}
+
+/**
+ * POST /api/harvester - Control the harvester
+ * Body: { action: 'start' | 'stop' | 'run' } where 'run' performs one round now
+ * Admin only, since every run spends the shared daily quota (see adminAuth)
+ */
+export async function POST(request: Request) {
+  try {
+    requireAdmin(request);
+    const { action } = await request.json();
+    
+    if (action === 'start') {
+      harvester.start();
+    } else if (action === 'stop') {
+      harvester.stop();
+    } else if (action === 'run') {
+      await harvester.runOnce();
+    } else {
+      throw new ApiError('action must be one of start, stop or run', 400);
+    }
+    
+    return NextResponse.json({ harvester: await harvester.getStatus() });
+  } catch (error) {
+    const { error: errorMessage, status, code } = handleApiError(error, 'controlling harvester');
+    return NextResponse.json({ error: errorMessage, code }, { status });
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { quotaLedger } from '@/lib/youtubeQuota';
+import { handleApiError } from '@/lib/api';
+
+// Usage changes with every search, so never serve a cached response
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/quota - Today's YouTube quota usage and remaining budget
+ */
+export async function GET() {
+  try {
+    await quotaLedger.load();
+    return NextResponse.json({ quota: quotaLedger.getStatus() });
+  } catch (error) {
+    const { error: errorMessage, status, code } = handleApiError(error, 'fetching quota status');
+    return NextResponse.json({ error: errorMessage, code }, { status });
+  }
+}
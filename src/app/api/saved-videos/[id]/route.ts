@@ -1,6 +1,8 @@
 import { NextResponse } from 'next/server';
 import { VideoModel } from '@/lib/models/videoModel';
-import { handleApiError } from '@/lib/api';
+import { ViewSnapshotModel } from '@/lib/models/viewSnapshotModel';
+import { handleApiError, ApiError } from '@/lib/api';
+import { DEFAULT_VIDEO_PROVIDER, isVideoProviderId } from '@/lib/videoProviders';
 import { initDatabase } from '@/lib/db';
 import logger from '@/lib/logger';
 
@@ -30,6 +32,7 @@ async function ensureInitialized() {
 
 /**
  * DELETE /api/saved-videos/[id] - Remove a saved video
+ * Query params: provider (the video's platform, YouTube by default)
  */
 export async function DELETE(
   request: Request,
@@ -41,9 +44,14 @@ export async function DELETE(
     // Initialize database connection
     await ensureInitialized();
     const videoId = params.id;
+    const provider = new URL(request.url).searchParams.get('provider') || DEFAULT_VIDEO_PROVIDER;
+    
+    if (!isVideoProviderId(provider)) {
+      throw new ApiError('Unknown video provider', 400);
+    }
     
     // Delete the video
-    const removed = await VideoModel.remove(videoId);
+    const removed = await VideoModel.remove(videoId, provider);
     
     if (!removed) {
       return NextResponse.json(
@@ -51,6 +59,7 @@ export async function DELETE(
         { status: 404 }
       );
     }
+    await ViewSnapshotModel.removeForVideo(provider, videoId);
     
     return NextResponse.json({ success: true, message: 'Video removed successfully' });
   } catch (error) {
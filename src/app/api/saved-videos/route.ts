@@ -1,7 +1,11 @@
 import { NextResponse } from 'next/server';
 import { initDatabase } from '@/lib/db';
 import { VideoModel } from '@/lib/models/videoModel';
-import { handleApiError } from '@/lib/api';
+import { ViewSnapshotModel, getSnapshotKey } from '@/lib/models/viewSnapshotModel';
+import { VIEW_HISTORY_POINTS } from '@/lib/constants';
+import { handleApiError, ApiError } from '@/lib/api';
+import { isVideoProviderId, getVideoProviderId } from '@/lib/videoProviders';
+import { isVideoAvailability } from '@/lib/videoAvailability';
 import logger from '@/lib/logger';
 
 // Using a module-level variable for initialization tracking,
@@ -48,6 +52,7 @@ async function ensureInitialized() {
 
 /**
  * GET /api/saved-videos - Retrieve all saved videos
+ * Each comes with its latest view snapshots (see the view refresher)
  */
 export async function GET() {
   logger.debug('API route: GET /api/saved-videos called');
@@ -56,9 +61,18 @@ export async function GET() {
     
     logger.debug('API route: Fetching all saved videos');
     const videos = await VideoModel.getAll();
+    const histories = await ViewSnapshotModel.getRecentHistories(
+      videos.map(video => ({ provider: getVideoProviderId(video), videoId: video.video_id })),
+      VIEW_HISTORY_POINTS
+    );
     
     logger.debug('API route: Returning videos', { count: videos.length });
-    return NextResponse.json({ videos });
+    return NextResponse.json({
+      videos: videos.map(video => ({
+        ...video,
+        view_history: histories.get(getSnapshotKey(getVideoProviderId(video), video.video_id)) || []
+      }))
+    });
   } catch (error) {
     logger.error('API route: Error in GET /api/saved-videos', error);
     const { error: errorMessage, status } = handleApiError(error, 'fetching saved videos');
@@ -68,6 +82,8 @@ export async function GET() {
 
 /**
  * POST /api/saved-videos - Save a new video
+ * The video's provider defaults to YouTube; its availability, if the search
+ * reported one, is stored as checked at save time
  */
 export async function POST(request: Request) {
   try {
@@ -76,8 +92,15 @@ export async function POST(request: Request) {
     const data = await request.json();
     const { video } = data;
     
+    if (video.provider !== undefined && !isVideoProviderId(video.provider)) {
+      throw new ApiError('Unknown video provider', 400);
+    }
+    if (video.availability !== undefined && !isVideoAvailability(video.availability)) {
+      throw new ApiError('Unknown video availability', 400);
+    }
+    
     // Check if video already exists
-    const exists = await VideoModel.exists(video.id);
+    const exists = await VideoModel.exists(video.id, getVideoProviderId(video));
     
     if (exists) {
       return NextResponse.json(
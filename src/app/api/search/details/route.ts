@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { getVideoDetails, createApiStats, trackApiStats } from '@/lib/youtube';
+import { ApiError, handleApiError } from '@/lib/api';
+import logger from '@/lib/logger';
+
+/**
+ * POST /api/search/details - Fetch details for a list of video IDs
+ */
+export async function POST(request: Request) {
+  try {
+    const data = await request.json();
+    const { videoIds } = data;
+    
+    if (!Array.isArray(videoIds)) {
+      throw new ApiError('videoIds must be an array', 400);
+    }
+    
+    logger.debug('API route: Fetching video details', { count: videoIds.length });
+    const apiStats = createApiStats();
+    const videos = await trackApiStats(apiStats, () => getVideoDetails(videoIds.map(String), request.signal));
+    
+    return NextResponse.json({ videos, apiStats });
+  } catch (error) {
+    const { error: errorMessage, status, code } = handleApiError(error, 'fetching video details');
+    return NextResponse.json({ error: errorMessage, code }, { status });
+  }
+}
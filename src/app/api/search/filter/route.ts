@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { filterRareVideos, getViewStats } from '@/lib/youtube';
+import { ApiError, handleApiError } from '@/lib/api';
+import { hasSearchStrategy } from '@/lib/searchStrategies';
+import { resolveRaritySettings, getRejectionStats } from '@/lib/youtubeFilters';
+import { Video, SearchType } from '@/types';
+
+/**
+ * POST /api/search/filter - Filter videos down to rare ones and compute view stats
+ * Body: { videos, searchType, rarity? } where rarity overrides the default rarity settings
+ * Responds with the rare videos, the rejected ones (with reasons) and stats for both
+ */
+export async function POST(request: Request) {
+  try {
+    const data = await request.json();
+    
+    if (!Array.isArray(data.videos)) {
+      throw new ApiError('videos must be an array', 400);
+    }
+    
+    const videos = data.videos as Video[];
+    const searchType = hasSearchStrategy(data.searchType)
+      ? data.searchType
+      : SearchType.RandomTime;
+    
+    const { videos: rareVideos, rejections } = filterRareVideos(videos, searchType, resolveRaritySettings(data.rarity));
+    
+    return NextResponse.json({
+      videos: rareVideos,
+      rejections,
+      viewStats: getViewStats(videos),
+      rejectionStats: getRejectionStats(rejections)
+    });
+  } catch (error) {
+    const { error: errorMessage, status, code } = handleApiError(error, 'filtering videos');
+    return NextResponse.json({ error: errorMessage, code }, { status });
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { ApiError, handleApiError } from '@/lib/api';
+import { ensureDatabase } from '@/lib/db';
+import { CandidateModel } from '@/lib/models/candidateModel';
+import { hasSearchStrategy } from '@/lib/searchStrategies';
+import { POOL_BATCH_SIZE, RARE_VIEW_THRESHOLD } from '@/lib/constants';
+import { SearchType } from '@/types';
+import logger from '@/lib/logger';
+
+/**
+ * POST /api/search/pool - Serve a batch of unseen rare videos found by the harvester
+ * Body: { searchType, count?, viewThreshold? }
+ * Returns an empty list when the pool is dry, so the client can fall back to a live search
+ */
+export async function POST(request: Request) {
+  try {
+    const data = await request.json();
+    
+    const searchType = hasSearchStrategy(data.searchType)
+      ? data.searchType
+      : SearchType.RandomTime;
+    
+    const count = data.count !== undefined ? Number(data.count) : POOL_BATCH_SIZE;
+    if (!Number.isInteger(count) || count < 1 || count > POOL_BATCH_SIZE) {
+      throw new ApiError(`count must be an integer from 1 to ${POOL_BATCH_SIZE}`, 400);
+    }
+    
+    // Candidates passed the default rules; only the view limit can be tightened here
+    const viewThreshold = Number.isInteger(data.viewThreshold) && data.viewThreshold > 0
+      ? data.viewThreshold
+      : RARE_VIEW_THRESHOLD;
+    
+    await ensureDatabase();
+    const videos = await CandidateModel.takeUnserved(searchType, count, viewThreshold);
+    const remaining = await CandidateModel.countUnserved(searchType);
+    logger.debug('API route: Served candidates from pool', { searchType, served: videos.length, remaining });
+    
+    return NextResponse.json({ videos, remaining });
+  } catch (error) {
+    const { error: errorMessage, status, code } = handleApiError(error, 'serving candidate pool');
+    return NextResponse.json({ error: errorMessage, code }, { status });
+  }
+}
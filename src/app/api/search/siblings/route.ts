@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { ApiError, handleApiError } from '@/lib/api';
+import { findSiblings } from '@/lib/siblingSearch';
+import { resolveRaritySettings } from '@/lib/youtubeFilters';
+import { isVideoProviderId } from '@/lib/videoProviders';
+import { createApiStats, trackApiStats } from '@/lib/youtubeTypes';
+import { Video } from '@/types';
+import logger from '@/lib/logger';
+
+/**
+ * POST /api/search/siblings - Find other rare uploads of a video's channel from around its upload time
+ * Body: { video, rarity? } where video needs at least its id and publishedAt
+ * (and provider, for videos not on YouTube)
+ */
+export async function POST(request: Request) {
+  try {
+    const data = await request.json();
+    const video = data.video as Video;
+    
+    if (!video || typeof video.id !== 'string' || !video.publishedAt) {
+      throw new ApiError('video must have an id and publishedAt', 400);
+    }
+    if (video.provider !== undefined && !isVideoProviderId(video.provider)) {
+      throw new ApiError('Unknown video provider', 400);
+    }
+    
+    logger.debug('API route: Finding siblings', { videoId: video.id, channelId: video.channelId });
+    const apiStats = createApiStats();
+    const result = await trackApiStats(apiStats, () => findSiblings(video, resolveRaritySettings(data.rarity), request.signal));
+    
+    return NextResponse.json({ ...result, apiStats });
+  } catch (error) {
+    const { error: errorMessage, status, code } = handleApiError(error, 'finding sibling videos');
+    return NextResponse.json({ error: errorMessage, code }, { status });
+  }
+}
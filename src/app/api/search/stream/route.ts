@@ -0,0 +1,93 @@
+import { runSearch } from '@/lib/searchRunner';
+import { handleApiError } from '@/lib/api';
+import { hasSearchStrategy } from '@/lib/searchStrategies';
+import { generateSeed, isValidSeed } from '@/lib/random';
+import { resolveRaritySettings } from '@/lib/youtubeFilters';
+import { resolveDateSampling } from '@/lib/dateSamplers';
+import { resolveSnapshotTime } from '@/lib/searchYields';
+import { SearchProgressEvent, SearchType } from '@/types';
+import logger from '@/lib/logger';
+
+// Every request runs a new search, so never serve a cached response
+export const dynamic = 'force-dynamic';
+
+/**
+ * Parse a JSON query parameter, treating anything malformed as missing
+ */
+function parseJsonParam(value: string | null): unknown {
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * GET /api/search/stream?searchType=...&seed=...&rarity=...&dates=...&yields=... - Run a search, streaming its progress as Server-Sent Events
+ * Each event is a JSON SearchProgressEvent; the stream ends after 'done', 'exhausted' or 'error'.
+ * The seed is optional (one is generated and reported in the 'started' event), as are
+ * the JSON-encoded rarity settings and date sampling, and the moment whose learned
+ * yields the search picks with (now by default, also reported in the 'started' event).
+ * Closing the connection aborts the search.
+ */
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const requestedType = params.get('searchType');
+  const searchType = hasSearchStrategy(requestedType)
+    ? requestedType
+    : SearchType.RandomTime;
+  const requestedSeed = params.get('seed');
+  const seed = isValidSeed(requestedSeed) ? requestedSeed : generateSeed();
+  const rarity = resolveRaritySettings(parseJsonParam(params.get('rarity')));
+  const dateSampling = resolveDateSampling(parseJsonParam(params.get('dates')));
+  const yieldsAsOf = resolveSnapshotTime(params.get('yields'));
+  
+  // Stop the search when the client goes away, however we hear about it
+  const abortController = new AbortController();
+  const onRequestAbort = () => abortController.abort();
+  request.signal.addEventListener('abort', onRequestAbort, { once: true });
+  const { signal } = abortController;
+  
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      const emit = (event: SearchProgressEvent) => {
+        if (signal.aborted) return;
+        try {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        } catch {
+          // The client is gone; stop searching for it
+          abortController.abort();
+        }
+      };
+      
+      logger.debug('API route: Streaming search', { searchType, seed, dateSampling });
+      try {
+        await runSearch(searchType, seed, rarity, dateSampling, yieldsAsOf, emit, signal);
+      } catch (error) {
+        const { error: errorMessage, status, code } = handleApiError(error, 'streaming search');
+        emit({ type: 'error', error: errorMessage, status, code });
+      } finally {
+        request.signal.removeEventListener('abort', onRequestAbort);
+        // Always end the stream, even after a disconnect; closing twice throws
+        try {
+          controller.close();
+        } catch {
+          // Already closed or cancelled by the client
+        }
+      }
+    },
+    cancel() {
+      abortController.abort();
+    }
+  });
+  
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  });
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { searchAdaptiveWindow, createApiStats, trackApiStats } from '@/lib/youtube';
+import { ApiError, handleApiError } from '@/lib/api';
+import { parseTimeWindow } from '@/lib/utils';
+import { hasSearchStrategy } from '@/lib/searchStrategies';
+import { SearchType } from '@/types';
+import logger from '@/lib/logger';
+
+/**
+ * POST /api/search/window - Search for video IDs uploaded in (or adapted from) a time window
+ */
+export async function POST(request: Request) {
+  try {
+    const data = await request.json();
+    const window = parseTimeWindow(data.window);
+    
+    if (!window) {
+      throw new ApiError('A valid time window is required', 400);
+    }
+    
+    const searchType = hasSearchStrategy(data.searchType)
+      ? data.searchType
+      : SearchType.RandomTime;
+    
+    // Optional number of result pages to read from this window
+    const maxPages = data.maxPages !== undefined ? Number(data.maxPages) : undefined;
+    if (maxPages !== undefined && (!Number.isInteger(maxPages) || maxPages < 1)) {
+      throw new ApiError('maxPages must be a positive integer', 400);
+    }
+    
+    logger.debug('API route: Searching time window', { 
+      startDate: window.startDate.toISOString(), 
+      searchType,
+      maxPages
+    });
+    const apiStats = createApiStats();
+    const { videoIds, window: searchedWindow } = await trackApiStats(apiStats, () => searchAdaptiveWindow(
+      window, 
+      searchType, 
+      maxPages, 
+      // Aborted when the client disconnects, which stops the search
+      request.signal
+    ));
+    
+    return NextResponse.json({ videoIds, window: searchedWindow, apiStats });
+  } catch (error) {
+    const { error: errorMessage, status, code } = handleApiError(error, 'searching time window');
+    return NextResponse.json({ error: errorMessage, code }, { status });
+  }
+}
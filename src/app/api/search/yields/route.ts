@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { ApiError, handleApiError } from '@/lib/api';
+import { searchYields } from '@/lib/searchYields';
+import { getSearchYields, getYieldScore } from '@/lib/yieldBandit';
+import { hasSearchStrategy } from '@/lib/searchStrategies';
+import { SearchType, ArmYield } from '@/types';
+
+/**
+ * Add each arm's score, the smoothed success rate that biases the picks
+ */
+function withScores(arms: ArmYield[]) {
+  return arms.map(arm => ({ ...arm, score: getYieldScore(arm) }));
+}
+
+/**
+ * GET /api/search/yields?searchType=randomTime - Learned yields of a search type's terms and eras, best first
+ */
+export async function GET(request: Request) {
+  try {
+    const searchType = new URL(request.url).searchParams.get('searchType') || SearchType.RandomTime;
+    if (!hasSearchStrategy(searchType)) {
+      throw new ApiError(`Unknown search type: ${searchType}`, 400);
+    }
+    
+    await searchYields.load();
+    const { terms, eras } = getSearchYields(searchType);
+    
+    return NextResponse.json({ searchType, terms: withScores(terms), eras: withScores(eras) });
+  } catch (error) {
+    const { error: errorMessage, status, code } = handleApiError(error, 'fetching search yields');
+    return NextResponse.json({ error: errorMessage, code }, { status });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { viewRefresher } from '@/lib/viewRefresher';
+import { ApiError, handleApiError } from '@/lib/api';
+import { requireAdmin } from '@/lib/adminAuth';
+
+// Refresher state changes in the background, so never serve a cached response
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/view-refresher - View refresher activity
+ */
+export async function GET() {
+  try {
+    return NextResponse.json({ viewRefresher: viewRefresher.getStatus() });
+  } catch (error) {
+    const { error: errorMessage, status, code } = handleApiError(error, 'fetching view refresher status');
+    return NextResponse.json({ error: errorMessage, code }, { status });
+  }
+}
+
+/**
+ * POST /api/view-refresher - Control the view refresher
+ * Body: { action: 'start' | 'stop' | 'run' } where 'run' refreshes every saved video now
+ * Admin only: a refresh spends shared quota on every saved video
+ */
+export async function POST(request: Request) {
+  try {
+    requireAdmin(request);
+    const { action } = await request.json();
+    
+    if (action === 'start') {
+      viewRefresher.start();
+    } else if (action === 'stop') {
+      viewRefresher.stop();
+    } else if (action === 'run') {
+      await viewRefresher.runOnce();
+    } else {
+      throw new ApiError('action must be one of start, stop or run', 400);
+    }
+    
+    return NextResponse.json({ viewRefresher: viewRefresher.getStatus() });
+  } catch (error) {
+    const { error: errorMessage, status, code } = handleApiError(error, 'controlling view refresher');
+    return NextResponse.json({ error: errorMessage, code }, { status });
+  }
+}
@@ -1,10 +1,24 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import Link from 'next/link';
 import { useYouTubeSearch } from '@/hooks/useYouTubeSearch';
 import { useSavedVideos } from '@/hooks/useSavedVideos';
-import { Video, SearchType } from '@/types';
+import { useSiblingSearch } from '@/hooks/useSiblingSearch';
+import { getSearchStrategies, hasSearchStrategy } from '@/lib/searchStrategies';
+import { isValidSeed } from '@/lib/random';
+import { parseDateSampling } from '@/lib/dateSamplers';
+import { describeViewThreshold, parseRaritySettings } from '@/lib/youtubeFilters';
+import { getVideoProviderId } from '@/lib/videoProviders';
+import { UNAVAILABLE_VIDEO_MODES, arrangeByAvailability, isUnavailable } from '@/lib/videoAvailability';
+import { Video, SearchType, UnavailableVideoMode } from '@/types';
 import SearchStatus from '@/components/SearchStatus';
+import SearchTypeIndicator from '@/components/SearchTypeIndicator';
+import SeedDisplay from '@/components/SeedDisplay';
+import DateSamplerControls from '@/components/DateSamplerControls';
+import RarityControls from '@/components/RarityControls';
+import RejectionPanel from '@/components/RejectionPanel';
+import SiblingResults from '@/components/SiblingResults';
 import ApiStatsDisplay from '@/components/ApiStatsDisplay';
 import VideoGrid from '@/components/VideoGrid';
 import VideoPlayer from '@/components/VideoPlayer';
@@ -16,21 +30,38 @@ import EmptyState from '@/components/ui/EmptyState';
 type AppMode = 'savedVideos' | 'search';
 
 export default function Home() {
-  const [selectedVideoId, setSelectedVideoId] = useState<string | null>(null);
+  const [selectedVideo, setSelectedVideo] = useState<Video | null>(null);
   const [appMode, setAppMode] = useState<AppMode>('savedVideos');
+  const [unavailableMode, setUnavailableMode] = useState<UnavailableVideoMode>('flag');
   
   // YouTube search hook
   const { 
+    phase: searchPhase,
     isLoading: isSearchLoading, 
     videos: searchResults, 
     currentWindow, 
-    statusMessage, 
+    progress,
     error: searchError,
     viewStats,
+    rejections,
+    rejectionStats,
     apiStats,
+    quota,
     searchType,
+    seed,
+    rarity,
+    dateSampling,
+    categories,
     startSearch,
-    changeSearchType
+    cancelSearch,
+    changeSearchType,
+    changeDateSampling,
+    rescueVideo,
+    setViewThreshold,
+    setDurationRange,
+    setShortsMode,
+    setCategoryMode,
+    toggleRarityRule
   } = useYouTubeSearch();
   
   // Saved videos hook
@@ -42,25 +73,73 @@ export default function Home() {
     removeVideo,
     isVideoSaved,
   } = useSavedVideos();
+  
+  // Sibling search hook
+  const {
+    sourceVideo: siblingSource,
+    siblings,
+    rejections: siblingRejections,
+    isLoading: isSiblingsLoading,
+    error: siblingsError,
+    findSiblings,
+    clearSiblings
+  } = useSiblingSearch();
 
-  const handleVideoClick = (videoId: string) => {
-    setSelectedVideoId(videoId);
+  // Replay a shared search when the page is opened with a seed in the URL (once)
+  const sharedSearchStarted = useRef(false);
+  useEffect(() => {
+    if (sharedSearchStarted.current) return;
+    sharedSearchStarted.current = true;
+    
+    const params = new URLSearchParams(window.location.search);
+    const sharedSeed = params.get('seed');
+    const sharedType = params.get('searchType');
+    if (isValidSeed(sharedSeed)) {
+      setAppMode('search');
+      startSearch(
+        hasSearchStrategy(sharedType) ? sharedType : SearchType.RandomTime,
+        sharedSeed,
+        parseDateSampling(params.get('dates')),
+        parseRaritySettings(params.get('rarity')),
+        params.get('yields') || undefined
+      );
+    }
+  }, [startSearch]);
+
+  const handleVideoClick = (video: Video) => {
+    setSelectedVideo(video);
   };
 
   const handleClosePlayer = () => {
-    setSelectedVideoId(null);
+    setSelectedVideo(null);
+  };
+
+  const handleFindSiblings = (video: Video) => {
+    findSiblings(video, rarity);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
   const handleStartSearch = () => {
-    setSelectedVideoId(null);
+    setSelectedVideo(null);
     setAppMode('search');
     startSearch(searchType);
   };
 
   const handleBackToSaved = () => {
+    // Leaving the search tab stops the search rather than leaving it running unseen
+    cancelSearch();
     setAppMode('savedVideos');
   };
 
+  // The saved copy of the video being played, if it is saved (for its view history)
+  const selectedSavedVideo = selectedVideo
+    ? savedVideos.find(video => video.video_id === selectedVideo.id &&
+      getVideoProviderId(video) === getVideoProviderId(selectedVideo))
+    : undefined;
+
+  // Saved videos found deleted, private or blocked by the view refresher's checks
+  const unavailableCount = savedVideos.filter(video => isUnavailable(video.availability)).length;
+
   // Determine if we found videos in search mode
   const hasFoundVideos = appMode === 'search' && !isSearchLoading && searchResults.length > 0;
   
@@ -97,6 +176,13 @@ export default function Home() {
                 <span>Saved Videos</span>
               </button>
               
+              <Link
+                href="/admin/dictionaries"
+                className="px-3 py-2 rounded-md text-sm text-gray-300 hover:text-white hover:bg-gray-800 transition-colors"
+              >
+                Dictionaries
+              </Link>
+              
               <div className="flex items-center space-x-3">
                 <div className="relative group">
                   <select
@@ -105,8 +191,9 @@ export default function Home() {
                     disabled={isSearchLoading}
                     className="appearance-none bg-gray-800 text-white text-sm rounded-md px-3 py-2 pr-8 border border-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent shadow-sm transition-all cursor-pointer hover:bg-gray-700"
                   >
-                    <option value={SearchType.RandomTime}>Random Time</option>
-                    <option value={SearchType.Unedited}>Unedited</option>
+                    {getSearchStrategies().map(strategy => (
+                      <option key={strategy.id} value={strategy.id}>{strategy.label}</option>
+                    ))}
                   </select>
                   <div className="absolute right-2 top-1/2 transform -translate-y-1/2 pointer-events-none text-gray-400">
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -115,6 +202,23 @@ export default function Home() {
                   </div>
                 </div>
                 
+                <DateSamplerControls
+                  dateSampling={dateSampling}
+                  disabled={isSearchLoading}
+                  onChange={changeDateSampling}
+                />
+                
+                <RarityControls
+                  rarity={rarity}
+                  categories={categories}
+                  disabled={isSearchLoading}
+                  onViewThresholdChange={setViewThreshold}
+                  onDurationRangeChange={setDurationRange}
+                  onShortsModeChange={setShortsMode}
+                  onCategoryModeChange={setCategoryMode}
+                  onToggleRule={toggleRarityRule}
+                />
+                
                 <button
                   onClick={handleStartSearch}
                   disabled={isSearchLoading}
@@ -141,6 +245,18 @@ export default function Home() {
                     </>
                   )}
                 </button>
+                
+                {isSearchLoading && (
+                  <button
+                    onClick={cancelSearch}
+                    className="px-4 py-2 rounded-md transition-all duration-200 flex items-center space-x-1 font-medium shadow-sm text-white bg-gray-700 hover:bg-gray-600"
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <rect x="6" y="6" width="12" height="12" rx="1" strokeWidth={2} />
+                    </svg>
+                    <span>Stop</span>
+                  </button>
+                )}
               </div>
             </div>
           </div>
@@ -149,16 +265,38 @@ export default function Home() {
       
       {/* Main Content */}
       <main className="flex-1 container mx-auto px-4 py-6">
+        {/* Show the siblings of a video */}
+        {siblingSource && (
+          <SiblingResults
+            sourceVideo={siblingSource}
+            siblings={siblings}
+            rejections={siblingRejections}
+            isLoading={isSiblingsLoading}
+            error={siblingsError}
+            onClose={clearSiblings}
+            onVideoClick={handleVideoClick}
+            onFindSiblings={handleFindSiblings}
+            onSaveVideo={saveVideo}
+            isVideoSaved={isVideoSaved}
+          />
+        )}
+        
         {/* Show search status during loading */}
         {isSearchModeNoResults && (
           <SearchStatus
+            phase={searchPhase}
             isLoading={isSearchLoading}
             videos={searchResults}
             currentWindow={currentWindow}
-            statusMessage={statusMessage}
+            progress={progress}
             error={searchError}
             viewStats={viewStats}
             searchType={searchType}
+            seed={seed}
+            viewThreshold={rarity.viewThreshold}
+            rejections={rejections}
+            rejectionStats={rejectionStats}
+            onRescue={rescueVideo}
           />
         )}
 
@@ -167,47 +305,48 @@ export default function Home() {
           <div className="mb-8">
             <h2 className="text-xl font-semibold mb-4 border-b pb-2 flex items-center">
               <span>Recently Discovered Videos</span>
-              <span className={`ml-3 text-xs px-2 py-1 rounded-full font-medium inline-flex items-center ${
-                searchType === SearchType.RandomTime 
-                  ? 'bg-indigo-100 text-indigo-800' 
-                  : 'bg-emerald-100 text-emerald-800'
-              }`}>
-                {searchType === SearchType.RandomTime ? (
-                  <>
-                    <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
-                    </svg>
-                    Random Time
-                  </>
-                ) : (
-                  <>
-                    <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z" />
-                    </svg>
-                    Unedited Videos
-                  </>
-                )}
-              </span>
+              <SearchTypeIndicator searchType={searchType} size="sm" className="ml-3" />
+              {seed && <SeedDisplay seed={seed} className="ml-auto font-normal" />}
             </h2>
             <VideoGrid 
               videos={searchResults} 
               onVideoClick={handleVideoClick} 
               onSaveVideo={saveVideo}
+              onFindSiblings={handleFindSiblings}
               isVideoSaved={isVideoSaved}
               showSaveButtons={true}
             />
             
             {/* Search results count */}
             <div className="mt-4 text-sm text-gray-500">
-              Found {searchResults.length} videos with less than 10 views
+              Found {searchResults.length} videos with {describeViewThreshold(rarity.viewThreshold)}
             </div>
+            
+            <RejectionPanel rejections={rejections} onRescue={rescueVideo} className="mt-6" />
           </div>
         )}
 
         {/* Show saved videos */}
         {appMode === 'savedVideos' && (
           <div className="mb-8">
-            <h2 className="text-xl font-semibold mb-4 border-b pb-2">Community Saved Videos</h2>
+            <h2 className="text-xl font-semibold mb-4 border-b pb-2 flex items-center">
+              <span>Community Saved Videos</span>
+              {unavailableCount > 0 && (
+                <span className="ml-auto flex items-center text-sm font-normal text-gray-500">
+                  <span className="mr-2">{unavailableCount} unavailable</span>
+                  <select
+                    value={unavailableMode}
+                    onChange={(e) => setUnavailableMode(e.target.value as UnavailableVideoMode)}
+                    className="bg-white text-gray-700 text-sm rounded-md px-2 py-1 border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    aria-label="Unavailable videos"
+                  >
+                    {UNAVAILABLE_VIDEO_MODES.map(mode => (
+                      <option key={mode.id} value={mode.id}>{mode.label}</option>
+                    ))}
+                  </select>
+                </span>
+              )}
+            </h2>
             {isSavedVideosLoading ? (
               <LoadingIndicator message="Loading saved videos..." />
             ) : savedVideosError ? (
@@ -216,9 +355,10 @@ export default function Home() {
               <EmptyState message="No videos have been saved yet. Click &quot;Find Videos&quot; to discover rare gems!" />
             ) : (
               <VideoGrid 
-                videos={savedVideos} 
+                videos={arrangeByAvailability(savedVideos, unavailableMode)} 
                 onVideoClick={handleVideoClick}
                 onRemoveVideo={removeVideo}
+                onFindSiblings={handleFindSiblings}
                 isVideoSaved={() => true}
                 showSaveButtons={true}
                 isSavedVideosView={true}
@@ -237,6 +377,12 @@ export default function Home() {
               totalApiCalls={apiStats.totalApiCalls}
               cachedSearches={apiStats.cachedSearches}
               cachedVideoDetails={apiStats.cachedVideoDetails}
+              searchCacheMisses={apiStats.searchCacheMisses}
+              videoCacheMisses={apiStats.videoCacheMisses}
+              quotaUnitsUsed={apiStats.quotaUnitsUsed}
+              quotaRemaining={quota?.remaining}
+              quotaLimit={quota?.limit}
+              apiKeys={quota?.keys}
             />
           </div>
         )}
@@ -250,8 +396,14 @@ export default function Home() {
       </footer>
 
       {/* Video player modal */}
-      {selectedVideoId && (
-        <VideoPlayer videoId={selectedVideoId} onClose={handleClosePlayer} />
+      {selectedVideo && (
+        <VideoPlayer 
+          videoId={selectedVideo.id} 
+          provider={selectedVideo.provider} 
+          availability={selectedVideo.availability}
+          savedVideo={selectedSavedVideo}
+          onClose={handleClosePlayer} 
+        />
       )}
     </div>
   );
@@ -1,9 +1,17 @@
+import { ApiKeyStatus } from '@/types';
+
 interface ApiStatsProps {
   searchApiCalls: number;
   videoDetailApiCalls: number;
   totalApiCalls: number;
   cachedSearches: number;
   cachedVideoDetails: number;
+  searchCacheMisses: number;
+  videoCacheMisses: number;
+  quotaUnitsUsed: number;
+  quotaRemaining?: number;
+  quotaLimit?: number;
+  apiKeys?: ApiKeyStatus[];
 }
 
 export default function ApiStatsDisplay({
@@ -11,7 +19,13 @@ export default function ApiStatsDisplay({
   videoDetailApiCalls,
   totalApiCalls,
   cachedSearches,
-  cachedVideoDetails
+  cachedVideoDetails,
+  searchCacheMisses,
+  videoCacheMisses,
+  quotaUnitsUsed,
+  quotaRemaining,
+  quotaLimit,
+  apiKeys = []
 }: ApiStatsProps) {
   return (
     <div className="mt-4 text-xs text-gray-500 bg-gray-100 p-3 rounded">
@@ -26,12 +40,41 @@ export default function ApiStatsDisplay({
         <div>Total API calls:</div>
         <div className="font-semibold">{totalApiCalls}</div>
         
-        <div>Cached searches:</div>
-        <div>{cachedSearches}</div>
+        <div>Cached searches (hits / misses):</div>
+        <div>{cachedSearches} / {searchCacheMisses}</div>
+        
+        <div>Cached video details (hits / misses):</div>
+        <div>{cachedVideoDetails} / {videoCacheMisses}</div>
+        
+        <div>Quota units used:</div>
+        <div>{quotaUnitsUsed}</div>
         
-        <div>Cached video details:</div>
-        <div>{cachedVideoDetails}</div>
+        {quotaRemaining !== undefined && quotaLimit !== undefined && (
+          <>
+            <div>Daily quota remaining:</div>
+            <div className={`font-semibold ${quotaRemaining < quotaLimit * 0.1 ? 'text-red-600' : ''}`}>
+              {quotaRemaining} / {quotaLimit}
+            </div>
+          </>
+        )}
       </div>
+      
+      {apiKeys.length > 1 && (
+        <>
+          <h4 className="font-semibold mt-3">API Keys:</h4>
+          <div className="grid grid-cols-2 gap-1 mt-1">
+            {apiKeys.map(apiKey => (
+              <div key={apiKey.label} className="contents">
+                <div>{apiKey.label}:</div>
+                <div className={apiKey.exhaustedUntil ? 'text-red-600' : ''}>
+                  {apiKey.calls} calls, {apiKey.units} units
+                  {apiKey.exhaustedUntil && ` (exhausted until ${new Date(apiKey.exhaustedUntil).toLocaleTimeString()})`}
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -1,7 +1,7 @@
 import { useEffect, useRef } from 'react';
 import { Video } from '@/types';
 import VideoMetadata from './VideoMetadata';
-import YouTubeEmbed from './YouTubeEmbed';
+import VideoEmbed from './VideoEmbed';
 
 interface AutoPlayVideoProps {
   video: Video;
@@ -27,8 +27,9 @@ export default function AutoPlayVideo({
     <div ref={videoContainerRef} className="grid grid-cols-1 lg:grid-cols-3 gap-6 my-8">
       <div className="lg:col-span-2">
         <div className="relative pb-[56.25%] h-0 bg-black rounded-lg overflow-hidden">
-          <YouTubeEmbed 
+          <VideoEmbed 
             videoId={video.id} 
+            provider={video.provider}
             autoplay={true}
             className="absolute top-0 left-0 w-full h-full" 
           />
@@ -0,0 +1,68 @@
+import React from 'react';
+import { CategoryFilterMode, VideoCategory } from '@/types';
+
+interface CategoryPickerProps {
+  categories: VideoCategory[];
+  includedCategories: string[];
+  excludedCategories: string[];
+  disabled?: boolean;
+  onCategoryModeChange: (categoryId: string, mode: CategoryFilterMode) => void;
+}
+
+/**
+ * Dropdown for hunting only some video categories, or excluding others
+ */
+export const CategoryPicker: React.FC<CategoryPickerProps> = ({
+  categories,
+  includedCategories,
+  excludedCategories,
+  disabled = false,
+  onCategoryModeChange,
+}) => {
+  const getMode = (categoryId: string): CategoryFilterMode => {
+    if (includedCategories.includes(categoryId)) return 'include';
+    if (excludedCategories.includes(categoryId)) return 'exclude';
+    return 'any';
+  };
+  
+  return (
+    <details className="relative">
+      <summary 
+        className={`list-none text-sm rounded-md px-3 py-2 border border-gray-700 bg-gray-800 hover:bg-gray-700 cursor-pointer ${
+          disabled ? 'opacity-70 pointer-events-none' : ''
+        }`}
+      >
+        Categories{includedCategories.length > 0 ? ` (${includedCategories.length} only)` : ''}
+      </summary>
+      <div className="absolute right-0 mt-2 w-80 max-h-96 overflow-y-auto bg-white text-gray-800 rounded-md shadow-lg p-3 z-10 space-y-1">
+        <p className="text-xs text-gray-500 mb-2">
+          Pick &quot;Only&quot; to hunt just those categories, or &quot;Exclude&quot; to skip one.
+        </p>
+        {categories.length === 0 ? (
+          <p className="text-sm text-gray-500">Categories could not be loaded.</p>
+        ) : (
+          categories.map(category => (
+            <label key={category.id} className="flex items-center justify-between text-sm">
+              <span className={category.assignable ? '' : 'text-gray-500'}>
+                {category.title}
+                {!category.assignable && <span className="text-xs"> (legacy)</span>}
+              </span>
+              <select
+                value={getMode(category.id)}
+                onChange={(e) => onCategoryModeChange(category.id, e.target.value as CategoryFilterMode)}
+                disabled={disabled}
+                className="ml-2 text-xs border border-gray-300 rounded px-1 py-0.5"
+              >
+                <option value="any">Any</option>
+                <option value="include">Only</option>
+                <option value="exclude">Exclude</option>
+              </select>
+            </label>
+          ))
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default CategoryPicker;
@@ -0,0 +1,102 @@
+import React from 'react';
+import { subDays } from 'date-fns';
+import { DateSampling, DateSamplerId } from '@/types';
+import { DATE_SAMPLERS, getDateSampler, getSearchableYears, formatDay } from '@/lib/dateSamplers';
+import { YOUTUBE_FOUNDING_DATE } from '@/lib/constants';
+
+interface DateSamplerControlsProps {
+  dateSampling: DateSampling;
+  disabled?: boolean;
+  onChange: (dateSampling: DateSampling) => void;
+}
+
+const SELECT_CLASS_NAME = 'appearance-none bg-gray-800 text-white text-sm rounded-md px-3 py-2 border border-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent shadow-sm transition-all cursor-pointer hover:bg-gray-700';
+
+const DATE_INPUT_CLASS_NAME = 'bg-gray-800 text-white text-sm rounded-md px-2 py-1.5 border border-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * Controls for which dates a search hunts around: the sampler, plus its year or date range
+ */
+export const DateSamplerControls: React.FC<DateSamplerControlsProps> = ({
+  dateSampling,
+  disabled = false,
+  onChange,
+}) => {
+  const years = getSearchableYears();
+  const firstDay = formatDay(YOUTUBE_FOUNDING_DATE);
+  const lastDay = formatDay(subDays(new Date(), 1));
+  
+  /**
+   * Switch sampler, starting a year or range from sensible options
+   */
+  const handleSamplerChange = (sampler: DateSamplerId) => {
+    if (sampler === 'year') {
+      onChange({ sampler, year: dateSampling.year || years[years.length - 1] });
+    } else if (sampler === 'range') {
+      onChange({
+        sampler,
+        startDate: dateSampling.startDate || firstDay,
+        endDate: dateSampling.endDate || lastDay
+      });
+    } else {
+      onChange({ sampler });
+    }
+  };
+  
+  return (
+    <div className="flex items-center space-x-2">
+      <select
+        value={dateSampling.sampler}
+        onChange={(e) => handleSamplerChange(e.target.value as DateSamplerId)}
+        disabled={disabled}
+        title={getDateSampler(dateSampling.sampler).description}
+        className={SELECT_CLASS_NAME}
+      >
+        {DATE_SAMPLERS.map(sampler => (
+          <option key={sampler.id} value={sampler.id}>{sampler.label}</option>
+        ))}
+      </select>
+      
+      {dateSampling.sampler === 'year' && (
+        <select
+          value={dateSampling.year}
+          onChange={(e) => onChange({ sampler: 'year', year: Number(e.target.value) })}
+          disabled={disabled}
+          title="Year to search"
+          className={SELECT_CLASS_NAME}
+        >
+          {years.map(year => (
+            <option key={year} value={year}>{year}</option>
+          ))}
+        </select>
+      )}
+      
+      {dateSampling.sampler === 'range' && (
+        <>
+          <input
+            type="date"
+            value={dateSampling.startDate}
+            min={firstDay}
+            max={dateSampling.endDate || lastDay}
+            onChange={(e) => e.target.value && onChange({ ...dateSampling, startDate: e.target.value })}
+            disabled={disabled}
+            title="First day to search"
+            className={DATE_INPUT_CLASS_NAME}
+          />
+          <input
+            type="date"
+            value={dateSampling.endDate}
+            min={dateSampling.startDate || firstDay}
+            max={lastDay}
+            onChange={(e) => e.target.value && onChange({ ...dateSampling, endDate: e.target.value })}
+            disabled={disabled}
+            title="Last day to search"
+            className={DATE_INPUT_CLASS_NAME}
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DateSamplerControls;
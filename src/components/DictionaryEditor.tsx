@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { SearchDictionary } from '@/types';
+import { MAX_TERM_WEIGHT } from '@/lib/constants';
+import { Button } from './ui/Button';
+
+interface DictionaryEditorProps {
+  dictionary: SearchDictionary;
+  onActivate: (id: number) => void;
+  onDelete: (id: number) => void;
+  onAddTerm: (id: number, term: string, weight: number) => Promise<boolean>;
+  onUpdateTerm: (id: number, termId: number, changes: { weight?: number; enabled?: boolean }) => void;
+  onRemoveTerm: (id: number, termId: number) => void;
+}
+
+/**
+ * Editor for one search dictionary: its terms, their weights, and whether each is used
+ */
+export const DictionaryEditor: React.FC<DictionaryEditorProps> = ({
+  dictionary,
+  onActivate,
+  onDelete,
+  onAddTerm,
+  onUpdateTerm,
+  onRemoveTerm,
+}) => {
+  const [newTerm, setNewTerm] = useState('');
+  const [newWeight, setNewWeight] = useState(1);
+  const enabledCount = dictionary.terms.filter(term => term.enabled).length;
+  
+  const handleAddTerm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newTerm.trim()) return;
+    
+    if (await onAddTerm(dictionary.id, newTerm.trim(), newWeight)) {
+      setNewTerm('');
+      setNewWeight(1);
+    }
+  };
+  
+  return (
+    <details className="bg-white rounded-lg shadow-sm border border-gray-200" open={dictionary.isActive}>
+      <summary className="cursor-pointer px-4 py-3 flex items-center">
+        <span className="font-medium">{dictionary.name}</span>
+        {dictionary.isActive && (
+          <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-green-100 text-green-800">Active</span>
+        )}
+        <span className="ml-auto text-sm text-gray-500">
+          {enabledCount} of {dictionary.terms.length} terms in use
+        </span>
+      </summary>
+      
+      <div className="px-4 pb-4">
+        <div className="flex space-x-2 mb-3">
+          {!dictionary.isActive && (
+            <>
+              <Button size="sm" onClick={() => onActivate(dictionary.id)}>Make active</Button>
+              <Button size="sm" variant="danger" onClick={() => onDelete(dictionary.id)}>Delete</Button>
+            </>
+          )}
+        </div>
+        
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="py-1">Term</th>
+              <th className="py-1 w-24">Weight</th>
+              <th className="py-1 w-20">In use</th>
+              <th className="py-1 w-20"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {dictionary.terms.map(term => (
+              <tr key={term.id} className={`border-b border-gray-100 ${term.enabled ? '' : 'text-gray-400'}`}>
+                <td className="py-1 font-mono">{term.term}</td>
+                <td className="py-1">
+                  <input
+                    type="number"
+                    min={0}
+                    max={MAX_TERM_WEIGHT}
+                    step={0.1}
+                    defaultValue={term.weight}
+                    onBlur={(e) => {
+                      const weight = Number(e.target.value);
+                      if (weight !== term.weight) onUpdateTerm(dictionary.id, term.id, { weight });
+                    }}
+                    className="w-20 border border-gray-300 rounded px-1"
+                  />
+                </td>
+                <td className="py-1">
+                  <input
+                    type="checkbox"
+                    checked={term.enabled}
+                    onChange={() => onUpdateTerm(dictionary.id, term.id, { enabled: !term.enabled })}
+                  />
+                </td>
+                <td className="py-1 text-right">
+                  <button
+                    onClick={() => onRemoveTerm(dictionary.id, term.id)}
+                    className="text-red-600 hover:text-red-800 hover:underline"
+                  >
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        
+        <form onSubmit={handleAddTerm} className="flex items-center space-x-2 mt-3">
+          <input
+            type="text"
+            value={newTerm}
+            onChange={(e) => setNewTerm(e.target.value)}
+            placeholder="New term, e.g. MOV0001"
+            className="flex-1 border border-gray-300 rounded px-2 py-1 text-sm"
+          />
+          <input
+            type="number"
+            min={0}
+            max={MAX_TERM_WEIGHT}
+            step={0.1}
+            value={newWeight}
+            onChange={(e) => setNewWeight(Number(e.target.value))}
+            title="Weight"
+            className="w-20 border border-gray-300 rounded px-2 py-1 text-sm"
+          />
+          <Button size="sm" type="submit">Add term</Button>
+        </form>
+      </div>
+    </details>
+  );
+};
+
+export default DictionaryEditor;
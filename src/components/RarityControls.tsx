@@ -0,0 +1,121 @@
+import React from 'react';
+import { RarityRuleId, RaritySettings, ShortsMode, VideoCategory, CategoryFilterMode } from '@/types';
+import { RARITY_RULES, describeViewThreshold } from '@/lib/youtubeFilters';
+import { VIEW_THRESHOLD_OPTIONS, DURATION_OPTIONS } from '@/lib/constants';
+import CategoryPicker from './CategoryPicker';
+
+interface RarityControlsProps {
+  rarity: RaritySettings;
+  categories: VideoCategory[];
+  disabled?: boolean;
+  onViewThresholdChange: (viewThreshold: number) => void;
+  onDurationRangeChange: (minSeconds: number | null, maxSeconds: number | null) => void;
+  onShortsModeChange: (shorts: ShortsMode) => void;
+  onCategoryModeChange: (categoryId: string, mode: CategoryFilterMode) => void;
+  onToggleRule: (ruleId: RarityRuleId) => void;
+}
+
+const SELECT_CLASS_NAME = 'appearance-none bg-gray-800 text-white text-sm rounded-md px-3 py-2 border border-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent shadow-sm transition-all cursor-pointer hover:bg-gray-700';
+
+/**
+ * Controls for what a search keeps: the view limit, length, Shorts and which filter rules apply
+ */
+export const RarityControls: React.FC<RarityControlsProps> = ({
+  rarity,
+  categories,
+  disabled = false,
+  onViewThresholdChange,
+  onDurationRangeChange,
+  onShortsModeChange,
+  onCategoryModeChange,
+  onToggleRule,
+}) => {
+  const durationIndex = DURATION_OPTIONS.findIndex(option =>
+    option.minSeconds === rarity.minDurationSeconds && option.maxSeconds === rarity.maxDurationSeconds
+  );
+  
+  return (
+    <div className="flex items-center space-x-2">
+      <select
+        value={rarity.viewThreshold}
+        onChange={(e) => onViewThresholdChange(Number(e.target.value))}
+        disabled={disabled}
+        title="How few views a video needs"
+        className={SELECT_CLASS_NAME}
+      >
+        {VIEW_THRESHOLD_OPTIONS.map(threshold => (
+          <option key={threshold} value={threshold}>
+            {threshold <= 1 ? '0 views' : `<${threshold} views`}
+          </option>
+        ))}
+      </select>
+      
+      <select
+        value={Math.max(durationIndex, 0)}
+        onChange={(e) => {
+          const option = DURATION_OPTIONS[Number(e.target.value)];
+          onDurationRangeChange(option.minSeconds, option.maxSeconds);
+        }}
+        disabled={disabled}
+        title="How long videos may be"
+        className={SELECT_CLASS_NAME}
+      >
+        {DURATION_OPTIONS.map((option, index) => (
+          <option key={option.label} value={index}>{option.label}</option>
+        ))}
+      </select>
+      
+      <select
+        value={rarity.shorts}
+        onChange={(e) => onShortsModeChange(e.target.value as ShortsMode)}
+        disabled={disabled}
+        title="Whether to keep YouTube Shorts"
+        className={SELECT_CLASS_NAME}
+      >
+        <option value="include">With Shorts</option>
+        <option value="exclude">No Shorts</option>
+        <option value="only">Only Shorts</option>
+      </select>
+      
+      <details className="relative">
+        <summary 
+          className={`list-none text-sm rounded-md px-3 py-2 border border-gray-700 bg-gray-800 hover:bg-gray-700 cursor-pointer ${
+            disabled ? 'opacity-70 pointer-events-none' : ''
+          }`}
+        >
+          Filters{rarity.disabledRules.length > 0 ? ` (${rarity.disabledRules.length} off)` : ''}
+        </summary>
+        <div className="absolute right-0 mt-2 w-72 bg-white text-gray-800 rounded-md shadow-lg p-3 z-10 space-y-2">
+          <p className="text-xs text-gray-500">
+            Videos must have {describeViewThreshold(rarity.viewThreshold)} and pass every checked rule.
+          </p>
+          {RARITY_RULES.map(rule => (
+            <label key={rule.id} className="flex items-start space-x-2 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                className="mt-1"
+                checked={!rarity.disabledRules.includes(rule.id)}
+                disabled={disabled}
+                onChange={() => onToggleRule(rule.id)}
+              />
+              <span>
+                <span className="font-medium">{rule.label}</span>
+                <span className="block text-xs text-gray-500">{rule.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+      </details>
+      
+      <CategoryPicker
+        categories={categories}
+        includedCategories={rarity.includedCategories}
+        excludedCategories={rarity.excludedCategories}
+        disabled={disabled}
+        onCategoryModeChange={onCategoryModeChange}
+      />
+    </div>
+  );
+};
+
+export default RarityControls;
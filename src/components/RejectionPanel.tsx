@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { RarityRejection, RarityRuleId } from '@/types';
+import { RARITY_RULES, getRejectionStats, getRarityRuleLabel } from '@/lib/youtubeFilters';
+import { getVideoProvider } from '@/lib/videoProviders';
+import { Button } from './ui/Button';
+
+// Rejections listed at a time; the rest are behind "Show more"
+const PAGE_SIZE = 50;
+
+interface RejectionPanelProps {
+  rejections: RarityRejection[];
+  onRescue?: (videoId: string) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Debug panel listing the videos the rarity filter dropped and why
+ * Counts per rule double as a filter for the list, and each video can be rescued
+ * into the results, which makes it easy to spot an over-eager keyword.
+ */
+export const RejectionPanel: React.FC<RejectionPanelProps> = ({
+  rejections,
+  onRescue,
+  disabled = false,
+  className = '',
+}) => {
+  const [ruleFilter, setRuleFilter] = useState<RarityRuleId | null>(null);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  
+  if (rejections.length === 0) return null;
+  
+  const stats = getRejectionStats(rejections);
+  const shown = ruleFilter ? rejections.filter(rejection => rejection.ruleId === ruleFilter) : rejections;
+  
+  const selectRule = (ruleId: RarityRuleId | null) => {
+    setRuleFilter(ruleId);
+    setVisibleCount(PAGE_SIZE);
+  };
+  
+  return (
+    <details className={`max-w-3xl mx-auto bg-gray-50 border border-gray-200 rounded-lg text-sm ${className}`}>
+      <summary className="cursor-pointer px-4 py-2 text-gray-700 font-medium">
+        Why were {rejections.length} videos dropped?
+      </summary>
+      
+      <div className="px-4 pb-4">
+        <div className="flex flex-wrap gap-2 my-2">
+          <button
+            onClick={() => selectRule(null)}
+            className={`px-2 py-1 rounded-full text-xs ${ruleFilter === null ? 'bg-gray-800 text-white' : 'bg-gray-200 text-gray-700'}`}
+          >
+            All ({rejections.length})
+          </button>
+          {RARITY_RULES.filter(rule => stats[rule.id]).map(rule => (
+            <button
+              key={rule.id}
+              onClick={() => selectRule(rule.id)}
+              className={`px-2 py-1 rounded-full text-xs ${ruleFilter === rule.id ? 'bg-gray-800 text-white' : 'bg-gray-200 text-gray-700'}`}
+            >
+              {rule.label} ({stats[rule.id]})
+            </button>
+          ))}
+        </div>
+        
+        <ul className="divide-y divide-gray-200">
+          {shown.slice(0, visibleCount).map((rejection, index) => (
+            <li key={`${rejection.video.id}-${index}`} className="flex items-center py-2 space-x-3">
+              <div className="flex-1 min-w-0">
+                <a
+                  href={getVideoProvider(rejection.video.provider).getPermalink(rejection.video.id)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="block truncate text-gray-800 hover:text-blue-600"
+                >
+                  {rejection.video.title}
+                </a>
+                <p className="text-xs text-gray-500">
+                  {rejection.video.viewCount} views · {getRarityRuleLabel(rejection.ruleId)}: {rejection.reason}
+                </p>
+              </div>
+              {onRescue && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={disabled}
+                  onClick={() => onRescue(rejection.video.id)}
+                >
+                  Rescue
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+        
+        {shown.length > visibleCount && (
+          <button
+            onClick={() => setVisibleCount(count => count + PAGE_SIZE)}
+            className="mt-2 text-blue-600 hover:text-blue-800 hover:underline"
+          >
+            Show more ({shown.length - visibleCount} left)
+          </button>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default RejectionPanel;
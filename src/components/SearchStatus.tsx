@@ -1,31 +1,82 @@
-import { TimeWindow, Video, ViewStats, SearchType } from '@/types';
-import { formatTimeWindow } from '@/lib/utils';
+import React from 'react';
+import { TimeWindow, Video, ViewStats, SearchType, SearchPhase, SearchProgressEvent, RarityRejection, RejectionStats } from '@/types';
+import { formatTimeWindow, parseTimeWindow } from '@/lib/utils';
+import { getVideoLabel } from '@/lib/searchStrategies';
+import { RARITY_RULES, describeViewThreshold } from '@/lib/youtubeFilters';
+import { RARE_VIEW_THRESHOLD } from '@/lib/constants';
 import SearchTypeIndicator from './SearchTypeIndicator';
+import SeedDisplay from './SeedDisplay';
+import RejectionPanel from './RejectionPanel';
 import { Icon } from './ui/Icon';
 import LoadingIndicator from './ui/LoadingIndicator';
 import ErrorDisplay from './ui/ErrorDisplay';
 
 interface SearchStatusProps {
+  phase?: SearchPhase;
   isLoading: boolean;
   videos: Video[];
   currentWindow: TimeWindow | null;
-  statusMessage: string | null;
+  progress: SearchProgressEvent[];
   error: string | null;
   viewStats: ViewStats | null;
   searchType?: SearchType;
+  seed?: string | null;
+  viewThreshold?: number;
+  rejections?: RarityRejection[];
+  rejectionStats?: RejectionStats;
+  onRescue?: (videoId: string) => void;
+}
+
+/**
+ * Describe a search progress event as a line of the timeline
+ */
+function describeProgressEvent(event: SearchProgressEvent, videoLabel: string): string {
+  switch (event.type) {
+    case 'started':
+      return `Started hunting with seed ${event.seed}`;
+    case 'window': {
+      const window = parseTimeWindow(event.window);
+      return `Picked the ${window ? formatTimeWindow(window) : 'next time period'}`;
+    }
+    case 'ids': {
+      const window = parseTimeWindow(event.window);
+      const where = window ? ` in the ${formatTimeWindow(window)}` : '';
+      return event.count > 0
+        ? `Found ${event.count} potential ${videoLabel}${where}`
+        : `No videos found${where}`;
+    }
+    case 'details':
+      return `Fetched view counts for ${event.count} ${videoLabel}`;
+    case 'stats':
+      return `${event.viewStats.zeroViews} with 0 views, ${event.viewStats.underTenViews} with <10, ${event.viewStats.underHundredViews} with <100, ${event.viewStats.underThousandViews} with <1000 (${event.rareCount} rare, ${event.rejections.length} filtered out)`;
+    case 'reroll':
+      return `Reroll #${event.attempt}: trying a completely different time period`;
+    case 'done':
+      return `Done! Found ${event.videos.length} rare ${videoLabel}`;
+    case 'exhausted':
+      return `Gave up after ${event.attempts} time periods`;
+    case 'error':
+      return event.error;
+  }
 }
 
 /**
  * Component to display search status, progress, and statistics
  */
 export default function SearchStatus({ 
+  phase = 'idle',
   isLoading, 
   videos, 
   currentWindow, 
-  statusMessage, 
+  progress,
   error,
   viewStats,
-  searchType = SearchType.RandomTime
+  searchType = SearchType.RandomTime,
+  seed = null,
+  viewThreshold = RARE_VIEW_THRESHOLD,
+  rejections = [],
+  rejectionStats = {},
+  onRescue
 }: SearchStatusProps) {
   return (
     <>
@@ -33,7 +84,7 @@ export default function SearchStatus({
         <div className="text-center mb-8">
           {!isLoading && videos.length > 0 ? (
             <p className="text-gray-600">
-              Found {videos.length} rare {searchType === SearchType.Unedited ? 'unedited ' : ''}videos (less than 10 views) uploaded during{' '}
+              Found {videos.length} rare {getVideoLabel(searchType)} ({describeViewThreshold(viewThreshold)}) uploaded during{' '}
               <span className="font-semibold">
                 {formatTimeWindow(currentWindow)}
               </span>
@@ -41,7 +92,7 @@ export default function SearchStatus({
             </p>
           ) : (
             <p className="text-gray-600">
-              Searching for {searchType === SearchType.Unedited ? 'unedited videos' : 'rare videos'} in{' '}
+              Searching for rare {getVideoLabel(searchType)} in{' '}
               <span className="font-semibold">{formatTimeWindow(currentWindow)}</span>
               <SearchTypeIndicator searchType={searchType} size="sm" className="ml-2" />
             </p>
@@ -49,9 +100,36 @@ export default function SearchStatus({
         </div>
       )}
 
-      {statusMessage && isLoading && (
+      {seed && (
         <div className="text-center mb-4">
-          <p className="text-blue-600">{statusMessage}</p>
+          <SeedDisplay seed={seed} />
+        </div>
+      )}
+
+      {progress.length > 0 && (
+        <ol className="max-w-lg mx-auto mb-6 border-l-2 border-gray-200 pl-4 space-y-1 text-sm">
+          {progress.map((event, index) => {
+            const isLatest = index === progress.length - 1;
+            return (
+              <li 
+                key={index} 
+                className={`relative ${isLatest && isLoading ? 'text-blue-600 font-medium' : 'text-gray-600'}`}
+              >
+                <span 
+                  className={`absolute -left-[1.3rem] top-1.5 h-2 w-2 rounded-full ${
+                    isLatest && isLoading ? 'bg-blue-600 animate-pulse' : 'bg-gray-300'
+                  }`} 
+                />
+                {describeProgressEvent(event, getVideoLabel(searchType))}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {phase === 'cancelled' && (
+        <div className="text-center mb-4">
+          <p className="text-gray-600">Search stopped. Click &quot;Find Videos&quot; to start a new one.</p>
         </div>
       )}
 
@@ -60,27 +138,47 @@ export default function SearchStatus({
       )}
       
       {viewStats && isLoading && (
-        <div className="text-center mb-4 bg-gray-100 p-4 rounded-lg max-w-lg mx-auto">
-          <h3 className="font-medium text-gray-700 mb-2">Video Stats</h3>
-          <div className="grid grid-cols-2 gap-2 text-sm">
-            <div className="text-right text-gray-600">Total videos:</div>
-            <div className="text-left font-medium">{viewStats.totalVideos}</div>
+        <div className="flex flex-wrap justify-center gap-4 mb-4">
+          <div className="text-center bg-gray-100 p-4 rounded-lg w-full max-w-xs">
+            <h3 className="font-medium text-gray-700 mb-2">Video Stats</h3>
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              <div className="text-right text-gray-600">Total videos:</div>
+              <div className="text-left font-medium">{viewStats.totalVideos}</div>
             
-            <div className="text-right text-gray-600">0 views:</div>
-            <div className="text-left font-medium">{viewStats.zeroViews}</div>
+              <div className="text-right text-gray-600">0 views:</div>
+              <div className="text-left font-medium">{viewStats.zeroViews}</div>
             
-            <div className="text-right text-gray-600">Under 10 views:</div>
-            <div className="text-left font-medium">{viewStats.underTenViews}</div>
+              <div className="text-right text-gray-600">Under 10 views:</div>
+              <div className="text-left font-medium">{viewStats.underTenViews}</div>
             
-            <div className="text-right text-gray-600">Under 100 views:</div>
-            <div className="text-left font-medium">{viewStats.underHundredViews}</div>
+              <div className="text-right text-gray-600">Under 100 views:</div>
+              <div className="text-left font-medium">{viewStats.underHundredViews}</div>
             
-            <div className="text-right text-gray-600">Under 1000 views:</div>
-            <div className="text-left font-medium">{viewStats.underThousandViews}</div>
+              <div className="text-right text-gray-600">Under 1000 views:</div>
+              <div className="text-left font-medium">{viewStats.underThousandViews}</div>
+            </div>
           </div>
+          
+          {rejections.length > 0 && (
+            <div className="text-center bg-gray-100 p-4 rounded-lg w-full max-w-xs">
+              <h3 className="font-medium text-gray-700 mb-2">Filtered Out</h3>
+              <div className="grid grid-cols-2 gap-2 text-sm">
+                {RARITY_RULES.filter(rule => rejectionStats[rule.id]).map(rule => (
+                  <React.Fragment key={rule.id}>
+                    <div className="text-right text-gray-600">{rule.label}:</div>
+                    <div className="text-left font-medium">{rejectionStats[rule.id]}</div>
+                  </React.Fragment>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
       )}
 
+      {!isLoading && (
+        <RejectionPanel rejections={rejections} onRescue={onRescue} className="mb-8" />
+      )}
+
       {isLoading && (
         <LoadingIndicator className="my-16" size="lg" />
       )}
@@ -1,5 +1,6 @@
 import React from 'react';
 import { SearchType } from '@/types';
+import { getSearchStrategy } from '@/lib/searchStrategies';
 import { Icon } from './ui/Icon';
 
 interface SearchTypeIndicatorProps {
@@ -25,20 +26,14 @@ export const SearchTypeIndicator: React.FC<SearchTypeIndicatorProps> = ({
     md: 'px-3 py-1 text-sm',
   }[size];
   
-  // Color classes based on search type
-  const colorClasses = searchType === SearchType.RandomTime
-    ? 'bg-indigo-100 text-indigo-800'
-    : 'bg-emerald-100 text-emerald-800';
-  
-  // Choose the appropriate icon based on search type
-  const IconComponent = searchType === SearchType.RandomTime
-    ? Icon.Clock
-    : Icon.Camera;
+  // Color, icon and label come from the search strategy registry
+  const strategy = getSearchStrategy(searchType);
+  const IconComponent = Icon[strategy.icon];
   
   return (
-    <span className={`${baseClasses} ${sizeClasses} ${colorClasses} ${className}`}>
+    <span className={`${baseClasses} ${sizeClasses} ${strategy.colorClasses} ${className}`}>
       <IconComponent className={`${size === 'sm' ? 'h-3 w-3' : 'h-4 w-4'} mr-1`} />
-      {searchType === SearchType.RandomTime ? 'Random Time' : 'Unedited Videos'}
+      {strategy.badgeLabel}
     </span>
   );
 };
@@ -0,0 +1,41 @@
+import React, { useState } from 'react';
+
+interface SeedDisplayProps {
+  seed: string;
+  className?: string;
+}
+
+/**
+ * Shows the seed of a search with a button to copy a link that replays it
+ */
+export const SeedDisplay: React.FC<SeedDisplayProps> = ({
+  seed,
+  className = '',
+}) => {
+  const [copied, setCopied] = useState(false);
+  
+  // The address bar already carries the search type and seed
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Could not copy search link:', error);
+    }
+  };
+  
+  return (
+    <span className={`inline-flex items-center text-xs text-gray-500 ${className}`}>
+      Seed <code className="ml-1 px-1.5 py-0.5 bg-gray-100 rounded font-mono text-gray-700">{seed}</code>
+      <button
+        onClick={handleCopy}
+        className="ml-2 text-blue-600 hover:text-blue-800 hover:underline"
+      >
+        {copied ? 'Copied!' : 'Copy link'}
+      </button>
+    </span>
+  );
+};
+
+export default SeedDisplay;
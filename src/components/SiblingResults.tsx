@@ -0,0 +1,82 @@
+import React from 'react';
+import { Video, VideoProviderId, RarityRejection } from '@/types';
+import { formatDate } from '@/lib/utils';
+import VideoGrid from './VideoGrid';
+import RejectionPanel from './RejectionPanel';
+import LoadingIndicator from './ui/LoadingIndicator';
+import ErrorDisplay from './ui/ErrorDisplay';
+import EmptyState from './ui/EmptyState';
+import { Icon } from './ui/Icon';
+
+interface SiblingResultsProps {
+  sourceVideo: Video;
+  siblings: Video[];
+  rejections: RarityRejection[];
+  isLoading: boolean;
+  error: string | null;
+  onClose: () => void;
+  onVideoClick: (video: Video) => void;
+  onFindSiblings: (video: Video) => void;
+  onSaveVideo?: (video: Video) => Promise<boolean>;
+  isVideoSaved?: (videoId: string, provider?: VideoProviderId) => boolean;
+  className?: string;
+}
+
+/**
+ * The siblings of a video: other rare uploads of its channel from around the time
+ * it was published, in their own grid
+ */
+export const SiblingResults: React.FC<SiblingResultsProps> = ({
+  sourceVideo,
+  siblings,
+  rejections,
+  isLoading,
+  error,
+  onClose,
+  onVideoClick,
+  onFindSiblings,
+  onSaveVideo,
+  isVideoSaved,
+  className = '',
+}) => {
+  return (
+    <div className={`mb-8 ${className}`}>
+      <h2 className="text-xl font-semibold mb-4 border-b pb-2 flex items-center">
+        <span className="truncate">
+          Siblings of &quot;{sourceVideo.title}&quot;
+          <span className="ml-2 text-sm font-normal text-gray-500">
+            {sourceVideo.channelTitle}, around {formatDate(sourceVideo.publishedAt)}
+          </span>
+        </span>
+        <button
+          onClick={onClose}
+          className="ml-auto text-gray-400 hover:text-gray-700 p-1"
+          aria-label="Close siblings"
+        >
+          <Icon.Close className="h-5 w-5" />
+        </button>
+      </h2>
+      
+      {isLoading ? (
+        <LoadingIndicator message="Looking through the channel's uploads..." />
+      ) : error ? (
+        <ErrorDisplay message={error} />
+      ) : siblings.length === 0 ? (
+        <EmptyState message="No other rare uploads from this channel around that time." />
+      ) : (
+        <VideoGrid 
+          videos={siblings} 
+          onVideoClick={onVideoClick} 
+          onSaveVideo={onSaveVideo}
+          onFindSiblings={onFindSiblings}
+          isVideoSaved={isVideoSaved}
+          showSaveButtons={!!onSaveVideo}
+        />
+      )}
+      
+      {!isLoading && <RejectionPanel rejections={rejections} className="mt-6" />}
+    </div>
+  );
+};
+
+export default SiblingResults;
@@ -1,18 +1,22 @@
 import Image from 'next/image';
 import { useState } from 'react';
-import { Video } from '@/types';
+import { Video, VideoProviderId, ViewSnapshot } from '@/types';
 import { formatDate } from '@/lib/utils';
+import { AVAILABILITY_LABELS, isUnavailable } from '@/lib/videoAvailability';
 import { Icon } from './ui/Icon';
+import ViewHistory from './ViewHistory';
 
 interface VideoCardProps {
   video: Video;
-  onClick: (videoId: string) => void;
+  onClick: (video: Video) => void;
   onSave?: (video: Video) => Promise<boolean>;
-  onRemove?: (videoId: string) => Promise<boolean>;
+  onRemove?: (videoId: string, provider?: VideoProviderId) => Promise<boolean>;
+  onFindSiblings?: (video: Video) => void;
   isSaved?: boolean;
   showSaveButton?: boolean;
   discoveredAt?: string;
   viewCountAtDiscovery?: number;
+  viewHistory?: ViewSnapshot[];
 }
 
 export default function VideoCard({ 
@@ -20,12 +24,15 @@ export default function VideoCard({
   onClick, 
   onSave, 
   onRemove, 
+  onFindSiblings,
   isSaved = false,
   showSaveButton = false,
   discoveredAt,
-  viewCountAtDiscovery
+  viewCountAtDiscovery,
+  viewHistory
 }: VideoCardProps) {
   const [isSaving, setIsSaving] = useState(false);
+  const unavailable = isUnavailable(video.availability);
 
   const handleSaveClick = async (e: React.MouseEvent) => {
     e.stopPropagation(); // Prevent triggering the parent onClick
@@ -36,7 +43,7 @@ export default function VideoCard({
       setIsSaving(true);
       
       if (isSaved && onRemove) {
-        await onRemove(video.id);
+        await onRemove(video.id, video.provider);
       } else if (onSave) {
         await onSave(video);
       }
@@ -47,11 +54,13 @@ export default function VideoCard({
 
   return (
     <div
-      className="rounded-lg overflow-hidden shadow-md hover:shadow-xl transition-shadow duration-300 relative"
+      className={`rounded-lg overflow-hidden shadow-md hover:shadow-xl transition-shadow duration-300 relative ${
+        unavailable ? 'opacity-60' : ''
+      }`}
     >
       <div 
         className="relative h-48 w-full cursor-pointer"
-        onClick={() => onClick(video.id)}
+        onClick={() => onClick(video)}
       >
         {video.thumbnailUrl ? (
           <Image
@@ -66,6 +75,11 @@ export default function VideoCard({
             <span className="text-gray-500">No thumbnail</span>
           </div>
         )}
+        {unavailable && video.availability && (
+          <span className="absolute bottom-2 left-2 px-2 py-1 rounded bg-gray-900 bg-opacity-80 text-white text-xs font-medium">
+            {AVAILABILITY_LABELS[video.availability]}
+          </span>
+        )}
         {showSaveButton && (
           <button
             className={`absolute top-2 right-2 p-2 rounded-full ${
@@ -84,7 +98,7 @@ export default function VideoCard({
       </div>
       <div 
         className="p-4 cursor-pointer"
-        onClick={() => onClick(video.id)}
+        onClick={() => onClick(video)}
       >
         <h3 className="font-semibold text-lg truncate">{video.title}</h3>
         <p className="text-sm text-gray-500 mt-1">{video.channelTitle}</p>
@@ -94,11 +108,30 @@ export default function VideoCard({
           {!discoveredAt && <span>{video.viewCount} views</span>}
         </div>
         
+        {onFindSiblings && (
+          <button
+            className="mt-2 text-xs text-blue-600 hover:text-blue-800 hover:underline"
+            onClick={(e) => {
+              e.stopPropagation(); // Find siblings without opening the player
+              onFindSiblings(video);
+            }}
+            title="Other rare uploads from this channel around the same time"
+          >
+            Find siblings
+          </button>
+        )}
+        
         {/* Show discovery info for saved videos */}
         {discoveredAt && (
           <div className="mt-2 text-xs text-gray-500 border-t pt-2">
             <p>Discovered: {new Date(discoveredAt).toLocaleDateString()}</p>
             <p>Views when discovered: {viewCountAtDiscovery || 0}</p>
+            <ViewHistory 
+              viewCountAtDiscovery={viewCountAtDiscovery || 0} 
+              history={viewHistory} 
+              compact={true} 
+              className="mt-1" 
+            />
           </div>
         )}
       </div>
@@ -0,0 +1,42 @@
+import React from 'react';
+import { VideoProviderId } from '@/types';
+import { getVideoProvider } from '@/lib/videoProviders';
+
+interface VideoEmbedProps {
+  videoId: string;
+  provider?: VideoProviderId;
+  title?: string;
+  autoplay?: boolean;
+  className?: string;
+  allowFullScreen?: boolean;
+}
+
+/**
+ * A reusable embedded player, using the player of the video's provider
+ */
+export const VideoEmbed: React.FC<VideoEmbedProps> = ({
+  videoId,
+  provider,
+  title,
+  autoplay = false,
+  className = 'w-full aspect-video',
+  allowFullScreen = true,
+}) => {
+  const videoProvider = getVideoProvider(provider);
+  const embedUrl = videoProvider.getEmbedUrl(videoId, autoplay);
+  
+  return (
+    <div className={className}>
+      <iframe
+        src={embedUrl}
+        title={title || `${videoProvider.label} video player`}
+        frameBorder="0"
+        allow={`accelerometer; ${autoplay ? 'autoplay; ' : ''}clipboard-write; encrypted-media; fullscreen; gyroscope; picture-in-picture`}
+        allowFullScreen={allowFullScreen}
+        className="w-full h-full"
+      />
+    </div>
+  );
+};
+
+export default VideoEmbed;
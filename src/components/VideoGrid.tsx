@@ -1,14 +1,16 @@
-import { SavedVideo, Video } from '@/types';
+import { SavedVideo, Video, VideoProviderId } from '@/types';
 import VideoCard from './VideoCard';
 import EmptyState from './ui/EmptyState';
 import { adaptSavedVideoToVideo, isSavedVideo } from '@/lib/videoAdapter';
+import { getVideoProviderId } from '@/lib/videoProviders';
 
 interface VideoGridProps {
   videos: Video[] | SavedVideo[];
-  onVideoClick: (videoId: string) => void;
+  onVideoClick: (video: Video) => void;
   onSaveVideo?: (video: Video) => Promise<boolean>;
-  onRemoveVideo?: (videoId: string) => Promise<boolean>;
-  isVideoSaved?: (videoId: string) => boolean;
+  onRemoveVideo?: (videoId: string, provider?: VideoProviderId) => Promise<boolean>;
+  onFindSiblings?: (video: Video) => void;
+  isVideoSaved?: (videoId: string, provider?: VideoProviderId) => boolean;
   showSaveButtons?: boolean;
   isSavedVideosView?: boolean;
 }
@@ -21,6 +23,7 @@ export default function VideoGrid({
   onVideoClick,
   onSaveVideo,
   onRemoveVideo,
+  onFindSiblings,
   isVideoSaved,
   showSaveButtons = false,
   isSavedVideosView = false
@@ -48,20 +51,23 @@ export default function VideoGrid({
           ? adaptSavedVideoToVideo(video)
           : video as Video;
         
-        const videoId = videoIsSaved ? video.video_id : (video as Video).id;
-        const savedStatus = isVideoSaved ? isVideoSaved(videoId) : videoIsSaved;
+        const videoId = videoForCard.id;
+        const provider = getVideoProviderId(videoForCard);
+        const savedStatus = isVideoSaved ? isVideoSaved(videoId, provider) : videoIsSaved;
         
         return (
           <VideoCard 
-            key={videoId} 
+            key={`${provider}:${videoId}`} 
             video={videoForCard} 
             onClick={onVideoClick} 
             onSave={onSaveVideo}
             onRemove={onRemoveVideo}
+            onFindSiblings={onFindSiblings}
             isSaved={savedStatus}
             showSaveButton={showSaveButtons}
             discoveredAt={videoIsSaved ? video.discovered_at : undefined}
             viewCountAtDiscovery={videoIsSaved ? video.view_count_at_discovery : undefined}
+            viewHistory={videoIsSaved ? video.view_history : undefined}
           />
         );
       })}
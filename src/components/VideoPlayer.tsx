@@ -1,12 +1,21 @@
+import { VideoProviderId, VideoAvailability, SavedVideo } from '@/types';
+import { getVideoProvider } from '@/lib/videoProviders';
+import { AVAILABILITY_LABELS, isUnavailable } from '@/lib/videoAvailability';
 import { Icon } from './ui/Icon';
-import YouTubeEmbed from './YouTubeEmbed';
+import VideoEmbed from './VideoEmbed';
+import ViewHistory from './ViewHistory';
 
 interface VideoPlayerProps {
   videoId: string;
+  provider?: VideoProviderId;
+  // Unavailable videos get a notice instead of an embed that would only show an error
+  availability?: VideoAvailability;
+  // Shows the video's view history under the player when it is a saved video
+  savedVideo?: SavedVideo;
   onClose: () => void;
 }
 
-export default function VideoPlayer({ videoId, onClose }: VideoPlayerProps) {
+export default function VideoPlayer({ videoId, provider, availability, savedVideo, onClose }: VideoPlayerProps) {
   return (
     <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 backdrop-blur-sm">
       <div className="relative w-full max-w-4xl bg-black rounded-lg overflow-hidden shadow-2xl">
@@ -20,12 +29,36 @@ export default function VideoPlayer({ videoId, onClose }: VideoPlayerProps) {
           </button>
         </div>
         <div className="relative pb-[56.25%] h-0">
-          <YouTubeEmbed 
-            videoId={videoId} 
-            autoplay={true}
-            className="absolute top-0 left-0 w-full h-full" 
-          />
+          {availability && isUnavailable(availability) ? (
+            <div className="absolute top-0 left-0 w-full h-full flex flex-col items-center justify-center text-center text-gray-300">
+              <p className="text-lg font-medium">{AVAILABILITY_LABELS[availability]}</p>
+              <p className="mt-1 text-sm text-gray-400">This video can&apos;t be played here anymore.</p>
+              <a
+                href={getVideoProvider(provider).getPermalink(videoId)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="mt-3 text-sm text-blue-400 hover:text-blue-300 hover:underline"
+              >
+                Open on {getVideoProvider(provider).label}
+              </a>
+            </div>
+          ) : (
+            <VideoEmbed 
+              videoId={videoId} 
+              provider={provider}
+              autoplay={true}
+              className="absolute top-0 left-0 w-full h-full" 
+            />
+          )}
         </div>
+        {savedVideo && (
+          <div className="p-4 bg-gray-900">
+            <ViewHistory 
+              viewCountAtDiscovery={savedVideo.view_count_at_discovery} 
+              history={savedVideo.view_history} 
+            />
+          </div>
+        )}
       </div>
     </div>
   );
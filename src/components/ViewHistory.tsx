@@ -0,0 +1,67 @@
+import React from 'react';
+import { ViewSnapshot } from '@/types';
+import { getViewTrend } from '@/lib/videoAdapter';
+import { formatDate } from '@/lib/utils';
+import Sparkline from './ui/Sparkline';
+
+interface ViewHistoryProps {
+  viewCountAtDiscovery: number;
+  history?: ViewSnapshot[];
+  // One line for cards; the full view shows when each count was taken
+  compact?: boolean;
+  className?: string;
+}
+
+/**
+ * What happened to a saved video's views since it was discovered: its current
+ * views, a sparkline of the refreshed counts and a badge while it stays untouched
+ */
+export const ViewHistory: React.FC<ViewHistoryProps> = ({
+  viewCountAtDiscovery,
+  history = [],
+  compact = false,
+  className = '',
+}) => {
+  const { counts, currentViews, isUntouched } = getViewTrend(viewCountAtDiscovery, history);
+  
+  if (currentViews === null) {
+    return compact ? null : (
+      <p className={`text-sm text-gray-400 ${className}`}>Views haven&apos;t been checked since discovery yet.</p>
+    );
+  }
+  
+  const badge = isUntouched && (
+    <span className="px-2 py-0.5 rounded-full bg-green-100 text-green-800 text-xs font-medium">
+      Still untouched
+    </span>
+  );
+  
+  if (compact) {
+    return (
+      <div className={`flex items-center space-x-2 ${className}`}>
+        <span>Views now: {currentViews}</span>
+        <Sparkline values={counts} width={60} height={16} />
+        {badge}
+      </div>
+    );
+  }
+  
+  const change = currentViews - viewCountAtDiscovery;
+  return (
+    <div className={`text-sm text-gray-300 ${className}`}>
+      <div className="flex items-center space-x-3">
+        <span>{viewCountAtDiscovery} views at discovery</span>
+        <span>&rarr;</span>
+        <span className="font-semibold text-white">{currentViews} now</span>
+        {change > 0 && <span className="text-gray-400">(+{change})</span>}
+        {badge}
+      </div>
+      <Sparkline values={counts} width={320} height={48} className="mt-2 text-blue-400" />
+      <p className="mt-1 text-xs text-gray-500">
+        {history.length} checks, {formatDate(history[0].capturedAt)} to {formatDate(history[history.length - 1].capturedAt)}
+      </p>
+    </div>
+  );
+};
+
+export default ViewHistory;
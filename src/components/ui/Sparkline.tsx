@@ -0,0 +1,48 @@
+import React from 'react';
+
+interface SparklineProps {
+  values: number[];
+  width?: number;
+  height?: number;
+  className?: string;
+}
+
+/**
+ * Tiny line chart of a series of values, scaled to fit its box
+ * Needs at least two values; a flat series is drawn along the middle.
+ */
+export default function Sparkline({
+  values,
+  width = 80,
+  height = 20,
+  className = 'text-blue-500',
+}: SparklineProps) {
+  if (values.length < 2) return null;
+  
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const points = values.map((value, index) => {
+    const x = (index / (values.length - 1)) * width;
+    const y = max === min ? height / 2 : height - ((value - min) / (max - min)) * height;
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+  
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      className={className}
+      aria-hidden="true"
+    >
+      <polyline
+        points={points.join(' ')}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={1.5}
+        strokeLinejoin="round"
+        strokeLinecap="round"
+      />
+    </svg>
+  );
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { SavedVideo, Video } from '@/types';
+import { SavedVideo, Video, VideoProviderId } from '@/types';
 import apiClient from '@/lib/apiClient';
+import { DEFAULT_VIDEO_PROVIDER, getVideoProviderId } from '@/lib/videoProviders';
 import useAsync from './useAsync';
 import logger from '@/lib/logger';
 
@@ -105,16 +106,18 @@ export function useSavedVideos() {
     }
   }, [fetchSavedVideos]);
 
-  // Remove a saved video
-  const removeVideo = useCallback(async (videoId: string) => {
+  // Remove a saved video (ids are only unique per provider)
+  const removeVideo = useCallback(async (videoId: string, provider: VideoProviderId = DEFAULT_VIDEO_PROVIDER) => {
     if (!isMounted.current) {
       logger.debug('useSavedVideos: removeVideo called but component is unmounted');
       return false;
     }
     
     try {
-      logger.debug('useSavedVideos: Removing video', { videoId });
-      const response = await apiClient.delete<{ success: boolean }>(`/saved-videos/${videoId}`);
+      logger.debug('useSavedVideos: Removing video', { videoId, provider });
+      const response = await apiClient.delete<{ success: boolean }>(
+        `/saved-videos/${encodeURIComponent(videoId)}?provider=${provider}`
+      );
       
       if (response.error) {
         logger.error('useSavedVideos: Error from API when removing video', { 
@@ -132,7 +135,9 @@ export function useSavedVideos() {
       
       // Local state update for immediate UI response
       if (savedVideosData) {
-        const updatedVideos = savedVideosData.videos.filter(v => v.video_id !== videoId);
+        const updatedVideos = savedVideosData.videos.filter(
+          v => v.video_id !== videoId || getVideoProviderId(v) !== provider
+        );
         logger.debug('useSavedVideos: Updating local state after removing video', { 
           videoId, 
           newCount: updatedVideos.length 
@@ -155,8 +160,8 @@ export function useSavedVideos() {
   }, [fetchSavedVideos, savedVideosData, setSavedVideosData]);
 
   // Check if a video is already saved
-  const isVideoSaved = useCallback((videoId: string) => {
-    return savedVideos.some(video => video.video_id === videoId);
+  const isVideoSaved = useCallback((videoId: string, provider: VideoProviderId = DEFAULT_VIDEO_PROVIDER) => {
+    return savedVideos.some(video => video.video_id === videoId && getVideoProviderId(video) === provider);
   }, [savedVideos]);
 
   return {
@@ -0,0 +1,160 @@
+import { useState, useEffect, useCallback } from 'react';
+import apiClient from '@/lib/apiClient';
+import { SearchDictionary, SearchType } from '@/types';
+import { ADMIN_TOKEN_HEADER } from '@/lib/constants';
+import logger from '@/lib/logger';
+
+// Where the admin token is kept for this browser tab
+const ADMIN_TOKEN_STORAGE_KEY = 'grailtube:adminToken';
+
+/**
+ * Hook for curating the search dictionaries on the admin page
+ * Every change is saved right away; the server picks it up on the next search.
+ * Changes are sent with the admin token (ADMIN_TOKEN on the server).
+ */
+export function useSearchDictionaries() {
+  const [dictionaries, setDictionaries] = useState<SearchDictionary[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [adminToken, setAdminToken] = useState<string>('');
+
+  // Restore the admin token entered earlier in this tab
+  useEffect(() => {
+    try {
+      setAdminToken(window.sessionStorage.getItem(ADMIN_TOKEN_STORAGE_KEY) || '');
+    } catch (error) {
+      logger.warn('useSearchDictionaries: Could not restore admin token', error);
+    }
+  }, []);
+
+  /**
+   * Change the admin token sent with every change, remembering it for this tab
+   */
+  const changeAdminToken = (token: string): void => {
+    setAdminToken(token);
+    try {
+      window.sessionStorage.setItem(ADMIN_TOKEN_STORAGE_KEY, token);
+    } catch (error) {
+      logger.warn('useSearchDictionaries: Could not save admin token', error);
+    }
+  };
+
+  // Options for requests that change dictionaries
+  const adminOptions = { headers: { [ADMIN_TOKEN_HEADER]: adminToken } };
+
+  /**
+   * Reload every dictionary from the server
+   */
+  const refresh = useCallback(async (): Promise<void> => {
+    setIsLoading(true);
+    const response = await apiClient.get<{ dictionaries: SearchDictionary[] }>('/dictionaries');
+    if (response.data) {
+      setDictionaries(response.data.dictionaries);
+      setError(null);
+    } else {
+      logger.error('useSearchDictionaries: Error fetching dictionaries', response.error);
+      setError(response.error);
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  /**
+   * Put a dictionary returned by the server in place of the stale copy
+   * Returns whether the request succeeded
+   */
+  const applyResponse = (response: { data: { dictionary: SearchDictionary } | null; error: string | null }): boolean => {
+    if (!response.data) {
+      setError(response.error);
+      return false;
+    }
+    
+    const updated = response.data.dictionary;
+    setDictionaries(previous => previous.some(dictionary => dictionary.id === updated.id)
+      ? previous.map(dictionary => dictionary.id === updated.id ? updated : dictionary)
+      : [...previous, updated]);
+    setError(null);
+    return true;
+  };
+
+  /**
+   * Create a dictionary, optionally starting from a list of terms
+   */
+  const createDictionary = async (name: string, searchType: SearchType, terms: string[] = []): Promise<boolean> => {
+    return applyResponse(await apiClient.post<{ dictionary: SearchDictionary }>(
+      '/dictionaries', 
+      { name, searchType, terms },
+      adminOptions
+    ));
+  };
+
+  /**
+   * Make a dictionary the active one of its search type
+   */
+  const activateDictionary = async (id: number): Promise<void> => {
+    const response = await apiClient.put<{ dictionary: SearchDictionary }>(`/dictionaries/${id}`, { isActive: true }, adminOptions);
+    // Activating one dictionary deactivates its siblings, so reload them all
+    if (applyResponse(response)) {
+      await refresh();
+    }
+  };
+
+  /**
+   * Delete a dictionary that isn't active
+   */
+  const deleteDictionary = async (id: number): Promise<void> => {
+    const response = await apiClient.delete<{ success: boolean }>(`/dictionaries/${id}`, adminOptions);
+    if (response.error) {
+      setError(response.error);
+      return;
+    }
+    setDictionaries(previous => previous.filter(dictionary => dictionary.id !== id));
+  };
+
+  /**
+   * Add a term to a dictionary
+   */
+  const addTerm = async (id: number, term: string, weight: number = 1): Promise<boolean> => {
+    return applyResponse(await apiClient.post<{ dictionary: SearchDictionary }>(
+      `/dictionaries/${id}/terms`, 
+      { term, weight },
+      adminOptions
+    ));
+  };
+
+  /**
+   * Change a term's weight or enable/disable it
+   */
+  const updateTerm = async (id: number, termId: number, changes: { weight?: number; enabled?: boolean }): Promise<void> => {
+    applyResponse(await apiClient.put<{ dictionary: SearchDictionary }>(
+      `/dictionaries/${id}/terms/${termId}`, 
+      changes,
+      adminOptions
+    ));
+  };
+
+  /**
+   * Remove a term from a dictionary
+   */
+  const removeTerm = async (id: number, termId: number): Promise<void> => {
+    applyResponse(await apiClient.delete<{ dictionary: SearchDictionary }>(`/dictionaries/${id}/terms/${termId}`, adminOptions));
+  };
+
+  return {
+    dictionaries,
+    isLoading,
+    error,
+    adminToken,
+    changeAdminToken,
+    refresh,
+    createDictionary,
+    activateDictionary,
+    deleteDictionary,
+    addTerm,
+    updateTerm,
+    removeTerm
+  };
+}
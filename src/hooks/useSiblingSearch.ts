@@ -0,0 +1,71 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import apiClient from '@/lib/apiClient';
+import { Video, RaritySettings, SiblingSearchResult } from '@/types';
+import logger from '@/lib/logger';
+
+/**
+ * Hook for pivoting from a video to its siblings: other rare uploads of the same
+ * channel from around the same time
+ * Starting a new lookup (or clearing) cancels the one in flight.
+ */
+export function useSiblingSearch() {
+  const [sourceVideo, setSourceVideo] = useState<Video | null>(null);
+  const [result, setResult] = useState<SiblingSearchResult | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  /**
+   * Find the siblings of a video with the given rarity settings
+   */
+  const findSiblings = useCallback(async (video: Video, rarity?: RaritySettings): Promise<void> => {
+    abortControllerRef.current?.abort();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    
+    setSourceVideo(video);
+    setResult(null);
+    setError(null);
+    setIsLoading(true);
+    
+    const response = await apiClient.post<SiblingSearchResult>(
+      '/search/siblings',
+      { video, rarity },
+      { signal: abortController.signal }
+    );
+    if (abortController.signal.aborted) return;
+    
+    if (response.data) {
+      setResult(response.data);
+    } else {
+      logger.error('useSiblingSearch: Error finding siblings', { videoId: video.id, error: response.error });
+      setError(response.error);
+    }
+    setIsLoading(false);
+  }, []);
+
+  /**
+   * Close the siblings view
+   */
+  const clearSiblings = useCallback(() => {
+    abortControllerRef.current?.abort();
+    setSourceVideo(null);
+    setResult(null);
+    setError(null);
+    setIsLoading(false);
+  }, []);
+
+  return {
+    sourceVideo,
+    siblings: result?.videos || [],
+    rejections: result?.rejections || [],
+    isLoading,
+    error,
+    findSiblings,
+    clearSiblings
+  };
+}
@@ -1,169 +1,452 @@
-import { useState } from 'react';
-import { 
-  searchVideosInTimeWindow, 
-  getVideoDetails, 
-  filterRareVideos,
-  getViewStats,
-  apiStats,
-  YouTubeRateLimitError
-} from '@/lib/youtube';
-import { 
-  getRandomPastDate,
-  createInitialTimeWindow,
-  delay
-} from '@/lib/utils';
-import { Video, TimeWindow, ViewStats, SearchType } from '@/types';
+import { useState, useRef, useEffect } from 'react';
+import apiClient from '@/lib/apiClient';
+import { ApiError } from '@/lib/api';
+import { parseTimeWindow } from '@/lib/utils';
+import { generateSeed } from '@/lib/random';
+import { DEFAULT_RARITY_SETTINGS, resolveRaritySettings, getRejectionStats, describeViewThreshold } from '@/lib/youtubeFilters';
+import { DEFAULT_DATE_SAMPLING, resolveDateSampling, isDateBounded } from '@/lib/dateSamplers';
 import {
-  MAX_REROLLS,
-  STATUS_MESSAGE_DELAY_MS
-} from '@/lib/constants';
+  Video,
+  TimeWindow,
+  ViewStats,
+  SearchType,
+  SearchPhase,
+  SearchProgressEvent,
+  RarityRuleId,
+  RaritySettings,
+  RarityRejection,
+  ShortsMode,
+  VideoCategory,
+  CategoryFilterMode,
+  ApiStats,
+  QuotaStatus,
+  DateSampling
+} from '@/types';
+import { API_BASE_URL, DEFAULT_REGION_CODE } from '@/lib/constants';
+
+const EMPTY_API_STATS: ApiStats = {
+  searchApiCalls: 0,
+  videoDetailApiCalls: 0,
+  totalApiCalls: 0,
+  cachedSearches: 0,
+  cachedVideoDetails: 0,
+  searchCacheMisses: 0,
+  videoCacheMisses: 0,
+  quotaUnitsUsed: 0
+};
+
+// Phases in which a search is running
+const ACTIVE_PHASES: SearchPhase[] = ['searching', 'analyzing', 'filtering', 'rerolling'];
+
+// Where each browser remembers its rarity preferences
+const RARITY_STORAGE_KEY = 'grailtube:rarity';
+
+// Where each browser remembers its date sampling
+const DATE_SAMPLING_STORAGE_KEY = 'grailtube:dates';
+
+/**
+ * The user-adjustable part of the rarity settings, as sent to the server
+ * Keyword lists and categories stay at the server's defaults
+ */
+function getRarityPreferences(rarity: RaritySettings): Partial<RaritySettings> {
+  return {
+    viewThreshold: rarity.viewThreshold,
+    disabledRules: rarity.disabledRules,
+    minDurationSeconds: rarity.minDurationSeconds,
+    maxDurationSeconds: rarity.maxDurationSeconds,
+    shorts: rarity.shorts,
+    includedCategories: rarity.includedCategories,
+    excludedCategories: rarity.excludedCategories
+  };
+}
+
+/**
+ * Whether pooled videos can satisfy the rarity settings and date sampling
+ * The pool is only narrowed by views, so duration, Shorts and stricter category
+ * filters need a live search, as do samplers that limit the dates searched
+ */
+function canServeFromPool(rarity: RaritySettings, dateSampling: DateSampling): boolean {
+  return !isDateBounded(dateSampling) &&
+    rarity.minDurationSeconds === null && 
+    rarity.maxDurationSeconds === null && 
+    rarity.shorts === 'include' &&
+    rarity.includedCategories.length === 0 &&
+    rarity.excludedCategories.every(id => DEFAULT_RARITY_SETTINGS.excludedCategories.includes(id));
+}
+
+/**
+ * The browser's region (e.g. 'GB' for en-GB), for listing its video categories
+ */
+function getBrowserRegion(): string {
+  const region = navigator.language.split('-')[1];
+  return region && /^[a-z]{2}$/i.test(region) ? region.toUpperCase() : DEFAULT_REGION_CODE;
+}
+
+/**
+ * Run a search on the server, passing each progress event to onEvent
+ * Resolves once the search ends ('done' or 'exhausted') and rejects with an ApiError
+ * on an 'error' event or a dropped connection. Aborting the signal closes the
+ * stream, which stops the search server-side.
+ */
+function streamSearch(
+  type: SearchType,
+  seed: string,
+  rarity: RaritySettings,
+  dateSampling: DateSampling,
+  yieldsAsOf: string | undefined,
+  signal: AbortSignal,
+  onEvent: (event: SearchProgressEvent) => void
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const params = new URLSearchParams({ 
+      searchType: type, 
+      seed, 
+      rarity: JSON.stringify(getRarityPreferences(rarity)),
+      dates: JSON.stringify(dateSampling)
+    });
+    // Replays pick with the learned yields of the original search
+    if (yieldsAsOf) {
+      params.set('yields', yieldsAsOf);
+    }
+    const source = new EventSource(`${API_BASE_URL}/search/stream?${params.toString()}`);
+    
+    const onAbort = () => {
+      source.close();
+      reject(new ApiError('Search cancelled', 499, 'cancelled'));
+    };
+    const finish = () => {
+      source.close();
+      signal.removeEventListener('abort', onAbort);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    
+    source.onmessage = (message) => {
+      let event: SearchProgressEvent;
+      try {
+        event = JSON.parse(message.data) as SearchProgressEvent;
+      } catch {
+        // A garbled frame leaves the search in an unknown state, so give up on it
+        finish();
+        reject(new ApiError('Received a malformed search update', 0));
+        return;
+      }
+      
+      if (event.type === 'error') {
+        finish();
+        reject(new ApiError(event.error, event.status, event.code));
+        return;
+      }
+      
+      onEvent(event);
+      if (event.type === 'done' || event.type === 'exhausted') {
+        finish();
+        resolve();
+      }
+    };
+    
+    // EventSource would silently reconnect (starting a new search), so treat any drop as fatal
+    source.onerror = () => {
+      finish();
+      reject(new ApiError('Lost connection to the search stream', 0));
+    };
+  });
+}
+
+/**
+ * Record a search's type, seed, rarity settings, date sampling and yield snapshot
+ * moment in the address bar, so the hunt can be shared and re-run in any browser
+ * Pass a null seed to clear them; the default date sampling is left out, as is the
+ * yield snapshot moment until the server reports it
+ */
+function updateSearchUrl(
+  type: SearchType,
+  seed: string | null,
+  rarity: RaritySettings = DEFAULT_RARITY_SETTINGS,
+  dateSampling: DateSampling = DEFAULT_DATE_SAMPLING,
+  yieldsAsOf: string | null = null
+): void {
+  const url = new URL(window.location.href);
+  if (seed) {
+    url.searchParams.set('searchType', type);
+    url.searchParams.set('seed', seed);
+    url.searchParams.set('rarity', JSON.stringify(getRarityPreferences(rarity)));
+  } else {
+    url.searchParams.delete('searchType');
+    url.searchParams.delete('seed');
+    url.searchParams.delete('rarity');
+  }
+  if (seed && dateSampling.sampler !== DEFAULT_DATE_SAMPLING.sampler) {
+    url.searchParams.set('dates', JSON.stringify(dateSampling));
+  } else {
+    url.searchParams.delete('dates');
+  }
+  if (seed && yieldsAsOf) {
+    url.searchParams.set('yields', yieldsAsOf);
+  } else {
+    url.searchParams.delete('yields');
+  }
+  window.history.replaceState(null, '', url.toString());
+}
 
 /**
  * Custom hook to handle YouTube search for rare videos
+ * All YouTube API access happens server-side; a live search runs in the
+ * /api/search/stream route, which reports its progress as it goes.
+ * A search is a state machine (see SearchPhase) driven by those progress events;
+ * each search owns an AbortController so it can be cancelled, and a cancelled
+ * or superseded search never writes state again.
  */
 export function useYouTubeSearch() {
-  const [isLoading, setIsLoading] = useState(false);
+  const [phase, setPhase] = useState<SearchPhase>('idle');
   const [videos, setVideos] = useState<Video[]>([]);
   const [currentWindow, setCurrentWindow] = useState<TimeWindow | null>(null);
-  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  const [progress, setProgress] = useState<SearchProgressEvent[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [rerollCount, setRerollCount] = useState<number>(0);
+  const [seed, setSeed] = useState<string | null>(null);
   const [viewStats, setViewStats] = useState<ViewStats | null>(null);
+  const [rejections, setRejections] = useState<RarityRejection[]>([]);
   const [searchType, setSearchType] = useState<SearchType>(SearchType.RandomTime);
+  const [apiStats, setApiStats] = useState<ApiStats>(EMPTY_API_STATS);
+  const [quota, setQuota] = useState<QuotaStatus | null>(null);
+  const [rarity, setRarity] = useState<RaritySettings>(DEFAULT_RARITY_SETTINGS);
+  const [dateSampling, setDateSampling] = useState<DateSampling>(DEFAULT_DATE_SAMPLING);
+  const [categories, setCategories] = useState<VideoCategory[]>([]);
+
+  // Controller of the search in progress, if any
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const isLoading = ACTIVE_PHASES.includes(phase);
+  const rejectionStats = getRejectionStats(rejections);
+
+  // Restore this browser's rarity preferences and date sampling
+  useEffect(() => {
+    try {
+      const stored = window.localStorage.getItem(RARITY_STORAGE_KEY);
+      if (stored) {
+        setRarity(resolveRaritySettings(JSON.parse(stored)));
+      }
+    } catch (error) {
+      console.warn('Could not restore rarity preferences:', error);
+    }
+    try {
+      const stored = window.localStorage.getItem(DATE_SAMPLING_STORAGE_KEY);
+      if (stored) {
+        setDateSampling(resolveDateSampling(JSON.parse(stored)));
+      }
+    } catch (error) {
+      console.warn('Could not restore date sampling:', error);
+    }
+  }, []);
+
+  // Load the category list of this browser's region for the category picker
+  useEffect(() => {
+    apiClient.get<{ categories: VideoCategory[] }>('/categories', { region: getBrowserRegion() })
+      .then(response => {
+        if (response.data) {
+          setCategories(response.data.categories);
+        } else {
+          console.warn('Could not load video categories:', response.error);
+        }
+      });
+  }, []);
+
+  // Stop any running search when the component using the hook unmounts
+  useEffect(() => {
+    return () => controllerRef.current?.abort();
+  }, []);
+
+  /**
+   * Fetch today's remaining YouTube quota budget
+   */
+  const refreshQuota = async (): Promise<void> => {
+    const response = await apiClient.get<{ quota: QuotaStatus }>('/quota');
+    if (response.data) {
+      setQuota(response.data.quota);
+    }
+  };
 
   /**
    * Handle errors consistently throughout the hook
    */
   const handleError = (err: unknown, context: string): void => {
-    if (err instanceof YouTubeRateLimitError) {
+    if (err instanceof ApiError && (err.code === 'quota' || err.status === 429)) {
       setError(`YouTube API rate limit reached: ${err.message}. Please try again later.`);
+    } else if (err instanceof ApiError && err.code === 'transient') {
+      setError('YouTube could not be reached. Please try again in a moment.');
+    } else if (err instanceof ApiError && err.code === 'invalidKey') {
+      setError('The server\'s YouTube API key was rejected. Please check the server configuration.');
+    } else if (err instanceof ApiError && err.code === 'badRequest') {
+      setError(`YouTube rejected the search request: ${err.message}`);
     } else {
       console.error(`Error during ${context}:`, err);
       setError('An unexpected error occurred. Please try again later.');
     }
-    setIsLoading(false);
+    setPhase('failed');
   };
 
   /**
-   * Perform a search on a single time window and reroll if no videos found
+   * Advance the search state machine on a progress event from the server
+   * searchRarity is the rarity this search runs with, used to describe what it looked for
    */
-  const performSearch = async (timeWindow: TimeWindow): Promise<void> => {
-    try {
-      const windowDescription = searchType === SearchType.Unedited 
-        ? 'large time window' 
-        : '24-hour window';
-        
-      setStatusMessage(`Scanning YouTube videos from ${timeWindow.startDate.toLocaleDateString()} (${windowDescription})`);
-      
-      // Search for videos in the current window with current search type
-      const videoIds = await searchVideosInTimeWindow(timeWindow, searchType);
-      
-      if (videoIds.length === 0) {
-        // No videos found at all, immediately reroll to a new date
-        setStatusMessage(`No videos found in this time period. Trying another date...`);
-        await delay(STATUS_MESSAGE_DELAY_MS);
-        await performReroll();
-        return;
-      }
-      
-      // Videos found, get their details
-      const searchTypeLabel = searchType === SearchType.Unedited ? 'unedited ' : '';
-      setStatusMessage(`Found ${videoIds.length} potential ${searchTypeLabel}videos! Analyzing view counts...`);
-      const videoDetails = await getVideoDetails(videoIds);
-      
-      // Get view statistics
-      const stats = getViewStats(videoDetails);
-      setViewStats(stats);
-      
-      // Filter for videos with less than 10 views
-      const rareVideos = filterRareVideos(videoDetails);
-      
-      if (rareVideos.length === 0) {
-        // No videos with less than 10 views found
-        // Show the stats in the status message
-        setStatusMessage(`Found ${stats.totalVideos} ${searchTypeLabel}videos: ${stats.zeroViews} with 0 views, ${stats.underTenViews} with <10 views, ${stats.underHundredViews} with <100 views, ${stats.underThousandViews} with <1000 views`);
-        
-        // No rare videos found, reroll to a different date after showing stats
-        await delay(STATUS_MESSAGE_DELAY_MS * 2);
-        await performReroll();
-      } else {
-        // Success! We found rare videos with <10 views
-        // Sort by viewCount (lowest first)
-        const sortedVideos = [...rareVideos].sort((a, b) => a.viewCount - b.viewCount);
-        setVideos(sortedVideos);
-        setStatusMessage(null);
-        setIsLoading(false);
-      }
-    } catch (error) {
-      handleError(error, 'search');
+  const applyProgressEvent = (event: SearchProgressEvent, searchRarity: RaritySettings): void => {
+    setProgress(previous => [...previous, event]);
+    
+    switch (event.type) {
+      case 'reroll':
+        setRerollCount(event.attempt);
+        setPhase('rerolling');
+        break;
+      case 'window':
+        setCurrentWindow(parseTimeWindow(event.window));
+        setViewStats(null);
+        setPhase('searching');
+        break;
+      case 'ids':
+        // The server may narrow or widen the window, so show the one it actually used
+        setCurrentWindow(parseTimeWindow(event.window));
+        setApiStats(event.apiStats);
+        if (event.count > 0) setPhase('analyzing');
+        break;
+      case 'details':
+        setApiStats(event.apiStats);
+        setPhase('filtering');
+        refreshQuota();
+        break;
+      case 'stats':
+        setViewStats(event.viewStats);
+        // Rejections accumulate over every time period this search tries
+        setRejections(previous => [...previous, ...event.rejections]);
+        break;
+      case 'done':
+        setVideos(event.videos);
+        setCurrentWindow(parseTimeWindow(event.window));
+        setApiStats(event.apiStats);
+        setPhase('found');
+        break;
+      case 'exhausted':
+        setError(`After ${event.attempts} different time periods, couldn't find any videos with ${describeViewThreshold(searchRarity.viewThreshold)}. Try again later!`);
+        setPhase('exhausted');
+        break;
     }
   };
 
   /**
-   * Start a completely new search with a random time period
+   * Try to serve a batch of pre-found videos from the harvester's pool
+   * Returns false when the pool is empty or unavailable, so the caller can search live
    */
-  const performReroll = async (): Promise<void> => {
-    try {
-      // Increment reroll count
-      const newRerollCount = rerollCount + 1;
-      setRerollCount(newRerollCount);
-      
-      // Check if we've reached the maximum number of rerolls
-      if (newRerollCount > MAX_REROLLS) {
-        setError(`After ${MAX_REROLLS} different time periods, couldn't find any videos with zero views. Try again later!`);
-        setIsLoading(false);
-        return;
-      }
-      
-      setStatusMessage(`Reroll #${newRerollCount}: Trying a completely different time period...`);
-      
-      // Brief delay to show the reroll message
-      await delay(STATUS_MESSAGE_DELAY_MS);
-      
-      // Get a fresh random date and create a new window
-      const randomDate = getRandomPastDate();
-      const newWindow = createInitialTimeWindow(randomDate);
-      setCurrentWindow(newWindow);
-      
-      // Search with the new window
-      await performSearch(newWindow);
-    } catch (error) {
-      handleError(error, 'reroll');
+  const serveFromPool = async (type: SearchType, searchRarity: RaritySettings, signal: AbortSignal): Promise<boolean> => {
+    const response = await apiClient.post<{ videos: Video[]; remaining: number }>(
+      '/search/pool',
+      { searchType: type, viewThreshold: searchRarity.viewThreshold },
+      { signal }
+    );
+    
+    if (signal.aborted || response.error || !response.data || response.data.videos.length === 0) {
+      return false;
     }
+    
+    const sortedVideos = [...response.data.videos].sort((a, b) => a.viewCount - b.viewCount);
+    setVideos(sortedVideos);
+    setViewStats(null);
+    setCurrentWindow(null);
+    setPhase('found');
+    return true;
   };
 
   /**
-   * Start search from a random date with the specified search type
+   * Start search from a sampled date with the specified search type
+   * Any search already running is cancelled first. Passing a seed replays that
+   * exact hunt (with the rarity settings, date sampling and yield snapshot moment it was
+   * shared with, if given); without one, pooled videos are served if available, otherwise
+   * a live search runs with a fresh seed. Shared settings apply to this search but aren't remembered.
    */
-  const startSearch = async (type: SearchType = searchType): Promise<void> => {
+  const startSearch = async (
+    type: SearchType = searchType,
+    searchSeed?: string,
+    sharedDateSampling?: DateSampling,
+    sharedRarity?: RaritySettings,
+    sharedYieldsAsOf?: string
+  ): Promise<void> => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const { signal } = controller;
+    
     // If the selected search type is different, update it
     if (type !== searchType) {
       setSearchType(type);
     }
     
+    // Every attempt of this search, rerolls included, samples dates the same way
+    const searchDateSampling = sharedDateSampling || dateSampling;
+    if (sharedDateSampling) {
+      setDateSampling(sharedDateSampling);
+    }
+    const searchRarity = sharedRarity || rarity;
+    if (sharedRarity) {
+      setRarity(sharedRarity);
+    }
+    
     // Reset all state
-    setIsLoading(true);
+    setPhase('searching');
     setError(null);
-    setStatusMessage(null);
+    setProgress([]);
     setVideos([]);
+    setViewStats(null);
+    setRejections([]);
+    setCurrentWindow(null);
     setRerollCount(0);
-    
-    // Reset API call stats
-    apiStats.reset();
+    setSeed(null);
+    // Stats are counted per search on the server and arrive with its progress events
+    setApiStats(EMPTY_API_STATS);
     
     try {
-      // Get a random date and create initial time window
-      const randomDate = getRandomPastDate();
-      const initialWindow = createInitialTimeWindow(randomDate);
-      setCurrentWindow(initialWindow);
+      await refreshQuota();
+      if (signal.aborted) return;
+      
+      // Serve pre-found videos instantly when the harvester has some (unless replaying a seed)
+      if (!searchSeed && canServeFromPool(searchRarity, searchDateSampling) && await serveFromPool(type, searchRarity, signal)) {
+        updateSearchUrl(type, null);
+        return;
+      }
+      if (signal.aborted) return;
       
-      // Start the search process with the current search type
-      await performSearch(initialWindow);
+      // Search live, recording the seed so the hunt can be shared
+      const liveSeed = searchSeed || generateSeed();
+      setSeed(liveSeed);
+      updateSearchUrl(type, liveSeed, searchRarity, searchDateSampling);
+      await streamSearch(type, liveSeed, searchRarity, searchDateSampling, searchSeed ? sharedYieldsAsOf : undefined, signal, event => {
+        if (signal.aborted) return;
+        // The link replays with the learned yields the server picked with
+        if (event.type === 'started') {
+          updateSearchUrl(type, liveSeed, searchRarity, searchDateSampling, event.yieldsAsOf);
+        }
+        applyProgressEvent(event, searchRarity);
+      });
+      await refreshQuota();
     } catch (err) {
-      handleError(err, 'initial search');
+      // A cancelled search has already been wound down by cancelSearch
+      if (signal.aborted) return;
+      handleError(err, 'search');
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+      }
     }
   };
 
+  /**
+   * Stop the search in progress
+   */
+  const cancelSearch = (): void => {
+    if (!controllerRef.current) return;
+    
+    controllerRef.current.abort();
+    controllerRef.current = null;
+    setPhase('cancelled');
+  };
+
   /**
    * Change search type and clear results
    */
@@ -172,23 +455,130 @@ export function useYouTubeSearch() {
     if (type !== searchType && !isLoading) {
       setSearchType(type);
       setVideos([]);
-      setStatusMessage(null);
+      setProgress([]);
       setError(null);
       setViewStats(null);
+      setRejections([]);
       setCurrentWindow(null);
+      setPhase('idle');
+    }
+  };
+
+  /**
+   * Change and remember how search dates are chosen (not while a search is running)
+   */
+  const changeDateSampling = (sampling: DateSampling): void => {
+    if (isLoading) return;
+    
+    setDateSampling(sampling);
+    try {
+      window.localStorage.setItem(DATE_SAMPLING_STORAGE_KEY, JSON.stringify(sampling));
+    } catch (error) {
+      console.warn('Could not save date sampling:', error);
     }
   };
 
+  /**
+   * Move a rejected video into the results, overriding the rule that dropped it
+   */
+  const rescueVideo = (videoId: string): void => {
+    if (isLoading) return;
+    
+    const rescued = rejections.find(rejection => rejection.video.id === videoId);
+    if (!rescued) return;
+    
+    setRejections(previous => previous.filter(rejection => rejection.video.id !== videoId));
+    setVideos(previous => [...previous, rescued.video].sort((a, b) => a.viewCount - b.viewCount));
+    if (phase === 'exhausted') {
+      setError(null);
+      setPhase('found');
+    }
+  };
+
+  /**
+   * Update and remember the rarity preferences (not while a search is running)
+   */
+  const updateRarity = (changes: Partial<RaritySettings>): void => {
+    if (isLoading) return;
+    
+    const updated = { ...rarity, ...changes };
+    setRarity(updated);
+    try {
+      window.localStorage.setItem(RARITY_STORAGE_KEY, JSON.stringify(getRarityPreferences(updated)));
+    } catch (error) {
+      console.warn('Could not save rarity preferences:', error);
+    }
+  };
+
+  /**
+   * Set how few views a video needs to count as rare
+   */
+  const setViewThreshold = (viewThreshold: number): void => {
+    updateRarity({ viewThreshold });
+  };
+
+  /**
+   * Limit how long videos may be, in seconds (null for no limit)
+   */
+  const setDurationRange = (minDurationSeconds: number | null, maxDurationSeconds: number | null): void => {
+    updateRarity({ minDurationSeconds, maxDurationSeconds });
+  };
+
+  /**
+   * Keep, drop or exclusively hunt Shorts
+   */
+  const setShortsMode = (shorts: ShortsMode): void => {
+    updateRarity({ shorts });
+  };
+
+  /**
+   * Include, exclude or stop caring about a video category
+   */
+  const setCategoryMode = (categoryId: string, mode: CategoryFilterMode): void => {
+    const includedCategories = rarity.includedCategories.filter(id => id !== categoryId);
+    const excludedCategories = rarity.excludedCategories.filter(id => id !== categoryId);
+    if (mode === 'include') includedCategories.push(categoryId);
+    if (mode === 'exclude') excludedCategories.push(categoryId);
+    updateRarity({ includedCategories, excludedCategories });
+  };
+
+  /**
+   * Switch a rarity rule on or off
+   */
+  const toggleRarityRule = (ruleId: RarityRuleId): void => {
+    const disabledRules = rarity.disabledRules.includes(ruleId)
+      ? rarity.disabledRules.filter(id => id !== ruleId)
+      : [...rarity.disabledRules, ruleId];
+    updateRarity({ disabledRules });
+  };
+
   return {
+    phase,
     isLoading,
     videos,
     currentWindow,
-    statusMessage,
+    progress,
     error,
     viewStats,
+    rejections,
+    rejectionStats,
+    rerollCount,
+    seed,
     apiStats,
+    quota,
     searchType,
+    rarity,
+    dateSampling,
+    categories,
     startSearch,
-    changeSearchType
+    cancelSearch,
+    changeSearchType,
+    changeDateSampling,
+    rescueVideo,
+    setViewThreshold,
+    setDurationRange,
+    setShortsMode,
+    setCategoryMode,
+    toggleRarityRule
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,12 @@
+/**
+ * Next.js server startup hook
+ * Starts the background harvester and view refresher in the Node.js runtime when enabled
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startHarvesterIfEnabled } = await import('./lib/harvester');
+    startHarvesterIfEnabled();
+    const { startViewRefresherIfEnabled } = await import('./lib/viewRefresher');
+    startViewRefresherIfEnabled();
+  }
+}
@@ -0,0 +1,22 @@
+import { timingSafeEqual } from 'crypto';
+import { ApiError } from './api';
+import { ADMIN_TOKEN_HEADER } from './constants';
+
+/**
+ * Check that a request may change what every user gets (dictionaries, background jobs)
+ * Admin requests must send ADMIN_TOKEN in the x-admin-token header; without an
+ * ADMIN_TOKEN on the server, admin changes are switched off altogether.
+ * Throws a 403 ApiError when admin changes are off and a 401 for a missing or wrong token.
+ */
+export function requireAdmin(request: Request): void {
+  const adminToken = process.env.ADMIN_TOKEN || '';
+  if (!adminToken) {
+    throw new ApiError('Admin changes are disabled. Set ADMIN_TOKEN on the server to enable them.', 403, 'adminDisabled');
+  }
+  
+  const given = Buffer.from(request.headers.get(ADMIN_TOKEN_HEADER) || '');
+  const expected = Buffer.from(adminToken);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    throw new ApiError('A valid admin token is required', 401, 'unauthorized');
+  }
+}
@@ -5,14 +5,27 @@
 // Generic API error handling
 export class ApiError extends Error {
   status: number;
+  code?: string;
   
-  constructor(message: string, status: number = 500) {
+  constructor(message: string, status: number = 500, code?: string) {
     super(message);
     this.name = 'ApiError';
     this.status = status;
+    this.code = code;
   }
 }
 
+/**
+ * Parse a numeric id from a route parameter, throwing a 400 ApiError if it isn't one
+ */
+export function parseIdParam(value: string, name: string = 'id'): number {
+  const id = Number(value);
+  if (!Number.isInteger(id) || id < 1) {
+    throw new ApiError(`${name} must be a positive integer`, 400);
+  }
+  return id;
+}
+
 /**
  * Standard API response helper
  */
@@ -63,13 +76,14 @@ export async function fetchApi<T = any>(
 /**
  * Standard error handler for API route handlers
  */
-export function handleApiError(error: unknown, context: string = 'API'): { error: string; status: number } {
+export function handleApiError(error: unknown, context: string = 'API'): { error: string; status: number; code?: string } {
   console.error(`Error in ${context}:`, error);
   
   if (error instanceof ApiError) {
     return {
       error: error.message,
-      status: error.status
+      status: error.status,
+      code: error.code
     };
   }
   
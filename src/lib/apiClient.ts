@@ -8,6 +8,7 @@ interface RequestOptions extends RequestInit {
 interface ApiResponse<T> {
   data: T | null;
   error: string | null;
+  errorCode?: string | null;
   statusCode: number;
 }
 
@@ -68,6 +69,7 @@ export const apiClient = {
       if (!response.ok) {
         // Check for multiple error message formats from our API
         let errorMessage = `API error: ${response.status} ${response.statusText}`;
+        let errorCode: string | null = null;
         
         if (data) {
           if (typeof data === 'object') {
@@ -76,6 +78,11 @@ export const apiClient = {
             } else if ('error' in data) {
               errorMessage = String(data.error);
             }
+            
+            // Machine-readable error kind, when the route provides one
+            if ('code' in data && data.code) {
+              errorCode = String(data.code);
+            }
           }
         }
         
@@ -88,6 +95,7 @@ export const apiClient = {
         return {
           data: null,
           error: errorMessage,
+          errorCode,
           statusCode,
         };
       }
@@ -100,6 +108,17 @@ export const apiClient = {
         statusCode,
       };
     } catch (error) {
+      // Requests aborted by the caller are expected, not network failures
+      if (error instanceof Error && error.name === 'AbortError') {
+        logger.debug('apiClient: Request aborted', { endpoint });
+        return {
+          data: null,
+          error: 'Request cancelled',
+          errorCode: 'cancelled',
+          statusCode: 0,
+        };
+      }
+      
       // Handle network errors
       const errorMessage = error instanceof Error 
         ? error.message 
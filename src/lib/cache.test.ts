@@ -0,0 +1,59 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Cache, CacheBackend, MemoryCacheBackend } from './cache';
+
+/**
+ * A cache over a memory backend, counting hits and misses
+ */
+function createCache(backend: CacheBackend = new MemoryCacheBackend(10)) {
+  const counts = { hits: 0, misses: 0 };
+  const cache = new Cache<{ views: number }>('test', {
+    backend,
+    defaultTtlMs: 60000,
+    onHit: () => counts.hits++,
+    onMiss: () => counts.misses++
+  });
+  return { cache, backend, counts };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('Cache', () => {
+  it('returns the values it has and counts hits and misses', async () => {
+    const { cache, counts } = createCache();
+    await cache.set('a', { views: 3 });
+    
+    expect(await cache.getMany(['a', 'b'])).toEqual({ a: { views: 3 } });
+    expect(counts).toEqual({ hits: 1, misses: 1 });
+  });
+  
+  it('treats expired entries as misses', async () => {
+    const { cache } = createCache();
+    await cache.set('a', { views: 3 }, -1);
+    
+    expect(await cache.get('a')).toBeUndefined();
+  });
+  
+  it('drops a corrupt entry and treats it as a miss', async () => {
+    const { cache, backend, counts } = createCache();
+    await cache.set('good', { views: 1 });
+    await backend.set('test:bad', { value: '{not json', expiresAt: Date.now() + 60000 });
+    
+    expect(await cache.getMany(['good', 'bad'])).toEqual({ good: { views: 1 } });
+    expect(counts).toEqual({ hits: 1, misses: 1 });
+    expect(await backend.getMany(['test:bad'])).toEqual({});
+  });
+  
+  it('treats a failing backend as empty', async () => {
+    const failing: CacheBackend = {
+      getMany: () => Promise.reject(new Error('Database down')),
+      set: () => Promise.reject(new Error('Database down')),
+      delete: () => Promise.reject(new Error('Database down'))
+    };
+    const { cache } = createCache(failing);
+    
+    await cache.set('a', { views: 3 });
+    expect(await cache.get('a')).toBeUndefined();
+  });
+});
@@ -0,0 +1,253 @@
+import { ensureDatabase } from './db';
+import { CacheModel } from './models/cacheModel';
+import { CACHE_BACKEND, MAX_CACHE_VALUE_BYTES, CACHE_PRUNE_INTERVAL } from './constants';
+import logger from './logger';
+
+/**
+ * A cached value with its expiry time (epoch milliseconds)
+ */
+export interface CacheEntry {
+  value: string;
+  expiresAt: number;
+}
+
+/**
+ * Storage for serialized cache entries
+ * Backends only deal in strings; the Cache class handles (de)serialization
+ */
+export interface CacheBackend {
+  getMany(keys: string[]): Promise<Record<string, CacheEntry>>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * In-memory backend that evicts the least recently used entry past a size limit
+ */
+export class MemoryCacheBackend implements CacheBackend {
+  // Map iteration order doubles as recency order (oldest first)
+  private entries = new Map<string, CacheEntry>();
+  
+  constructor(private readonly maxEntries: number) {}
+  
+  async getMany(keys: string[]): Promise<Record<string, CacheEntry>> {
+    const now = Date.now();
+    const found: Record<string, CacheEntry> = {};
+    
+    keys.forEach(key => {
+      const entry = this.entries.get(key);
+      if (!entry) return;
+      
+      this.entries.delete(key);
+      if (entry.expiresAt > now) {
+        // Re-insert to mark as most recently used
+        this.entries.set(key, entry);
+        found[key] = entry;
+      }
+    });
+    
+    return found;
+  }
+  
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+  
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * MySQL backend storing entries in the cache_entries table, so they survive restarts
+ */
+export class MySqlCacheBackend implements CacheBackend {
+  private writesSincePrune = 0;
+  
+  async getMany(keys: string[]): Promise<Record<string, CacheEntry>> {
+    await ensureDatabase();
+    const rows = await CacheModel.getMany(keys);
+    
+    const found: Record<string, CacheEntry> = {};
+    rows.forEach(row => {
+      found[row.key] = { value: row.value, expiresAt: row.expiresAt };
+    });
+    return found;
+  }
+  
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    if (entry.value.length > MAX_CACHE_VALUE_BYTES) {
+      logger.warn('MySqlCacheBackend: Value too large to cache', { key, size: entry.value.length });
+      return;
+    }
+    
+    await ensureDatabase();
+    await CacheModel.set(key, entry.value, entry.expiresAt);
+    
+    // Expired rows are never read, but clear them out now and then to bound the table
+    this.writesSincePrune++;
+    if (this.writesSincePrune >= CACHE_PRUNE_INTERVAL) {
+      this.writesSincePrune = 0;
+      await CacheModel.deleteExpired();
+    }
+  }
+  
+  async delete(key: string): Promise<void> {
+    await ensureDatabase();
+    await CacheModel.remove(key);
+  }
+}
+
+/**
+ * Backend that reads through a fast front backend to a persistent back backend
+ */
+export class TieredCacheBackend implements CacheBackend {
+  constructor(
+    private readonly front: CacheBackend,
+    private readonly back: CacheBackend
+  ) {}
+  
+  async getMany(keys: string[]): Promise<Record<string, CacheEntry>> {
+    const found = await this.front.getMany(keys);
+    const missing = keys.filter(key => !found[key]);
+    if (missing.length === 0) return found;
+    
+    // The persistent tier is optional; if it is down, serve what the front tier has
+    let fromBack: Record<string, CacheEntry> = {};
+    try {
+      fromBack = await this.back.getMany(missing);
+    } catch (error) {
+      logger.warn('TieredCacheBackend: Persistent tier read failed', error);
+    }
+    
+    for (const [key, entry] of Object.entries(fromBack)) {
+      await this.front.set(key, entry);
+      found[key] = entry;
+    }
+    return found;
+  }
+  
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await this.front.set(key, entry);
+    await this.back.set(key, entry);
+  }
+  
+  async delete(key: string): Promise<void> {
+    await this.front.delete(key);
+    await this.back.delete(key);
+  }
+}
+
+/**
+ * Create the backend selected by the CACHE_BACKEND setting
+ * 'mysql' keeps a memory LRU in front of the database table
+ */
+export function createCacheBackend(maxEntries: number): CacheBackend {
+  const memory = new MemoryCacheBackend(maxEntries);
+  return CACHE_BACKEND === 'mysql'
+    ? new TieredCacheBackend(memory, new MySqlCacheBackend())
+    : memory;
+}
+
+interface CacheOptions {
+  backend: CacheBackend;
+  defaultTtlMs: number;
+  onHit?: (key: string) => void;
+  onMiss?: (key: string) => void;
+}
+
+/**
+ * Namespaced, typed cache with per-entry TTLs
+ * Backend failures are logged and treated as misses so a broken cache never breaks a search
+ */
+export class Cache<T> {
+  private readonly backend: CacheBackend;
+  private readonly defaultTtlMs: number;
+  private readonly onHit: (key: string) => void;
+  private readonly onMiss: (key: string) => void;
+  
+  constructor(private readonly namespace: string, options: CacheOptions) {
+    this.backend = options.backend;
+    this.defaultTtlMs = options.defaultTtlMs;
+    this.onHit = options.onHit || (() => {});
+    this.onMiss = options.onMiss || (() => {});
+  }
+  
+  /**
+   * Get a single value, or undefined if missing or expired
+   */
+  async get(key: string): Promise<T | undefined> {
+    const found = await this.getMany([key]);
+    return found[key];
+  }
+  
+  /**
+   * Get the values that are cached for a list of keys
+   */
+  async getMany(keys: string[]): Promise<Record<string, T>> {
+    const found: Record<string, T> = {};
+    if (keys.length === 0) return found;
+    
+    let entries: Record<string, CacheEntry> = {};
+    try {
+      entries = await this.backend.getMany(keys.map(key => this.fullKey(key)));
+    } catch (error) {
+      logger.warn(`Cache ${this.namespace}: Read failed, treating as miss`, error);
+    }
+    
+    for (const key of keys) {
+      const entry = entries[this.fullKey(key)];
+      if (!entry) {
+        this.onMiss(key);
+        continue;
+      }
+      
+      try {
+        found[key] = JSON.parse(entry.value) as T;
+        this.onHit(key);
+      } catch (error) {
+        // Drop a corrupt entry so the next lookup fetches the value afresh
+        logger.warn(`Cache ${this.namespace}: Corrupt entry, treating as miss`, { key, error: String(error) });
+        await this.delete(key);
+        this.onMiss(key);
+      }
+    }
+    
+    return found;
+  }
+  
+  /**
+   * Store a value, optionally overriding the default TTL
+   */
+  async set(key: string, value: T, ttlMs: number = this.defaultTtlMs): Promise<void> {
+    try {
+      await this.backend.set(this.fullKey(key), {
+        value: JSON.stringify(value),
+        expiresAt: Date.now() + ttlMs
+      });
+    } catch (error) {
+      logger.warn(`Cache ${this.namespace}: Write failed`, error);
+    }
+  }
+  
+  /**
+   * Remove a value
+   */
+  async delete(key: string): Promise<void> {
+    try {
+      await this.backend.delete(this.fullKey(key));
+    } catch (error) {
+      logger.warn(`Cache ${this.namespace}: Delete failed`, error);
+    }
+  }
+  
+  private fullKey(key: string): string {
+    return `${this.namespace}:${key}`;
+  }
+}
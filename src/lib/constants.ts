@@ -1,18 +1,98 @@
 // API configuration
 export const YOUTUBE_API_URL = 'https://www.googleapis.com/youtube/v3';
+export const YOUTUBE_OEMBED_URL = 'https://www.youtube.com/oembed'; // Keyless and free; tells private videos from deleted ones
+export const YOUTUBE_FAKE_API = process.env.YOUTUBE_API_MODE === 'fake'; // Answer YouTube calls from the offline fixture corpus
+export const FAKE_API_LATENCY_MS = 150; // Pause before each fake API response
+export const FAKE_QUOTA_CALLS_PER_KEY = 20; // Calls each key gets in the fake API's quotaExceeded scenario
 export const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || '/api';
+export const ADMIN_TOKEN_HEADER = 'x-admin-token'; // Header admin requests carry ADMIN_TOKEN in
 
 // Time-related constants
 export const YOUTUBE_FOUNDING_DATE = new Date(2005, 3, 23); // April 23, 2005 - when YouTube was first launched
-export const STATUS_MESSAGE_DELAY_MS = 1200;
+
+// Estimated hours of video uploaded to YouTube per minute, by year (from YouTube's published milestones)
+// Years without an entry are assumed to match the closest earlier one
+export const UPLOAD_HOURS_PER_MINUTE: Record<number, number> = {
+  2005: 0.5,
+  2006: 3,
+  2007: 6,
+  2008: 13,
+  2009: 20,
+  2010: 35,
+  2011: 48,
+  2012: 72,
+  2013: 100,
+  2014: 300,
+  2015: 400,
+  2017: 450,
+  2019: 500
+};
+
+// Adaptive time window settings
+export const INITIAL_WINDOW_MINUTES = 5760; // 96 hours
+export const MIN_WINDOW_MINUTES = 60; // Never narrow below one hour
+export const MAX_WINDOW_MINUTES = 60 * 24 * 32; // Never widen beyond 32 days
+export const MAX_WINDOW_ADJUSTMENTS = 3; // Narrow/widen steps per window before giving up on it
 
 // Search parameters
-export const RARE_VIEW_THRESHOLD = 0; // Only true treasures with 0 views
+export const RARE_VIEW_THRESHOLD = 10; // Default rarity: videos need fewer than this many views
+export const VIEW_THRESHOLD_OPTIONS = [1, 10, 100]; // Rarity levels users can pick: 0 views, <10, <100
+export const SHORTS_MAX_DURATION_SECONDS = 60; // Longest video treated as a Short
+
+// Duration ranges users can pick, in seconds (null for no limit)
+export const DURATION_OPTIONS = [
+  { label: 'Any length', minSeconds: null, maxSeconds: null },
+  { label: 'Under 1 min', minSeconds: null, maxSeconds: 60 },
+  { label: '1-10 min', minSeconds: 60, maxSeconds: 600 },
+  { label: 'Over 10 min', minSeconds: 600, maxSeconds: null }
+];
 export const MAX_BATCH_SIZE = 50; // Maximum videos per API call
+export const SEARCH_PAGES_PER_WINDOW = 3; // Result pages to read from a window before rerolling
+export const MAX_SEARCH_PAGES = 10; // Upper bound on pages per window (each page is a search call)
+
+// Quota settings
+// Reference: https://developers.google.com/youtube/v3/determine_quota_cost
+export const DAILY_QUOTA_LIMIT = Number(process.env.YOUTUBE_DAILY_QUOTA) || 10000; // Units per API key per Pacific-time day
+export const QUOTA_RESERVE_UNITS = 100; // Headroom kept back so searches stop before the hard limit
+export const QUOTA_TIME_ZONE = 'America/Los_Angeles'; // YouTube quotas reset at midnight Pacific time
+
+// Retry settings for YouTube API calls
+export const RETRY_MAX_ATTEMPTS = 3; // Attempts per call, including the first
+export const RETRY_BASE_DELAY_MS = 500; // Backoff ceiling for the first retry, doubling after that
+export const RETRY_MAX_DELAY_MS = 8000; // Longest wait between attempts (including Retry-After)
+
+// Cache settings
+export const CACHE_BACKEND = process.env.CACHE_BACKEND || 'memory'; // 'memory' or 'mysql'
+export const OLD_WINDOW_AGE_DAYS = 30; // Windows ending this long ago rarely gain new uploads
+export const OLD_WINDOW_SEARCH_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days for search ids of old windows
+export const RECENT_WINDOW_SEARCH_TTL_MS = 6 * 60 * 60 * 1000; // 6 hours for search ids of recent windows
+export const VIDEO_DETAILS_TTL_MS = 60 * 60 * 1000; // 1 hour, since view counts change
+export const SEARCH_CACHE_MAX_ENTRIES = 5000; // In-memory search pages kept
+export const VIDEO_CACHE_MAX_ENTRIES = 20000; // In-memory video details kept
+export const CATEGORY_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days, since categories rarely change
+export const CATEGORY_CACHE_MAX_ENTRIES = 250; // In-memory category lists kept (one per region)
+export const MAX_CACHE_VALUE_BYTES = 1024 * 1024; // Larger values are not persisted
+export const CACHE_PRUNE_INTERVAL = 500; // Persistent cache writes between expired-row cleanups
 
 // Reroll settings
 export const MAX_REROLLS = 7;  // Maximum number of rerolls before giving up
 
+// Sibling search settings
+export const SIBLING_WINDOW_MINUTES = 60 * 24 * 3; // Window around a video's upload searched for its channel's other uploads
+export const SIBLING_SEARCH_PAGES = 2; // Result pages read from the channel's window
+
+// Background harvester settings
+export const HARVESTER_ENABLED = process.env.HARVESTER_ENABLED === 'true'; // Start the harvester with the server
+export const HARVEST_INTERVAL_MS = Number(process.env.HARVEST_INTERVAL_MS) || 5 * 60 * 1000; // Pause between harvest rounds
+export const HARVEST_POOL_TARGET = 100; // Unserved candidates to keep per search type before idling
+export const HARVEST_QUOTA_FLOOR_UNITS = Number(process.env.HARVEST_QUOTA_FLOOR) || 3000; // Quota left untouched for live searches
+export const POOL_BATCH_SIZE = 12; // Candidates served per pool request
+
+// Saved video view refresher settings
+export const VIEW_REFRESHER_ENABLED = process.env.VIEW_REFRESHER_ENABLED === 'true'; // Start the view refresher with the server
+export const VIEW_REFRESH_INTERVAL_MS = Number(process.env.VIEW_REFRESH_INTERVAL_MS) || 12 * 60 * 60 * 1000; // Pause between refreshes of every saved video
+export const VIEW_HISTORY_POINTS = 30; // Latest snapshots sent with each saved video (for its sparkline)
+
 // YouTube Video Category IDs
 // Reference: https://developers.google.com/youtube/v3/docs/videoCategories/list
 export const VIDEO_CATEGORIES = {
@@ -50,7 +130,20 @@ export const VIDEO_CATEGORIES = {
   TRAILERS: '44'
 };
 
-// Categories to exclude from our searches
+// Search dictionaries
+export const DICTIONARY_REFRESH_MS = 60 * 1000; // How long loaded dictionary terms are used before reloading
+export const MAX_TERM_WEIGHT = 100; // Heaviest weight a dictionary term can have
+
+// Yield learning (see yieldBandit)
+export const BANDIT_EXPLORATION_RATE = 0.2; // Share of term and era picks that ignore past yields
+export const YIELD_LOOKBACK_DAYS = 90; // Only attempts this recent count towards yields
+export const YIELD_REFRESH_MS = 5 * 60 * 1000; // How long loaded yields are used before reloading
+
+// Region whose category list is shown when the browser doesn't suggest one
+export const DEFAULT_REGION_CODE = 'US';
+export const AVAILABILITY_REGION_CODE = process.env.AVAILABILITY_REGION || DEFAULT_REGION_CODE; // Region videos must be watchable in, or they're flagged as blocked
+
+// Categories excluded unless the user chooses otherwise
 export const EXCLUDED_CATEGORIES = [
   VIDEO_CATEGORIES.FILM_AND_ANIMATION,
   VIDEO_CATEGORIES.SHORT_MOVIES,
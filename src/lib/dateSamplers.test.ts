@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { addDays } from 'date-fns';
+import { SearchType } from '@/types';
+import {
+  DEFAULT_DATE_SAMPLING,
+  getDateSegments,
+  getUploadVolume,
+  parseDateSampling,
+  resolveDateSampling
+} from './dateSamplers';
+import { createSeededRandom } from './random';
+import { pickSearchDate } from './yieldBandit';
+import { YOUTUBE_FOUNDING_DATE } from './constants';
+
+describe('getDateSegments', () => {
+  // Segments end yesterday, so pin today
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2024, 5, 15, 12));
+  });
+  
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+  
+  it('splits the whole searchable period into contiguous years by default', () => {
+    const segments = getDateSegments(DEFAULT_DATE_SAMPLING);
+    
+    expect(segments[0].era).toBe('2005');
+    expect(segments[0].start).toEqual(YOUTUBE_FOUNDING_DATE);
+    expect(segments[segments.length - 1].era).toBe('2024');
+    expect(segments[segments.length - 1].end).toEqual(new Date(2024, 5, 14, 12));
+    segments.slice(1).forEach((segment, i) => {
+      expect(segment.start).toEqual(segments[i].end);
+      expect(segment.era).toBe(String(Number(segments[i].era) + 1));
+    });
+    segments.forEach(segment => {
+      expect(segment.weight).toBe(segment.end.getTime() - segment.start.getTime());
+    });
+  });
+  
+  it('weights years by upload volume for busy years', () => {
+    const uniform = getDateSegments({ sampler: 'uniform' });
+    const busy = getDateSegments({ sampler: 'uploadVolume' });
+    
+    expect(busy.map(({ era }) => era)).toEqual(uniform.map(({ era }) => era));
+    busy.forEach((segment, i) => {
+      expect(segment.weight).toBe(uniform[i].weight * getUploadVolume(Number(segment.era)));
+    });
+  });
+  
+  it('limits a range to its days, including the last one, split at the new year', () => {
+    const segments = getDateSegments({ sampler: 'range', startDate: '2012-12-30', endDate: '2013-01-02' });
+    
+    expect(segments.map(({ era }) => era)).toEqual(['2012', '2013']);
+    expect(segments[0].start).toEqual(new Date(2012, 11, 30));
+    expect(segments[1].end).toEqual(new Date(2013, 0, 3));
+  });
+  
+  it('limits a year to that year', () => {
+    const segments = getDateSegments({ sampler: 'year', year: 2010 });
+    
+    expect(segments).toHaveLength(1);
+    expect(segments[0].start).toEqual(new Date(2010, 0, 1));
+    expect(segments[0].end).toEqual(new Date(2011, 0, 1));
+  });
+  
+  it('gives one day per earlier year for this day', () => {
+    const segments = getDateSegments({ sampler: 'thisDay' });
+    
+    // June 15, 2005 comes after YouTube's founding, so every year up to 2023 has the day
+    expect(segments.map(({ era }) => era)).toEqual(
+      Array.from({ length: 19 }, (_, i) => String(2005 + i))
+    );
+    segments.forEach(segment => {
+      expect(segment.start).toEqual(new Date(Number(segment.era), 5, 15));
+      expect(segment.end).toEqual(addDays(segment.start, 1));
+    });
+  });
+  
+  it('falls back to the whole period when nothing is left to search', () => {
+    const segments = getDateSegments({ sampler: 'range', startDate: '2025-01-01', endDate: '2025-12-31' });
+    
+    expect(segments).toEqual(getDateSegments(DEFAULT_DATE_SAMPLING));
+  });
+});
+
+describe('resolveDateSampling', () => {
+  it('falls back to the default for unknown samplers and bad input', () => {
+    expect(resolveDateSampling(undefined)).toEqual(DEFAULT_DATE_SAMPLING);
+    expect(resolveDateSampling('range')).toEqual(DEFAULT_DATE_SAMPLING);
+    expect(resolveDateSampling({ sampler: 'decade' })).toEqual(DEFAULT_DATE_SAMPLING);
+  });
+  
+  it('keeps only the chosen sampler\'s options', () => {
+    expect(resolveDateSampling({ sampler: 'range', startDate: '2010-01-01', endDate: '2010-02-01', year: 2012 }))
+      .toEqual({ sampler: 'range', startDate: '2010-01-01', endDate: '2010-02-01' });
+    expect(resolveDateSampling({ sampler: 'uploadVolume', year: 2012 })).toEqual({ sampler: 'uploadVolume' });
+  });
+  
+  it('rejects malformed ranges and years outside YouTube\'s history', () => {
+    expect(resolveDateSampling({ sampler: 'range', startDate: '2010-13-01', endDate: '2010-02-01' })).toEqual(DEFAULT_DATE_SAMPLING);
+    expect(resolveDateSampling({ sampler: 'year', year: 1999 })).toEqual(DEFAULT_DATE_SAMPLING);
+    expect(resolveDateSampling({ sampler: 'year', year: '2010' })).toEqual(DEFAULT_DATE_SAMPLING);
+    expect(resolveDateSampling({ sampler: 'year', year: 2010 })).toEqual({ sampler: 'year', year: 2010 });
+  });
+});
+
+describe('parseDateSampling', () => {
+  it('reads a date sampling from a shared link parameter', () => {
+    expect(parseDateSampling('{"sampler":"year","year":2008}')).toEqual({ sampler: 'year', year: 2008 });
+  });
+  
+  it('falls back to the default for a missing or malformed parameter', () => {
+    expect(parseDateSampling(null)).toEqual(DEFAULT_DATE_SAMPLING);
+    expect(parseDateSampling('{not json')).toEqual(DEFAULT_DATE_SAMPLING);
+  });
+});
+
+describe('pickSearchDate', () => {
+  it('only picks dates the sampler allows', () => {
+    for (let i = 0; i < 50; i++) {
+      const random = createSeededRandom(`sample${i}`);
+      
+      const inYear = pickSearchDate(SearchType.RandomTime, { sampler: 'year', year: 2009 }, random);
+      expect(inYear.getFullYear()).toBe(2009);
+      
+      const inRange = pickSearchDate(SearchType.RandomTime, { sampler: 'range', startDate: '2015-06-01', endDate: '2015-06-07' }, random);
+      expect(inRange.getTime()).toBeGreaterThanOrEqual(new Date(2015, 5, 1).getTime());
+      expect(inRange.getTime()).toBeLessThan(addDays(new Date(2015, 5, 7), 1).getTime());
+    }
+  });
+});
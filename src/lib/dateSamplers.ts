@@ -0,0 +1,223 @@
+import { format, subDays, addDays, isValid, parse } from 'date-fns';
+import { DateSamplerId, DateSampling } from '@/types';
+import { YOUTUBE_FOUNDING_DATE, UPLOAD_HOURS_PER_MINUTE } from './constants';
+
+/**
+ * A stretch of time a search can start in, with how likely it is to be picked
+ * Segments never span more than one year, so each belongs to one era
+ */
+export interface DateSegment {
+  /** Upload year the segment belongs to, e.g. "2009" */
+  era: string;
+  start: Date;
+  end: Date;
+  /** Relative chance of picking the segment (before learned yields) */
+  weight: number;
+}
+
+/**
+ * A way of choosing the dates a search hunts around
+ */
+export interface DateSampler {
+  /** Identifier used in requests and the date select */
+  id: DateSamplerId;
+  /** Short name shown in the date select */
+  label: string;
+  /** Explanation shown as the select's tooltip */
+  description: string;
+  /** Split the searchable period (YouTube's founding up to yesterday) into weighted segments */
+  getSegments: (sampling: DateSampling, start: Date, end: Date) => DateSegment[];
+}
+
+const DATE_FORMAT = 'yyyy-MM-dd';
+
+export const DEFAULT_DATE_SAMPLING: DateSampling = { sampler: 'uniform' };
+
+/**
+ * Parse a YYYY-MM-DD date as local midnight, or undefined if it isn't one
+ */
+function parseDay(value: string | undefined): Date | undefined {
+  if (!value) return undefined;
+  const date = parse(value, DATE_FORMAT, new Date());
+  return isValid(date) ? date : undefined;
+}
+
+/**
+ * Split a period into one segment per year, weighted by length
+ */
+function splitIntoEras(start: Date, end: Date): DateSegment[] {
+  const segments: DateSegment[] = [];
+  
+  for (let year = start.getFullYear(); year <= end.getFullYear(); year++) {
+    const yearStart = new Date(year, 0, 1);
+    const nextYearStart = new Date(year + 1, 0, 1);
+    const segmentStart = yearStart > start ? yearStart : start;
+    const segmentEnd = nextYearStart < end ? nextYearStart : end;
+    
+    if (segmentEnd > segmentStart) {
+      segments.push({
+        era: String(year),
+        start: segmentStart,
+        end: segmentEnd,
+        weight: segmentEnd.getTime() - segmentStart.getTime()
+      });
+    }
+  }
+  return segments;
+}
+
+/**
+ * Estimated upload volume of a year, relative between years
+ */
+export function getUploadVolume(year: number): number {
+  const knownYear = Math.max(...Object.keys(UPLOAD_HOURS_PER_MINUTE).map(Number).filter(known => known <= year));
+  return UPLOAD_HOURS_PER_MINUTE[knownYear] ?? UPLOAD_HOURS_PER_MINUTE[YOUTUBE_FOUNDING_DATE.getFullYear()];
+}
+
+/**
+ * Date sampler registry
+ */
+export const DATE_SAMPLERS: DateSampler[] = [
+  {
+    id: 'uniform',
+    label: 'Any date',
+    description: 'Every day since YouTube launched is equally likely',
+    getSegments: (_sampling, start, end) => splitIntoEras(start, end)
+  },
+  {
+    id: 'uploadVolume',
+    label: 'Busy years',
+    description: 'Years are picked in proportion to how much was uploaded, so the nearly empty early years come up less',
+    getSegments: (_sampling, start, end) => splitIntoEras(start, end).map(segment => ({
+      ...segment,
+      weight: segment.weight * getUploadVolume(Number(segment.era))
+    }))
+  },
+  {
+    id: 'range',
+    label: 'Date range',
+    description: 'Only days between two dates',
+    getSegments: (sampling, start, end) => {
+      const rangeStart = parseDay(sampling.startDate);
+      const rangeEnd = parseDay(sampling.endDate);
+      if (!rangeStart || !rangeEnd) return [];
+      
+      // The last day of the range is included
+      const lastDayEnd = addDays(rangeEnd, 1);
+      return splitIntoEras(
+        rangeStart > start ? rangeStart : start,
+        lastDayEnd < end ? lastDayEnd : end
+      );
+    }
+  },
+  {
+    id: 'year',
+    label: 'One year',
+    description: 'Only days in one year',
+    getSegments: (sampling, start, end) => {
+      if (!sampling.year) return [];
+      return splitIntoEras(start, end).filter(segment => segment.era === String(sampling.year));
+    }
+  },
+  {
+    id: 'thisDay',
+    label: 'This day in past years',
+    description: 'Today\'s date in every earlier year',
+    getSegments: (_sampling, start, end) => {
+      const today = new Date();
+      const segments: DateSegment[] = [];
+      
+      for (let year = start.getFullYear(); year < today.getFullYear(); year++) {
+        const day = new Date(year, today.getMonth(), today.getDate());
+        // Skip years without the date (Feb 29) and days outside the searchable period
+        if (day.getMonth() !== today.getMonth() || day < start || addDays(day, 1) > end) continue;
+        segments.push({ era: String(year), start: day, end: addDays(day, 1), weight: 1 });
+      }
+      return segments;
+    }
+  }
+];
+
+/**
+ * Get a date sampler by ID, falling back to 'uniform' for an unknown ID
+ */
+export function getDateSampler(id: DateSamplerId): DateSampler {
+  return DATE_SAMPLERS.find(sampler => sampler.id === id) || DATE_SAMPLERS[0];
+}
+
+/**
+ * Years a search can be limited to, oldest first
+ */
+export function getSearchableYears(): number[] {
+  const years: number[] = [];
+  for (let year = YOUTUBE_FOUNDING_DATE.getFullYear(); year <= subDays(new Date(), 1).getFullYear(); year++) {
+    years.push(year);
+  }
+  return years;
+}
+
+/**
+ * Get the weighted segments a search can start in
+ * Options that leave nothing to search (e.g. a range in the future) fall back to 'uniform'
+ */
+export function getDateSegments(sampling: DateSampling): DateSegment[] {
+  const start = YOUTUBE_FOUNDING_DATE;
+  const end = subDays(new Date(), 1); // Yesterday
+  const segments = getDateSampler(sampling.sampler).getSegments(sampling, start, end)
+    .filter(segment => segment.weight > 0);
+  
+  return segments.length > 0 ? segments : splitIntoEras(start, end);
+}
+
+/**
+ * Whether a date sampling limits searches to some dates, rather than just weighting them
+ */
+export function isDateBounded(sampling: DateSampling): boolean {
+  return sampling.sampler === 'range' || sampling.sampler === 'year' || sampling.sampler === 'thisDay';
+}
+
+/**
+ * Build a date sampling from untrusted input (e.g. a query parameter)
+ * An unknown sampler falls back to the default; only the chosen sampler's options are kept
+ */
+export function resolveDateSampling(input?: unknown): DateSampling {
+  const sampling = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  const sampler = DATE_SAMPLERS.find(({ id }) => id === sampling.sampler);
+  if (!sampler) return DEFAULT_DATE_SAMPLING;
+  
+  switch (sampler.id) {
+    case 'range': {
+      const startDate = typeof sampling.startDate === 'string' ? sampling.startDate : undefined;
+      const endDate = typeof sampling.endDate === 'string' ? sampling.endDate : undefined;
+      return parseDay(startDate) && parseDay(endDate)
+        ? { sampler: sampler.id, startDate, endDate }
+        : DEFAULT_DATE_SAMPLING;
+    }
+    case 'year':
+      return getSearchableYears().includes(sampling.year as number)
+        ? { sampler: sampler.id, year: sampling.year as number }
+        : DEFAULT_DATE_SAMPLING;
+    default:
+      return { sampler: sampler.id };
+  }
+}
+
+/**
+ * Read a date sampling from a JSON query parameter, as in shared search links
+ * Anything missing or malformed gives the default
+ */
+export function parseDateSampling(value: string | null): DateSampling {
+  if (!value) return DEFAULT_DATE_SAMPLING;
+  try {
+    return resolveDateSampling(JSON.parse(value));
+  } catch {
+    return DEFAULT_DATE_SAMPLING;
+  }
+}
+
+/**
+ * Format a date as an option value for a 'range' (YYYY-MM-DD)
+ */
+export function formatDay(date: Date): string {
+  return format(date, DATE_FORMAT);
+}
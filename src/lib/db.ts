@@ -68,6 +68,78 @@ export async function query(sql: string, params: any[] = []) {
   }
 }
 
+/**
+ * Whether a table already has a column
+ */
+async function columnExists(table: string, column: string): Promise<boolean> {
+  const columns = await query(`
+    SELECT column_name 
+    FROM information_schema.columns 
+    WHERE table_schema = ? 
+    AND table_name = ? 
+    AND column_name = ?
+  `, [process.env.MYSQL_DATABASE || 'grailtube', table, column]) as any[];
+  return columns.length > 0;
+}
+
+/**
+ * Add a column to a table created before the column existed
+ */
+async function addColumnIfMissing(table: string, column: string, definition: string) {
+  if (await columnExists(table, column)) return;
+  
+  logger.info(`Adding ${column} column to ${table}`);
+  await query(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+}
+
+/**
+ * Add an index to a table created before the index existed
+ */
+async function addIndexIfMissing(table: string, index: string, columns: string) {
+  const indexes = await query(`
+    SELECT index_name 
+    FROM information_schema.statistics 
+    WHERE table_schema = ? 
+    AND table_name = ? 
+    AND index_name = ?
+  `, [process.env.MYSQL_DATABASE || 'grailtube', table, index]) as any[];
+  if (indexes.length > 0) return;
+  
+  logger.info(`Adding ${index} index to ${table}`);
+  await query(`ALTER TABLE ${table} ADD INDEX ${index} (${columns})`);
+}
+
+/**
+ * Add the provider column to saved_videos tables created before it existed
+ * Their videos are all YouTube videos, and ids only need to be unique per provider
+ */
+async function migrateSavedVideosProvider() {
+  if (await columnExists('saved_videos', 'provider')) return;
+  
+  logger.info('Adding provider column to saved_videos');
+  await query(`
+    ALTER TABLE saved_videos
+      ADD COLUMN provider VARCHAR(20) NOT NULL DEFAULT 'youtube' AFTER id,
+      DROP INDEX video_id,
+      ADD UNIQUE KEY uniq_saved_video (provider, video_id)
+  `);
+}
+
+/**
+ * Warn when the server is older than MySQL 8.0 (or MariaDB 10.2)
+ * View histories rank snapshots with window functions (ROW_NUMBER), which older servers lack
+ */
+async function checkServerVersion() {
+  const [{ version }] = await query('SELECT VERSION() AS version') as any[];
+  const [major, minor] = String(version).split('.').map(Number);
+  const isMariaDb = /mariadb/i.test(String(version));
+  const supported = isMariaDb ? major > 10 || (major === 10 && minor >= 2) : major >= 8;
+  
+  if (!supported) {
+    logger.warn('Database server is older than MySQL 8.0 / MariaDB 10.2; saved video view histories will fail to load', { version });
+  }
+}
+
 // Initialize the database by creating necessary tables
 export async function initDatabase() {
   logger.info('Initializing database...');
@@ -77,21 +149,153 @@ export async function initDatabase() {
     const connection = await pool.getConnection();
     logger.info('Database connection successful');
     connection.release();
+    await checkServerVersion();
     
     // Create saved_videos table if it doesn't exist
     logger.debug('Creating saved_videos table if it doesn\'t exist');
     await query(`
       CREATE TABLE IF NOT EXISTS saved_videos (
         id INT AUTO_INCREMENT PRIMARY KEY,
-        video_id VARCHAR(50) NOT NULL UNIQUE,
+        provider VARCHAR(20) NOT NULL DEFAULT 'youtube',
+        video_id VARCHAR(50) NOT NULL,
         title VARCHAR(255) NOT NULL,
         description TEXT,
         thumbnail_url VARCHAR(255) NOT NULL,
         channel_title VARCHAR(255) NOT NULL,
+        channel_id VARCHAR(50) NULL,
         published_at DATETIME NOT NULL,
         view_count_at_discovery INT NOT NULL DEFAULT 0,
         discovered_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
-        duration VARCHAR(50)
+        duration VARCHAR(50),
+        availability VARCHAR(20) NULL,
+        availability_checked_at DATETIME NULL,
+        UNIQUE KEY uniq_saved_video (provider, video_id)
+      )
+    `);
+    await migrateSavedVideosProvider();
+    await addColumnIfMissing('saved_videos', 'channel_id', 'VARCHAR(50) NULL AFTER channel_title');
+    await addColumnIfMissing('saved_videos', 'availability', 'VARCHAR(20) NULL');
+    await addColumnIfMissing('saved_videos', 'availability_checked_at', 'DATETIME NULL');
+    
+    // Create api_quota_usage table if it doesn't exist
+    logger.debug('Creating api_quota_usage table if it doesn\'t exist');
+    await query(`
+      CREATE TABLE IF NOT EXISTS api_quota_usage (
+        quota_day DATE NOT NULL,
+        endpoint VARCHAR(50) NOT NULL,
+        calls INT NOT NULL DEFAULT 0,
+        units INT NOT NULL DEFAULT 0,
+        PRIMARY KEY (quota_day, endpoint)
+      )
+    `);
+    
+    // Create cache_entries table if it doesn't exist
+    logger.debug('Creating cache_entries table if it doesn\'t exist');
+    await query(`
+      CREATE TABLE IF NOT EXISTS cache_entries (
+        cache_key VARCHAR(255) NOT NULL PRIMARY KEY,
+        value MEDIUMTEXT NOT NULL,
+        expires_at BIGINT NOT NULL,
+        INDEX idx_cache_entries_expires_at (expires_at)
+      )
+    `);
+    
+    // Create candidate_videos table if it doesn't exist
+    logger.debug('Creating candidate_videos table if it doesn\'t exist');
+    await query(`
+      CREATE TABLE IF NOT EXISTS candidate_videos (
+        video_id VARCHAR(50) NOT NULL PRIMARY KEY,
+        provider VARCHAR(20) NOT NULL DEFAULT 'youtube',
+        search_type VARCHAR(50) NOT NULL,
+        title VARCHAR(255) NOT NULL,
+        description TEXT,
+        thumbnail_url VARCHAR(255) NOT NULL,
+        channel_title VARCHAR(255) NOT NULL,
+        channel_id VARCHAR(50) NULL,
+        category_id VARCHAR(10) NULL,
+        published_at DATETIME NOT NULL,
+        view_count INT NOT NULL DEFAULT 0,
+        duration VARCHAR(50),
+        is_live_stream BOOLEAN NOT NULL DEFAULT FALSE,
+        is_upcoming BOOLEAN NOT NULL DEFAULT FALSE,
+        is_vertical BOOLEAN NOT NULL DEFAULT FALSE,
+        availability VARCHAR(20) NULL,
+        harvested_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        served_at DATETIME NULL,
+        claim_token CHAR(36) NULL,
+        INDEX idx_candidate_videos_unserved (search_type, served_at),
+        INDEX idx_candidate_videos_claim (claim_token)
+      )
+    `);
+    await addColumnIfMissing('candidate_videos', 'provider', 'VARCHAR(20) NOT NULL DEFAULT \'youtube\' AFTER video_id');
+    await addColumnIfMissing('candidate_videos', 'channel_id', 'VARCHAR(50) NULL AFTER channel_title');
+    await addColumnIfMissing('candidate_videos', 'category_id', 'VARCHAR(10) NULL AFTER channel_id');
+    await addColumnIfMissing('candidate_videos', 'is_live_stream', 'BOOLEAN NOT NULL DEFAULT FALSE AFTER duration');
+    await addColumnIfMissing('candidate_videos', 'is_upcoming', 'BOOLEAN NOT NULL DEFAULT FALSE AFTER is_live_stream');
+    await addColumnIfMissing('candidate_videos', 'is_vertical', 'BOOLEAN NOT NULL DEFAULT FALSE AFTER is_upcoming');
+    await addColumnIfMissing('candidate_videos', 'availability', 'VARCHAR(20) NULL AFTER is_vertical');
+    await addColumnIfMissing('candidate_videos', 'claim_token', 'CHAR(36) NULL AFTER served_at');
+    await addIndexIfMissing('candidate_videos', 'idx_candidate_videos_claim', 'claim_token');
+    
+    // Create search_dictionaries table if it doesn't exist
+    logger.debug('Creating search_dictionaries table if it doesn\'t exist');
+    await query(`
+      CREATE TABLE IF NOT EXISTS search_dictionaries (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        name VARCHAR(100) NOT NULL UNIQUE,
+        search_type VARCHAR(50) NOT NULL,
+        is_active BOOLEAN NOT NULL DEFAULT FALSE,
+        created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_search_dictionaries_type (search_type, is_active)
+      )
+    `);
+    
+    // Create search_dictionary_terms table if it doesn't exist
+    logger.debug('Creating search_dictionary_terms table if it doesn\'t exist');
+    await query(`
+      CREATE TABLE IF NOT EXISTS search_dictionary_terms (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        dictionary_id INT NOT NULL,
+        term VARCHAR(255) NOT NULL,
+        weight DOUBLE NOT NULL DEFAULT 1,
+        enabled BOOLEAN NOT NULL DEFAULT TRUE,
+        created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE KEY uniq_dictionary_term (dictionary_id, term),
+        FOREIGN KEY (dictionary_id) REFERENCES search_dictionaries(id) ON DELETE CASCADE
+      )
+    `);
+    
+    // Create search_attempts table if it doesn't exist
+    logger.debug('Creating search_attempts table if it doesn\'t exist');
+    await query(`
+      CREATE TABLE IF NOT EXISTS search_attempts (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        search_type VARCHAR(50) NOT NULL,
+        query VARCHAR(255) NULL,
+        era SMALLINT NOT NULL,
+        window_start DATETIME NOT NULL,
+        window_end DATETIME NOT NULL,
+        total_videos INT NOT NULL DEFAULT 0,
+        zero_views INT NOT NULL DEFAULT 0,
+        under_ten_views INT NOT NULL DEFAULT 0,
+        under_hundred_views INT NOT NULL DEFAULT 0,
+        under_thousand_views INT NOT NULL DEFAULT 0,
+        rare_count INT NOT NULL DEFAULT 0,
+        attempted_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_search_attempts_type (search_type, attempted_at)
+      )
+    `);
+    
+    // Create video_view_snapshots table if it doesn't exist
+    logger.debug('Creating video_view_snapshots table if it doesn\'t exist');
+    await query(`
+      CREATE TABLE IF NOT EXISTS video_view_snapshots (
+        id INT AUTO_INCREMENT PRIMARY KEY,
+        provider VARCHAR(20) NOT NULL DEFAULT 'youtube',
+        video_id VARCHAR(50) NOT NULL,
+        view_count INT NOT NULL,
+        captured_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        INDEX idx_video_view_snapshots_video (provider, video_id, captured_at)
       )
     `);
     
@@ -114,4 +318,18 @@ export async function initDatabase() {
     logger.error('Failed to initialize database', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+// Track whether tables were created in this process
+let databaseInitialized = false;
+
+/**
+ * Initialize the database once per process
+ * For server-side services that need their tables but aren't API routes
+ */
+export async function ensureDatabase() {
+  if (!databaseInitialized) {
+    await initDatabase();
+    databaseInitialized = true;
+  }
+}
@@ -0,0 +1,262 @@
+import { AxiosAdapter, AxiosError, AxiosResponse, CanceledError, InternalAxiosRequestConfig } from 'axios';
+import { VideoCategory } from '@/types';
+import { FAKE_API_LATENCY_MS, FAKE_QUOTA_CALLS_PER_KEY } from './constants';
+import { getFakeVideo, searchFakeVideos, FakeVideo } from './fakeYouTubeCorpus';
+import { delay } from './utils';
+import logger from './logger';
+
+/**
+ * Fake YouTube Data API for offline development
+ * An axios adapter that answers /search, /videos and /videoCategories (and the
+ * keyless oEmbed endpoint) from the fixture corpus (see fakeYouTubeCorpus) in YouTube's response format, so the
+ * whole hunt (windows, pages, rerolls, filters, quota) runs without a key or a
+ * network. Enabled with YOUTUBE_API_MODE=fake; YOUTUBE_FAKE_SCENARIO picks how
+ * the API misbehaves:
+ * - normal: every call succeeds (default)
+ * - empty: searches find nothing, so every search rerolls until it gives up
+ * - flaky: a third of calls fail with a 503, which the client retries
+ * - rateLimited: a third of calls are rate limited (429 with Retry-After)
+ * - quotaExceeded: each key runs out of quota after FAKE_QUOTA_CALLS_PER_KEY calls
+ * - invalidKey: every key is rejected
+ */
+
+export type FakeYouTubeScenario = 'normal' | 'empty' | 'flaky' | 'rateLimited' | 'quotaExceeded' | 'invalidKey';
+
+const SCENARIOS: FakeYouTubeScenario[] = ['normal', 'empty', 'flaky', 'rateLimited', 'quotaExceeded', 'invalidKey'];
+
+// Categories of the fake API, the same in every region
+const FAKE_CATEGORIES: VideoCategory[] = [
+  { id: '1', title: 'Film & Animation', assignable: true },
+  { id: '2', title: 'Autos & Vehicles', assignable: true },
+  { id: '10', title: 'Music', assignable: true },
+  { id: '15', title: 'Pets & Animals', assignable: true },
+  { id: '17', title: 'Sports', assignable: true },
+  { id: '19', title: 'Travel & Events', assignable: true },
+  { id: '20', title: 'Gaming', assignable: true },
+  { id: '22', title: 'People & Blogs', assignable: true },
+  { id: '24', title: 'Entertainment', assignable: true },
+  { id: '26', title: 'Howto & Style', assignable: true },
+  { id: '27', title: 'Education', assignable: true },
+  { id: '30', title: 'Movies', assignable: false },
+  { id: '43', title: 'Shows', assignable: false },
+  { id: '44', title: 'Trailers', assignable: false }
+];
+
+// Calls made with each key, for the quotaExceeded scenario
+const callsPerKey = new Map<string, number>();
+
+/**
+ * The configured scenario, falling back to 'normal' for an unknown one
+ */
+function getScenario(): FakeYouTubeScenario {
+  const scenario = (process.env.YOUTUBE_FAKE_SCENARIO || 'normal') as FakeYouTubeScenario;
+  if (SCENARIOS.includes(scenario)) return scenario;
+  
+  logger.warn('fakeYouTubeApi: Unknown scenario, using normal', { scenario });
+  return 'normal';
+}
+
+/**
+ * Build a response in axios' shape
+ */
+function respond(config: InternalAxiosRequestConfig, status: number, data: any, headers: Record<string, string> = {}): AxiosResponse {
+  return { data, status, statusText: String(status), headers, config, request: {} };
+}
+
+/**
+ * Build a YouTube error response, thrown as axios would throw it
+ */
+function fail(config: InternalAxiosRequestConfig, status: number, reason: string, headers: Record<string, string> = {}): AxiosError {
+  const message = `Fake YouTube API error: ${reason}`;
+  const response = respond(config, status, {
+    error: { code: status, message, errors: [{ message, domain: 'youtube.fake', reason }] }
+  }, headers);
+  return new AxiosError(message, AxiosError.ERR_BAD_REQUEST, config, {}, response);
+}
+
+/**
+ * Fail the call as the scenario demands, if it does
+ */
+function getScenarioError(config: InternalAxiosRequestConfig, scenario: FakeYouTubeScenario): AxiosError | null {
+  const key = String(config.params?.key || '');
+  const calls = (callsPerKey.get(key) || 0) + 1;
+  callsPerKey.set(key, calls);
+  
+  switch (scenario) {
+    case 'flaky':
+      return Math.random() < 1 / 3 ? fail(config, 503, 'backendError') : null;
+    case 'rateLimited':
+      return Math.random() < 1 / 3 ? fail(config, 429, 'rateLimitExceeded', { 'retry-after': '1' }) : null;
+    case 'quotaExceeded':
+      return calls > FAKE_QUOTA_CALLS_PER_KEY ? fail(config, 403, 'quotaExceeded') : null;
+    case 'invalidKey':
+      return fail(config, 400, 'keyInvalid');
+    default:
+      return null;
+  }
+}
+
+/**
+ * A corpus video as a YouTube video resource
+ */
+function toVideoResource(video: FakeVideo): any {
+  const [embedWidth, embedHeight] = video.isVertical ? [203, 360] : [640, 360];
+  const minutes = Math.floor(video.durationSeconds / 60);
+  const seconds = video.durationSeconds % 60;
+  
+  return {
+    kind: 'youtube#video',
+    id: video.id,
+    snippet: {
+      publishedAt: video.publishedAt.toISOString(),
+      channelId: video.channelId,
+      title: video.title,
+      description: video.description,
+      thumbnails: {
+        default: { url: `https://i.ytimg.com/vi/${video.id}/default.jpg`, width: 120, height: 90 },
+        medium: { url: `https://i.ytimg.com/vi/${video.id}/mqdefault.jpg`, width: 320, height: 180 }
+      },
+      channelTitle: video.channelTitle,
+      categoryId: video.categoryId,
+      liveBroadcastContent: video.liveStatus === 'upcoming' ? 'upcoming' : 'none'
+    },
+    contentDetails: {
+      duration: video.liveStatus === 'upcoming' ? 'P0D' : `PT${minutes}M${seconds}S`,
+      ...(video.blockedRegions.length > 0 ? { regionRestriction: { blocked: video.blockedRegions } } : {})
+    },
+    status: {
+      uploadStatus: 'processed',
+      privacyStatus: 'public',
+      license: video.isLicensed ? 'youtube' : 'creativeCommon',
+      embeddable: video.status !== 'notEmbeddable'
+    },
+    statistics: {
+      viewCount: String(video.viewCount)
+    },
+    player: {
+      embedHtml: `<iframe width="${embedWidth}" height="${embedHeight}" src="//www.youtube.com/embed/${video.id}"></iframe>`,
+      embedWidth: String(embedWidth),
+      embedHeight: String(embedHeight)
+    },
+    ...(video.liveStatus === 'none' ? {} : {
+      liveStreamingDetails: video.liveStatus === 'upcoming'
+        ? { scheduledStartTime: new Date(video.publishedAt.getTime() + 24 * 60 * 60 * 1000).toISOString() }
+        : {
+          actualStartTime: video.publishedAt.toISOString(),
+          actualEndTime: new Date(video.publishedAt.getTime() + video.durationSeconds * 1000).toISOString()
+        }
+    })
+  };
+}
+
+/**
+ * GET /search - one page of videos uploaded in a window that match the query (and channel)
+ * Page tokens are the offset of the page's first result
+ */
+function handleSearch(params: any, scenario: FakeYouTubeScenario): any {
+  const maxResults = Math.min(Number(params.maxResults) || 5, 50);
+  const offset = params.pageToken ? Number(params.pageToken) || 0 : 0;
+  const videos = scenario === 'empty'
+    ? []
+    : searchFakeVideos(
+      String(params.q || ''),
+      new Date(params.publishedAfter || 0),
+      new Date(params.publishedBefore || Date.now()),
+      offset + maxResults + 1,
+      params.channelId
+    );
+  const page = videos.slice(offset, offset + maxResults);
+  const hasMore = videos.length > offset + maxResults;
+  
+  return {
+    kind: 'youtube#searchListResponse',
+    ...(hasMore ? { nextPageToken: String(offset + maxResults) } : {}),
+    pageInfo: { resultsPerPage: maxResults },
+    items: page.map(video => ({
+      kind: 'youtube#searchResult',
+      id: { kind: 'youtube#video', videoId: video.id },
+      snippet: toVideoResource(video).snippet
+    }))
+  };
+}
+
+/**
+ * GET /videos - details of the requested videos
+ * Unknown and private IDs are left out, as YouTube does for anyone but the owner
+ */
+function handleVideos(params: any): any {
+  const ids = String(params.id || '').split(',').filter(Boolean);
+  return {
+    kind: 'youtube#videoListResponse',
+    items: ids
+      .map(getFakeVideo)
+      .filter((video): video is FakeVideo => video !== null && video.status !== 'private')
+      .map(toVideoResource)
+  };
+}
+
+/**
+ * GET oembed - a video's embed info; 401 for private videos and 404 for unknown ones
+ */
+function handleOEmbed(config: InternalAxiosRequestConfig): AxiosResponse {
+  const params = config.params || {};
+  const videoId = new URL(String(params.url || ''), 'https://www.youtube.com').searchParams.get('v') || '';
+  const video = getFakeVideo(videoId);
+  
+  if (!video) return respond(config, 404, 'Not Found');
+  if (video.status === 'private') return respond(config, 401, 'Unauthorized');
+  return respond(config, 200, {
+    type: 'video',
+    title: video.title,
+    author_name: video.channelTitle,
+    provider_name: 'YouTube'
+  });
+}
+
+/**
+ * GET /videoCategories - the fixed category list
+ */
+function handleVideoCategories(): any {
+  return {
+    kind: 'youtube#videoCategoryListResponse',
+    items: FAKE_CATEGORIES.map(category => ({
+      kind: 'youtube#videoCategory',
+      id: category.id,
+      snippet: { title: category.title, assignable: category.assignable, channelId: 'UCBR8-60-B28hp2BmDPdntcQ' }
+    }))
+  };
+}
+
+/**
+ * Axios adapter that answers YouTube Data API requests from the fixture corpus
+ */
+export const fakeYouTubeAdapter: AxiosAdapter = async (config) => {
+  // Answer after a short pause, as the real API would, unless the call is cancelled
+  try {
+    await delay(FAKE_API_LATENCY_MS, config.signal as AbortSignal | undefined);
+  } catch {
+    throw new CanceledError(undefined, undefined, config);
+  }
+  
+  // oEmbed isn't part of the Data API, so no key or quota scenario applies to it
+  const endpoint = (config.url || '').split('?')[0].split('/').pop();
+  if (endpoint === 'oembed') return handleOEmbed(config);
+  
+  const scenario = getScenario();
+  const scenarioError = getScenarioError(config, scenario);
+  if (scenarioError) throw scenarioError;
+  
+  const params = config.params || {};
+  logger.debug('fakeYouTubeApi: Request', { endpoint, scenario });
+  
+  switch (endpoint) {
+    case 'search':
+      return respond(config, 200, handleSearch(params, scenario));
+    case 'videos':
+      return respond(config, 200, handleVideos(params));
+    case 'videoCategories':
+      return respond(config, 200, handleVideoCategories());
+    default:
+      throw fail(config, 404, 'notFound');
+  }
+};
@@ -0,0 +1,299 @@
+import { createSeededRandom, RandomSource } from './random';
+import { searchTerms, cameraFilenamePatterns } from './searchTerms';
+import { getUploadVolume } from './dateSamplers';
+import { VIDEO_CATEGORIES, AVAILABILITY_REGION_CODE } from './constants';
+
+/**
+ * Fixture corpus for the fake YouTube Data API (see fakeYouTubeApi)
+ * Videos aren't stored anywhere: each hour of YouTube's history has a number of
+ * uploads that follows the estimated upload volume of its year, and every video
+ * is generated from its ID, so the corpus is the same on every run and machine.
+ * Titles are built from the built-in search terms and camera filename patterns
+ * so queries find them, and mix in trailers, TV episodes, livestreams, Shorts and
+ * trademarks for the rarity rules to catch. Most videos have a handful of views,
+ * and a few are private, blocked in the availability region or not embeddable.
+ */
+
+export type FakeVideoKind = 'everyday' | 'camera' | 'short' | 'commercial' | 'tvShow' | 'live' | 'trademark';
+
+export type FakeVideoStatus = 'public' | 'private' | 'regionBlocked' | 'notEmbeddable';
+
+export interface FakeVideo {
+  id: string;
+  kind: FakeVideoKind;
+  publishedAt: Date;
+  title: string;
+  description: string;
+  channelId: string;
+  channelTitle: string;
+  categoryId: string;
+  viewCount: number;
+  durationSeconds: number;
+  isVertical: boolean;
+  liveStatus: 'none' | 'completed' | 'upcoming';
+  isLicensed: boolean;
+  status: FakeVideoStatus;
+  // Regions the video is blocked in
+  blockedRegions: string[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Uploads per hour for each hour of video uploaded per minute (about 50 an hour at today's volume)
+const UPLOADS_PER_HOUR_PER_VOLUME = 0.1;
+
+// IDs pack the upload hour and the video's index within it
+const MAX_VIDEOS_PER_HOUR = 128;
+const ID_PREFIX = 'fk';
+const ID_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+const ID_DIGITS = 9;
+
+// Share of each kind of video, in order
+const KIND_WEIGHTS: [FakeVideoKind, number][] = [
+  ['everyday', 50],
+  ['camera', 20],
+  ['short', 8],
+  ['commercial', 8],
+  ['live', 6],
+  ['tvShow', 5],
+  ['trademark', 3]
+];
+
+// Share of videos with each status, in order (private ones never show up in searches)
+const STATUS_WEIGHTS: [FakeVideoStatus, number][] = [
+  ['public', 94],
+  ['private', 2],
+  ['regionBlocked', 2],
+  ['notEmbeddable', 2]
+];
+
+const EVERYDAY_CATEGORIES = [
+  VIDEO_CATEGORIES.PEOPLE_AND_BLOGS,
+  VIDEO_CATEGORIES.PETS_AND_ANIMALS,
+  VIDEO_CATEGORIES.TRAVEL_AND_EVENTS,
+  VIDEO_CATEGORIES.HOWTO_AND_STYLE,
+  VIDEO_CATEGORIES.GAMING,
+  VIDEO_CATEGORIES.SPORTS,
+  VIDEO_CATEGORIES.AUTOS_AND_VEHICLES,
+  VIDEO_CATEGORIES.MUSIC,
+  VIDEO_CATEGORIES.EDUCATION
+];
+
+const SHOW_NAMES = ['Midnight Harbor', 'The Long Road', 'Crimson Valley', 'Starfall', 'Open Kitchen', 'Paper Moons'];
+const BRAND_NAMES = ['Zentrix', 'Lumora', 'Kettleworks', 'Brightside', 'Novacam'];
+const CHANNEL_NAMES = ['dave', 'maria', 'the_millers', 'kenji', 'soph', 'outdoorsy', 'rob', 'nana', 'gamerkid', 'lena'];
+
+/**
+ * Pick an item from a list
+ */
+function pick<T>(items: T[], random: RandomSource): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+/**
+ * Pick a whole number from min to max (inclusive)
+ */
+function pickInt(min: number, max: number, random: RandomSource): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+/**
+ * Pick a value in proportion to its weight
+ */
+function pickWeighted<T>(weights: [T, number][], random: RandomSource): T {
+  const total = weights.reduce((sum, [, weight]) => sum + weight, 0);
+  let remaining = random() * total;
+  for (const [value, weight] of weights) {
+    remaining -= weight;
+    if (remaining < 0) return value;
+  }
+  return weights[0][0];
+}
+
+/**
+ * Build an ID from an upload hour and index, e.g. "fkAAAb3xQ"
+ */
+function encodeVideoId(hour: number, index: number): string {
+  let value = hour * MAX_VIDEOS_PER_HOUR + index;
+  let digits = '';
+  for (let i = 0; i < ID_DIGITS; i++) {
+    digits = ID_ALPHABET[value % ID_ALPHABET.length] + digits;
+    value = Math.floor(value / ID_ALPHABET.length);
+  }
+  return ID_PREFIX + digits;
+}
+
+/**
+ * Read the upload hour and index back from an ID, or null for an ID that isn't in the corpus
+ */
+function decodeVideoId(id: string): { hour: number; index: number } | null {
+  if (id.length !== ID_PREFIX.length + ID_DIGITS || !id.startsWith(ID_PREFIX)) return null;
+  
+  let value = 0;
+  for (const digit of id.slice(ID_PREFIX.length)) {
+    const digitValue = ID_ALPHABET.indexOf(digit);
+    if (digitValue < 0) return null;
+    value = value * ID_ALPHABET.length + digitValue;
+  }
+  return { hour: Math.floor(value / MAX_VIDEOS_PER_HOUR), index: value % MAX_VIDEOS_PER_HOUR };
+}
+
+/**
+ * Number of videos uploaded in an hour (hours since the epoch)
+ */
+function countUploads(hour: number): number {
+  const rate = getUploadVolume(new Date(hour * HOUR_MS).getFullYear()) * UPLOADS_PER_HOUR_PER_VOLUME;
+  const random = createSeededRandom(`hour:${hour}`);
+  const count = Math.floor(rate) + (random() < rate % 1 ? 1 : 0);
+  return Math.min(count, MAX_VIDEOS_PER_HOUR);
+}
+
+/**
+ * A few everyday words, e.g. "Family trip cooking"
+ */
+function everydayPhrase(random: RandomSource): string {
+  const words = [pick(searchTerms, random), pick(searchTerms, random), pick(searchTerms, random)];
+  const phrase = words.join(' ');
+  return phrase.charAt(0).toUpperCase() + phrase.slice(1);
+}
+
+/**
+ * A camera-style filename, e.g. "IMG_4821" or "GOPRO 0032"
+ */
+function cameraFilename(random: RandomSource): string {
+  const pattern = pick(cameraFilenamePatterns, random);
+  const digits = String(pickInt(0, 9999, random)).padStart(4, '0');
+  return pattern.endsWith('_') ? `${pattern}${digits}` : `${pattern} ${digits}`;
+}
+
+/**
+ * A heavy-tailed view count: mostly a handful, occasionally thousands
+ */
+function pickViewCount(random: RandomSource): number {
+  const bucket = random();
+  if (bucket < 0.3) return 0;
+  if (bucket < 0.55) return pickInt(1, 9, random);
+  if (bucket < 0.75) return pickInt(10, 99, random);
+  if (bucket < 0.9) return pickInt(100, 999, random);
+  return Math.floor(1000 * Math.pow(1000, random()));
+}
+
+/**
+ * Generate the video with the given upload hour and index
+ */
+function generateVideo(hour: number, index: number): FakeVideo {
+  const id = encodeVideoId(hour, index);
+  const random = createSeededRandom(`video:${id}`);
+  const kind = pickWeighted(KIND_WEIGHTS, random);
+  // Drawn separately, so statuses don't change the rest of the video
+  const status = pickWeighted(STATUS_WEIGHTS, createSeededRandom(`status:${id}`));
+  
+  // A few channels upload several times a day
+  const day = Math.floor(hour / 24);
+  const channelNumber = pickInt(0, 5, random);
+  const channelRandom = createSeededRandom(`channel:${day}:${channelNumber}`);
+  const channelTitle = `${pick(CHANNEL_NAMES, channelRandom)}${pickInt(1, 999, channelRandom)}`;
+  
+  const video: FakeVideo = {
+    id,
+    kind,
+    publishedAt: new Date(hour * HOUR_MS + Math.floor(random() * HOUR_MS)),
+    title: everydayPhrase(random),
+    description: '',
+    channelId: `UCfake${day.toString(36)}${channelNumber}`,
+    channelTitle,
+    categoryId: pick(EVERYDAY_CATEGORIES, random),
+    viewCount: pickViewCount(random),
+    durationSeconds: pickInt(20, 900, random),
+    isVertical: false,
+    liveStatus: 'none',
+    isLicensed: random() < 0.1,
+    status,
+    blockedRegions: status === 'regionBlocked' ? [AVAILABILITY_REGION_CODE] : []
+  };
+  
+  switch (kind) {
+    case 'camera':
+      video.title = cameraFilename(random);
+      break;
+    case 'short':
+      video.title = `${video.title} #shorts`;
+      video.durationSeconds = pickInt(5, 60, random);
+      video.isVertical = true;
+      break;
+    case 'commercial':
+      video.title = `${pick(SHOW_NAMES, random)} - Official Trailer HD`;
+      video.description = 'Now available on Blu-ray and digital.';
+      video.categoryId = pick([VIDEO_CATEGORIES.TRAILERS, VIDEO_CATEGORIES.FILM_AND_ANIMATION], random);
+      video.viewCount = pickInt(1, 20, random) * 1000;
+      video.durationSeconds = pickInt(90, 180, random);
+      video.isLicensed = true;
+      break;
+    case 'tvShow':
+      video.title = `${pick(SHOW_NAMES, random)} Season ${pickInt(1, 6, random)} Episode ${pickInt(1, 12, random)}`;
+      video.categoryId = pick([VIDEO_CATEGORIES.SHOWS, VIDEO_CATEGORIES.ENTERTAINMENT], random);
+      video.durationSeconds = pickInt(1200, 2700, random);
+      video.isLicensed = true;
+      break;
+    case 'live':
+      video.title = `LIVE: ${video.title}`;
+      video.liveStatus = random() < 0.3 ? 'upcoming' : 'completed';
+      video.durationSeconds = video.liveStatus === 'upcoming' ? 0 : pickInt(1800, 10800, random);
+      break;
+    case 'trademark':
+      video.title = `${pick(BRAND_NAMES, random)}™ ${video.title}`;
+      break;
+  }
+  
+  return video;
+}
+
+/**
+ * Get a corpus video by ID, or null if there is none
+ */
+export function getFakeVideo(id: string): FakeVideo | null {
+  const decoded = decodeVideoId(id);
+  if (!decoded || decoded.index >= countUploads(decoded.hour)) return null;
+  return generateVideo(decoded.hour, decoded.index);
+}
+
+/**
+ * Whether a video turns up in a search for the query
+ * Titles containing the query always match; a few others do too, as YouTube's
+ * matching is fuzzy, so queries that appear in no title still find something
+ */
+function matchesQuery(video: FakeVideo, query: string): boolean {
+  if (!query || video.title.toLowerCase().includes(query.toLowerCase())) return true;
+  return createSeededRandom(`match:${query}:${video.id}`)() < 0.02;
+}
+
+/**
+ * Find the corpus videos uploaded in a period that match a query (and channel, if
+ * given), newest first
+ * Stops after the hour in which `limit` videos are found, since callers only page
+ * through the first few
+ */
+export function searchFakeVideos(
+  query: string,
+  start: Date,
+  end: Date,
+  limit: number,
+  channelId?: string
+): FakeVideo[] {
+  const videos: FakeVideo[] = [];
+  const firstHour = Math.floor(start.getTime() / HOUR_MS);
+  
+  for (let hour = Math.floor((end.getTime() - 1) / HOUR_MS); hour >= firstHour && videos.length < limit; hour--) {
+    // Finish each hour, so later pages see the same order
+    for (let index = 0; index < countUploads(hour); index++) {
+      const video = generateVideo(hour, index);
+      const inChannel = !channelId || video.channelId === channelId;
+      const listed = video.status !== 'private';
+      if (video.publishedAt >= start && video.publishedAt < end && listed && inChannel && matchesQuery(video, query)) {
+        videos.push(video);
+      }
+    }
+  }
+  
+  return videos.sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime());
+}
@@ -0,0 +1,98 @@
+/**
+ * Keyword lists used by the rarity rules, by language
+ * Entries are whole words or phrases (see keywordMatcher); case, accents and
+ * punctuation don't matter. Exceptions are phrases that are ignored before matching,
+ * e.g. "digital camera" shouldn't count as "digital".
+ */
+
+export type KeywordLanguage = 'en' | 'es' | 'pt' | 'fr' | 'de' | 'ja';
+
+export type KeywordLists = Record<KeywordLanguage, string[]>;
+
+export const KEYWORD_LANGUAGES: KeywordLanguage[] = ['en', 'es', 'pt', 'fr', 'de', 'ja'];
+
+/**
+ * Keywords that indicate commercial movie/TV purchase content
+ */
+export const COMMERCIAL_KEYWORDS: KeywordLists = {
+  en: [
+    // Movie/TV purchase indicators
+    'buy', 'rent', 'purchase', 'trailer', 'official', 'hd', '4k',
+    // Movie studio references
+    'warner', 'disney', 'paramount', 'sony pictures', 'universal', 'mgm', 'lionsgate',
+    // Streaming services
+    'netflix', 'hulu', 'amazon', 'prime video', 'hbo', 'hbo max', 'disney+',
+    // Common commercial phrases
+    'now available', 'digital', 'bluray', 'blu-ray', 'dvd',
+    'full movie', 'full episode', 'season', 'episode'
+  ],
+  es: [
+    'comprar', 'alquilar', 'tráiler', 'oficial', 'película completa',
+    'ya disponible', 'estreno en cines'
+  ],
+  pt: [
+    'comprar', 'alugar', 'trailer oficial', 'oficial', 'filme completo',
+    'já disponível', 'dublado', 'legendado'
+  ],
+  fr: [
+    'acheter', 'louer', 'bande-annonce', 'officiel', 'film complet',
+    'disponible maintenant'
+  ],
+  de: [
+    'kaufen', 'leihen', 'offizieller trailer', 'offiziell', 'ganzer film',
+    'jetzt erhältlich'
+  ],
+  ja: ['予告編', '公式', '劇場版', '発売中', '配信開始']
+};
+
+/**
+ * Keywords that indicate TV show content
+ */
+export const TV_SHOW_KEYWORDS: KeywordLists = {
+  en: [
+    'tv series', 'tv show', 'television', 'episode', 'season',
+    'watch now', 'streaming now', 'now streaming'
+  ],
+  es: ['serie de tv', 'telenovela', 'capítulo', 'episodio', 'temporada', 'ver ahora'],
+  pt: ['série de tv', 'novela', 'capítulo', 'episódio', 'temporada', 'assista agora'],
+  fr: ['série télé', 'série tv', 'épisode', 'saison', 'regarder maintenant'],
+  de: ['fernsehserie', 'folge', 'staffel', 'jetzt ansehen'],
+  ja: ['ドラマ', '最終回', '見逃し配信']
+};
+
+/**
+ * Title words that indicate live streams and stream announcements
+ */
+export const LIVE_STREAM_KEYWORDS: KeywordLists = {
+  en: ['stream', 'livestream', 'live', 'premiere'],
+  es: ['en vivo', 'en directo', 'transmisión', 'estreno'],
+  pt: ['ao vivo', 'transmissão', 'estreia'],
+  fr: ['en direct', 'diffusion', 'première'],
+  de: ['livestream', 'übertragung', 'premiere'],
+  ja: ['生放送', '生配信', 'ライブ配信']
+};
+
+/**
+ * Phrases that contain a keyword but describe everyday footage
+ */
+export const KEYWORD_EXCEPTIONS: KeywordLists = {
+  en: [
+    'travel trailer', 'camper trailer', 'boat trailer', 'utility trailer',
+    'digital camera', 'hd camera', 'hd camcorder', 'amazon river', 'amazon rainforest', 'live oak'
+  ],
+  es: ['cámara digital'],
+  pt: ['câmera digital'],
+  fr: ['caméra hd'],
+  de: ['hd kamera'],
+  ja: []
+};
+
+/**
+ * Combine the lists of the given languages (all by default) into one list
+ */
+export function getKeywords(
+  lists: KeywordLists,
+  languages: KeywordLanguage[] = KEYWORD_LANGUAGES
+): string[] {
+  return languages.flatMap(language => lists[language]);
+}
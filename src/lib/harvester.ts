@@ -0,0 +1,171 @@
+import { HarvesterStatus, SearchType } from '@/types';
+import {
+  HARVESTER_ENABLED,
+  HARVEST_INTERVAL_MS,
+  HARVEST_POOL_TARGET,
+  HARVEST_QUOTA_FLOOR_UNITS,
+  MAX_WINDOW_ADJUSTMENTS,
+  SEARCH_PAGES_PER_WINDOW,
+  VIEW_THRESHOLD_OPTIONS
+} from './constants';
+import { ensureDatabase } from './db';
+import { CandidateModel } from './models/candidateModel';
+import { searchAdaptiveWindow, getVideoDetails, filterRareVideos, getViewStats } from './youtubeService';
+import { DEFAULT_RARITY_SETTINGS } from './youtubeFilters';
+import { quotaLedger, QUOTA_COSTS } from './youtubeQuota';
+import { getSearchStrategies } from './searchStrategies';
+import { createInitialTimeWindow } from './utils';
+import { pickSearchDate } from './yieldBandit';
+import { searchYields } from './searchYields';
+import logger from './logger';
+
+// Worst-case units one round can spend: every window probe plus every page mined
+const ROUND_COST_UNITS = QUOTA_COSTS.search * (MAX_WINDOW_ADJUSTMENTS + SEARCH_PAGES_PER_WINDOW);
+
+// Harvest at the loosest threshold; the pool is narrowed to each user's threshold when served
+const HARVEST_RARITY = {
+  ...DEFAULT_RARITY_SETTINGS,
+  viewThreshold: Math.max(...VIEW_THRESHOLD_OPTIONS)
+};
+
+/**
+ * Background harvester
+ * Runs the search/details/filter pipeline on a timer and stores the rare videos it
+ * finds in the candidate_videos pool, so "Find Videos" can serve them instantly.
+ * Each round tops up the emptiest pool, and rounds are skipped while the pools are
+ * full or today's quota is down to the floor reserved for live searches.
+ */
+export const harvester = {
+  timer: null as ReturnType<typeof setInterval> | null,
+  isHarvesting: false,
+  rounds: 0,
+  harvested: 0,
+  lastRunAt: null as Date | null,
+  lastError: null as string | null,
+  
+  /**
+   * Start harvesting on an interval (no-op if already started)
+   */
+  start: (): void => {
+    if (harvester.timer) return;
+    
+    logger.info('harvester: Starting', { intervalMs: HARVEST_INTERVAL_MS });
+    harvester.timer = setInterval(() => {
+      harvester.runOnce().catch(() => {});
+    }, HARVEST_INTERVAL_MS);
+    harvester.runOnce().catch(() => {});
+  },
+  
+  /**
+   * Stop harvesting after the current round
+   */
+  stop: (): void => {
+    if (!harvester.timer) return;
+    
+    clearInterval(harvester.timer);
+    harvester.timer = null;
+    logger.info('harvester: Stopped');
+  },
+  
+  /**
+   * Run a single harvest round, returning how many new candidates were stored
+   */
+  runOnce: async (): Promise<number> => {
+    // Rounds can outlast the interval; never run two at once
+    if (harvester.isHarvesting) return 0;
+    harvester.isHarvesting = true;
+    
+    try {
+      await ensureDatabase();
+      await quotaLedger.load();
+      
+      if (quotaLedger.remaining() - ROUND_COST_UNITS < HARVEST_QUOTA_FLOOR_UNITS) {
+        logger.debug('harvester: Skipping round, quota is down to the live-search floor', {
+          remaining: quotaLedger.remaining()
+        });
+        return 0;
+      }
+      
+      const searchType = await harvester.getNeediestSearchType();
+      if (!searchType) {
+        logger.debug('harvester: Skipping round, every pool is full');
+        return 0;
+      }
+      
+      await searchYields.load();
+      const window = createInitialTimeWindow(pickSearchDate(searchType));
+      const { videoIds, window: searchedWindow, query } = await searchAdaptiveWindow(window, searchType);
+      const videos = videoIds.length > 0 ? await getVideoDetails(videoIds) : [];
+      const { videos: rareVideos } = filterRareVideos(videos, searchType, HARVEST_RARITY);
+      await searchYields.record({
+        searchType,
+        query: query || null,
+        window: searchedWindow,
+        viewStats: getViewStats(videos),
+        rareCount: rareVideos.length
+      });
+      const added = await CandidateModel.addMany(rareVideos, searchType);
+      
+      harvester.rounds++;
+      harvester.harvested += added;
+      harvester.lastError = null;
+      logger.info('harvester: Round complete', { searchType, found: videoIds.length, added });
+      return added;
+    } catch (error) {
+      harvester.lastError = error instanceof Error ? error.message : String(error);
+      logger.warn('harvester: Round failed', error);
+      throw error;
+    } finally {
+      harvester.lastRunAt = new Date();
+      harvester.isHarvesting = false;
+    }
+  },
+  
+  /**
+   * Count unserved candidates for every search type
+   */
+  getPoolSizes: async (): Promise<Record<string, number>> => {
+    await ensureDatabase();
+    const pool: Record<string, number> = {};
+    for (const strategy of getSearchStrategies()) {
+      pool[strategy.id] = await CandidateModel.countUnserved(strategy.id);
+    }
+    return pool;
+  },
+  
+  /**
+   * Pick the search type with the smallest pool below target, if any
+   */
+  getNeediestSearchType: async (): Promise<SearchType | null> => {
+    const pool = await harvester.getPoolSizes();
+    const [neediest] = Object.entries(pool)
+      .filter(([, size]) => size < HARVEST_POOL_TARGET)
+      .sort(([, a], [, b]) => a - b);
+    
+    return neediest ? neediest[0] : null;
+  },
+  
+  /**
+   * Snapshot of harvester activity and pool sizes for the API
+   */
+  getStatus: async (): Promise<HarvesterStatus> => {
+    return {
+      enabled: harvester.timer !== null,
+      isHarvesting: harvester.isHarvesting,
+      rounds: harvester.rounds,
+      harvested: harvester.harvested,
+      lastRunAt: harvester.lastRunAt ? harvester.lastRunAt.toISOString() : null,
+      lastError: harvester.lastError,
+      pool: await harvester.getPoolSizes()
+    };
+  }
+};
+
+/**
+ * Start the harvester if HARVESTER_ENABLED is set
+ */
+export function startHarvesterIfEnabled(): void {
+  if (HARVESTER_ENABLED) {
+    harvester.start();
+  }
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { createKeywordMatcher, normalizeText } from './keywordMatcher';
+
+describe('normalizeText', () => {
+  it('lowercases, strips accents and collapses punctuation', () => {
+    expect(normalizeText('  Héllo,  Wörld!! ')).toBe('hello world');
+  });
+  
+  it('folds full-width characters', () => {
+    expect(normalizeText('ＨＤ')).toBe('hd');
+  });
+});
+
+describe('createKeywordMatcher', () => {
+  it('matches whole words only', () => {
+    const matcher = createKeywordMatcher(['live', 'max']);
+    expect(matcher.match('LIVE now!')).toBe('live');
+    expect(matcher.match('Same-day delivery')).toBeUndefined();
+    expect(matcher.match('Maximum effort')).toBeUndefined();
+  });
+  
+  it('matches phrases across punctuation and case', () => {
+    expect(createKeywordMatcher(['full episode']).match('Watch: Full-Episode 3')).toBe('full episode');
+  });
+  
+  it('ignores accents on either side', () => {
+    expect(createKeywordMatcher(['café']).match('Cafe opening day')).toBe('café');
+    expect(createKeywordMatcher(['cafe']).match('Café opening day')).toBe('cafe');
+  });
+  
+  it('matches keywords in scripts without spaces anywhere in the text', () => {
+    expect(createKeywordMatcher(['生放送']).match('今日の生放送です')).toBe('生放送');
+  });
+  
+  it('returns the first matching keyword as written', () => {
+    expect(createKeywordMatcher(['Trailer', 'Official']).match('official trailer')).toBe('Trailer');
+  });
+  
+  it('cuts exceptions out before matching', () => {
+    const matcher = createKeywordMatcher(['trailer'], ['travel trailer']);
+    expect(matcher.match('Our travel trailer trip')).toBeUndefined();
+    expect(matcher.match('Travel trailer tour and the movie trailer')).toBe('trailer');
+  });
+  
+  it('skips keywords that normalize to nothing', () => {
+    expect(createKeywordMatcher(['  ', '!!']).match('anything at all')).toBeUndefined();
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Keyword matching for the rarity filter
+ * Text and keywords are normalized the same way (case, accents and punctuation are
+ * ignored) and keywords only match whole words or phrases, so "max" doesn't match
+ * "maximum" and "live" doesn't match "delivery". Keywords in Japanese or Chinese,
+ * which are written without spaces, match anywhere in the text instead.
+ */
+
+// Accent marks split off by NFKD normalization
+const ACCENT_PATTERN = /[\u0300-\u036f]/g;
+
+// Anything other than letters, digits and marks separates words
+const SEPARATOR_PATTERN = new RegExp('[^\\p{L}\\p{N}\\p{M}]+', 'gu');
+
+// Kana and CJK ideographs, whose words aren't separated by spaces
+const UNSPACED_SCRIPT_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff]/;
+
+/**
+ * Compiled keywords and exceptions
+ */
+export interface KeywordMatcher {
+  /** Return the first keyword found in the text, if any */
+  match: (text: string) => string | undefined;
+}
+
+/**
+ * Normalize text for matching: lowercase, without accents, with punctuation collapsed to single spaces
+ * Full-width characters are folded too, so "ＨＤ" reads as "hd"
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(ACCENT_PATTERN, '')
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(SEPARATOR_PATTERN, ' ')
+    .trim();
+}
+
+/**
+ * Whether a normalized keyword is in a script written without spaces
+ */
+function isUnspaced(keyword: string): boolean {
+  return UNSPACED_SCRIPT_PATTERN.test(keyword);
+}
+
+/**
+ * Whether padded, normalized text contains a normalized keyword
+ */
+function containsKeyword(paddedText: string, keyword: string): boolean {
+  return isUnspaced(keyword)
+    ? paddedText.includes(keyword)
+    : paddedText.includes(` ${keyword} `);
+}
+
+/**
+ * Compile keywords into a matcher
+ * Exceptions are phrases that are cut out of the text before matching, so
+ * "travel trailer" can be allowed while "trailer" is still rejected.
+ */
+export function createKeywordMatcher(keywords: string[], exceptions: string[] = []): KeywordMatcher {
+  const compiledKeywords = keywords
+    .map(keyword => ({ keyword, normalized: normalizeText(keyword) }))
+    .filter(({ normalized }) => normalized.length > 0);
+  const compiledExceptions = exceptions
+    .map(normalizeText)
+    .filter(exception => exception.length > 0);
+  
+  return {
+    match: (text: string): string | undefined => {
+      let paddedText = ` ${normalizeText(text)} `;
+      
+      compiledExceptions.forEach(exception => {
+        const pattern = isUnspaced(exception) ? exception : ` ${exception} `;
+        while (paddedText.includes(pattern)) {
+          paddedText = paddedText.replace(pattern, ' ');
+        }
+      });
+      
+      return compiledKeywords.find(({ normalized }) => containsKeyword(paddedText, normalized))?.keyword;
+    }
+  };
+}
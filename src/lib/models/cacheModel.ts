@@ -0,0 +1,69 @@
+import { query } from '@/lib/db';
+import logger from '@/lib/logger';
+
+/**
+ * Raw cache row as stored in the cache_entries table
+ */
+export interface CacheRow {
+  key: string;
+  value: string;
+  expiresAt: number;
+}
+
+/**
+ * Cache model that provides data access functions for the cache_entries table
+ */
+export const CacheModel = {
+  /**
+   * Get unexpired entries for a list of keys
+   */
+  async getMany(keys: string[]): Promise<CacheRow[]> {
+    if (keys.length === 0) return [];
+    
+    const placeholders = keys.map(() => '?').join(', ');
+    const results = await query(
+      `SELECT cache_key AS \`key\`, value, expires_at AS expiresAt
+      FROM cache_entries
+      WHERE cache_key IN (${placeholders}) AND expires_at > ?`,
+      [...keys, Date.now()]
+    ) as any[];
+    
+    return results.map(row => ({
+      key: row.key,
+      value: row.value,
+      expiresAt: Number(row.expiresAt)
+    }));
+  },
+  
+  /**
+   * Insert or replace an entry
+   */
+  async set(key: string, value: string, expiresAt: number): Promise<void> {
+    await query(
+      `INSERT INTO cache_entries (cache_key, value, expires_at)
+      VALUES (?, ?, ?)
+      ON DUPLICATE KEY UPDATE value = VALUES(value), expires_at = VALUES(expires_at)`,
+      [key, value, expiresAt]
+    );
+  },
+  
+  /**
+   * Remove an entry
+   */
+  async remove(key: string): Promise<void> {
+    await query('DELETE FROM cache_entries WHERE cache_key = ?', [key]);
+  },
+  
+  /**
+   * Remove all expired entries, returning how many were deleted
+   */
+  async deleteExpired(): Promise<number> {
+    const result = await query(
+      'DELETE FROM cache_entries WHERE expires_at <= ?',
+      [Date.now()]
+    ) as any;
+    
+    logger.debug('CacheModel: Deleted expired entries', { count: result.affectedRows });
+    return result.affectedRows || 0;
+  }
+};
@@ -0,0 +1,134 @@
+import { randomUUID } from 'crypto';
+import { query } from '@/lib/db';
+import { Video, SearchType } from '@/types';
+import { prepareVideoForSaving } from '@/lib/videoAdapter';
+import { parseDuration } from '@/lib/utils';
+import logger from '@/lib/logger';
+
+/**
+ * Convert a candidate_videos row to a Video, as a live search would have returned it
+ */
+function toCandidateVideo(row: any): Video {
+  return {
+    id: row.video_id,
+    provider: row.provider,
+    title: row.title,
+    description: row.description || '',
+    thumbnailUrl: row.thumbnail_url,
+    publishedAt: new Date(row.published_at).toISOString(),
+    viewCount: Number(row.view_count),
+    channelTitle: row.channel_title,
+    channelId: row.channel_id || undefined,
+    categoryId: row.category_id || undefined,
+    isLiveStream: Boolean(row.is_live_stream),
+    isUpcoming: Boolean(row.is_upcoming),
+    duration: row.duration || undefined,
+    durationSeconds: parseDuration(row.duration || undefined),
+    isVertical: Boolean(row.is_vertical),
+    availability: row.availability || undefined
+  };
+}
+
+/**
+ * Candidate model that provides data access functions for the candidate_videos table
+ * Candidates are rare videos found by the background harvester, waiting to be served
+ */
+export const CandidateModel = {
+  /**
+   * Add harvested videos to the pool, skipping any already in it
+   * Returns how many were new
+   */
+  async addMany(videos: Video[], searchType: SearchType): Promise<number> {
+    let added = 0;
+    
+    for (const video of videos) {
+      const videoData = prepareVideoForSaving(video);
+      const result = await query(
+        `INSERT IGNORE INTO candidate_videos (
+          video_id, provider, search_type, title, description, thumbnail_url,
+          channel_title, channel_id, category_id, published_at, view_count, duration,
+          is_live_stream, is_upcoming, is_vertical, availability
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          videoData.video_id,
+          videoData.provider,
+          searchType,
+          videoData.title,
+          videoData.description,
+          videoData.thumbnail_url,
+          videoData.channel_title,
+          videoData.channel_id,
+          video.categoryId || null,
+          videoData.published_at,
+          videoData.view_count_at_discovery,
+          videoData.duration,
+          Boolean(video.isLiveStream),
+          Boolean(video.isUpcoming),
+          Boolean(video.isVertical),
+          videoData.availability
+        ]
+      ) as any;
+      added += result.affectedRows || 0;
+    }
+    
+    logger.debug('CandidateModel: Added candidates', { searchType, offered: videos.length, added });
+    return added;
+  },
+  
+  /**
+   * Count candidates of a search type that haven't been served yet
+   */
+  async countUnserved(searchType: SearchType): Promise<number> {
+    const results = await query(
+      `SELECT COUNT(*) AS count
+      FROM candidate_videos
+      WHERE search_type = ? AND served_at IS NULL`,
+      [searchType]
+    ) as any[];
+    
+    return Number(results[0]?.count || 0);
+  },
+  
+  /**
+   * Take a random batch of unserved candidates and mark them as served
+   * Videos that have since been saved, or have too many views, are skipped.
+   * The batch is claimed in a single UPDATE under a fresh token and then read back
+   * by it, so concurrent requests never serve the same video.
+   */
+  async takeUnserved(searchType: SearchType, limit: number, viewThreshold: number): Promise<Video[]> {
+    // LIMIT can't be a prepared-statement parameter, so inline it as a safe integer
+    const safeLimit = Math.max(1, Math.floor(limit));
+    const claimToken = randomUUID();
+    
+    const claim = await query(
+      `UPDATE candidate_videos
+      SET served_at = NOW(), claim_token = ?
+      WHERE search_type = ?
+        AND served_at IS NULL
+        AND view_count < ?
+        AND NOT EXISTS (
+          SELECT 1 FROM saved_videos s
+          WHERE s.provider = candidate_videos.provider AND s.video_id = candidate_videos.video_id
+        )
+      ORDER BY RAND()
+      LIMIT ${safeLimit}`,
+      [claimToken, searchType, viewThreshold]
+    ) as any;
+    
+    if (Number(claim.affectedRows || 0) === 0) {
+      return [];
+    }
+    
+    const results = await query(
+      `SELECT
+        video_id, provider, title, description, thumbnail_url, channel_title, channel_id,
+        category_id, published_at, view_count, duration, is_live_stream, is_upcoming,
+        is_vertical, availability
+      FROM candidate_videos
+      WHERE claim_token = ?`,
+      [claimToken]
+    ) as any[];
+    
+    return results.map(toCandidateVideo);
+  }
+};
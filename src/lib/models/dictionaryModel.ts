@@ -0,0 +1,178 @@
+import { query } from '@/lib/db';
+import { SearchDictionary, DictionaryTerm, WeightedTerm, SearchType } from '@/types';
+import logger from '@/lib/logger';
+
+/**
+ * Convert a search_dictionary_terms row to a DictionaryTerm
+ */
+function toDictionaryTerm(row: any): DictionaryTerm {
+  return {
+    id: Number(row.id),
+    term: row.term,
+    weight: Number(row.weight),
+    enabled: Boolean(row.enabled)
+  };
+}
+
+/**
+ * Dictionary model that provides data access functions for the search_dictionaries
+ * and search_dictionary_terms tables
+ */
+export const DictionaryModel = {
+  /**
+   * Get every dictionary with its terms
+   */
+  async getAll(): Promise<SearchDictionary[]> {
+    const dictionaries = await query(
+      `SELECT id, name, search_type, is_active
+      FROM search_dictionaries
+      ORDER BY search_type, name`
+    ) as any[];
+    const terms = await query(
+      `SELECT id, dictionary_id, term, weight, enabled
+      FROM search_dictionary_terms
+      ORDER BY id`
+    ) as any[];
+
+    return dictionaries.map(row => ({
+      id: Number(row.id),
+      name: row.name,
+      searchType: row.search_type,
+      isActive: Boolean(row.is_active),
+      terms: terms
+        .filter(term => Number(term.dictionary_id) === Number(row.id))
+        .map(toDictionaryTerm)
+    }));
+  },
+
+  /**
+   * Get one dictionary with its terms, or null if it doesn't exist
+   */
+  async getById(id: number): Promise<SearchDictionary | null> {
+    const dictionaries = await DictionaryModel.getAll();
+    return dictionaries.find(dictionary => dictionary.id === id) || null;
+  },
+
+  /**
+   * Get the enabled terms of a search type's active dictionary
+   * Returns an empty list when the search type has no active dictionary
+   */
+  async getActiveTerms(searchType: SearchType): Promise<WeightedTerm[]> {
+    const results = await query(
+      `SELECT t.term, t.weight
+      FROM search_dictionary_terms t
+      JOIN search_dictionaries d ON d.id = t.dictionary_id
+      WHERE d.search_type = ? AND d.is_active = TRUE AND t.enabled = TRUE AND t.weight > 0
+      ORDER BY t.id`,
+      [searchType]
+    ) as any[];
+
+    return results.map(row => ({ term: row.term, weight: Number(row.weight) }));
+  },
+
+  /**
+   * Count the dictionaries of a search type
+   */
+  async countForSearchType(searchType: SearchType): Promise<number> {
+    const results = await query(
+      'SELECT COUNT(*) AS count FROM search_dictionaries WHERE search_type = ?',
+      [searchType]
+    ) as any[];
+
+    return Number(results[0]?.count || 0);
+  },
+
+  /**
+   * Create a dictionary with the given terms (weight 1 each), returning its id
+   */
+  async create(name: string, searchType: SearchType, terms: string[] = [], isActive: boolean = false): Promise<number> {
+    const result = await query(
+      'INSERT INTO search_dictionaries (name, search_type, is_active) VALUES (?, ?, ?)',
+      [name, searchType, isActive]
+    ) as any;
+    const id = Number(result.insertId);
+
+    for (const term of terms) {
+      await DictionaryModel.addTerm(id, term);
+    }
+
+    logger.debug('DictionaryModel: Created dictionary', { id, name, searchType, terms: terms.length });
+    return id;
+  },
+
+  /**
+   * Make a dictionary the active one of its search type
+   */
+  async activate(id: number): Promise<boolean> {
+    const dictionary = await DictionaryModel.getById(id);
+    if (!dictionary) return false;
+
+    await query(
+      'UPDATE search_dictionaries SET is_active = (id = ?) WHERE search_type = ?',
+      [id, dictionary.searchType]
+    );
+    return true;
+  },
+
+  /**
+   * Rename a dictionary
+   */
+  async rename(id: number, name: string): Promise<boolean> {
+    const result = await query(
+      'UPDATE search_dictionaries SET name = ? WHERE id = ?',
+      [name, id]
+    ) as any;
+    return result.affectedRows > 0;
+  },
+
+  /**
+   * Delete a dictionary and its terms
+   */
+  async remove(id: number): Promise<boolean> {
+    const result = await query(
+      'DELETE FROM search_dictionaries WHERE id = ?',
+      [id]
+    ) as any;
+    return result.affectedRows > 0;
+  },
+
+  /**
+   * Add a term to a dictionary, ignoring one that is already in it
+   * Returns whether the term was new
+   */
+  async addTerm(dictionaryId: number, term: string, weight: number = 1): Promise<boolean> {
+    const result = await query(
+      'INSERT IGNORE INTO search_dictionary_terms (dictionary_id, term, weight) VALUES (?, ?, ?)',
+      [dictionaryId, term, weight]
+    ) as any;
+    return result.affectedRows > 0;
+  },
+
+  /**
+   * Change a term's weight or enable/disable it
+   */
+  async updateTerm(
+    dictionaryId: number,
+    termId: number,
+    changes: { weight?: number; enabled?: boolean }
+  ): Promise<boolean> {
+    const result = await query(
+      `UPDATE search_dictionary_terms
+      SET weight = COALESCE(?, weight), enabled = COALESCE(?, enabled)
+      WHERE id = ? AND dictionary_id = ?`,
+      [changes.weight ?? null, changes.enabled ?? null, termId, dictionaryId]
+    ) as any;
+    return result.affectedRows > 0;
+  },
+
+  /**
+   * Remove a term from a dictionary
+   */
+  async removeTerm(dictionaryId: number, termId: number): Promise<boolean> {
+    const result = await query(
+      'DELETE FROM search_dictionary_terms WHERE id = ? AND dictionary_id = ?',
+      [termId, dictionaryId]
+    ) as any;
+    return result.affectedRows > 0;
+  }
+};
@@ -0,0 +1,41 @@
+import { query } from '@/lib/db';
+import { QuotaEndpointUsage } from '@/types';
+import logger from '@/lib/logger';
+
+/**
+ * Quota model that provides data access functions for the api_quota_usage table
+ */
+export const QuotaModel = {
+  /**
+   * Get usage per endpoint for a Pacific-time day (YYYY-MM-DD)
+   */
+  async getUsage(day: string): Promise<Record<string, QuotaEndpointUsage>> {
+    logger.debug('QuotaModel: Getting usage', { day });
+    
+    const results = await query(
+      `SELECT endpoint, calls, units
+      FROM api_quota_usage
+      WHERE quota_day = ?`,
+      [day]
+    ) as any[];
+    
+    const usage: Record<string, QuotaEndpointUsage> = {};
+    results.forEach(row => {
+      usage[row.endpoint] = { calls: Number(row.calls), units: Number(row.units) };
+    });
+    
+    return usage;
+  },
+  
+  /**
+   * Add calls and units for an endpoint to a day's running total
+   */
+  async addUsage(day: string, endpoint: string, calls: number, units: number): Promise<void> {
+    await query(
+      `INSERT INTO api_quota_usage (quota_day, endpoint, calls, units)
+      VALUES (?, ?, ?, ?)
+      ON DUPLICATE KEY UPDATE calls = calls + VALUES(calls), units = units + VALUES(units)`,
+      [day, endpoint, calls, units]
+    );
+  }
+};
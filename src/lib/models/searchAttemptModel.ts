@@ -0,0 +1,79 @@
+import { query } from '@/lib/db';
+import { SearchAttempt, SearchType, SearchYields, ArmYield } from '@/types';
+import { getEra } from '@/lib/yieldBandit';
+import logger from '@/lib/logger';
+
+/**
+ * Convert a grouped search_attempts row to an ArmYield
+ */
+function toArmYield(row: any): ArmYield {
+  return {
+    key: String(row.arm),
+    attempts: Number(row.attempts),
+    successes: Number(row.successes)
+  };
+}
+
+/**
+ * Search attempt model that provides data access functions for the search_attempts table
+ * Every searched window is logged with its query, era and outcome
+ */
+export const SearchAttemptModel = {
+  /**
+   * Log a search attempt
+   */
+  async record(attempt: SearchAttempt): Promise<void> {
+    const { searchType, query: searchQuery, window, viewStats, rareCount } = attempt;
+    await query(
+      `INSERT INTO search_attempts (
+        search_type, query, era, window_start, window_end, total_videos, zero_views,
+        under_ten_views, under_hundred_views, under_thousand_views, rare_count
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        searchType,
+        searchQuery,
+        Number(getEra(window)),
+        window.startDate,
+        window.endDate,
+        viewStats.totalVideos,
+        viewStats.zeroViews,
+        viewStats.underTenViews,
+        viewStats.underHundredViews,
+        viewStats.underThousandViews,
+        rareCount
+      ]
+    );
+    logger.debug('SearchAttemptModel: Recorded attempt', { searchType, query: searchQuery, rareCount });
+  },
+  
+  /**
+   * Get the yields of a search type's terms and eras from attempts since the given date
+   * (and before `until`, if given)
+   * An attempt counts as a success when it found a video under 10 views, whatever
+   * the other rarity rules made of it, so attempts with different filters compare
+   */
+  async getYields(searchType: SearchType, since: Date, until?: Date): Promise<SearchYields> {
+    const untilClause = until ? ' AND attempted_at < ?' : '';
+    const params = until ? [searchType, since, until] : [searchType, since];
+    
+    const terms = await query(
+      `SELECT query AS arm, COUNT(*) AS attempts, SUM(under_ten_views > 0) AS successes
+      FROM search_attempts
+      WHERE search_type = ? AND attempted_at >= ?${untilClause} AND query IS NOT NULL
+      GROUP BY query`,
+      params
+    ) as any[];
+    const eras = await query(
+      `SELECT era AS arm, COUNT(*) AS attempts, SUM(under_ten_views > 0) AS successes
+      FROM search_attempts
+      WHERE search_type = ? AND attempted_at >= ?${untilClause}
+      GROUP BY era`,
+      params
+    ) as any[];
+    
+    return {
+      terms: terms.map(toArmYield),
+      eras: eras.map(toArmYield)
+    };
+  }
+};
@@ -1,6 +1,7 @@
 import { query } from '@/lib/db';
-import { Video, SavedVideo } from '@/types';
+import { Video, SavedVideo, VideoProviderId, VideoAvailability } from '@/types';
 import { prepareVideoForSaving } from '@/lib/videoAdapter';
+import { DEFAULT_VIDEO_PROVIDER } from '@/lib/videoProviders';
 import logger from '@/lib/logger';
 
 /**
@@ -32,15 +33,19 @@ export const VideoModel = {
       const results = await query(`
         SELECT 
           id,
+          provider,
           video_id,
           title,
           description,
           thumbnail_url AS thumbnailUrl,
           channel_title AS channelTitle,
+          channel_id AS channelId,
           published_at AS publishedAt,
           view_count_at_discovery,
           discovered_at,
-          duration
+          duration,
+          availability,
+          availability_checked_at
         FROM saved_videos 
         ORDER BY discovered_at DESC
       `);
@@ -57,7 +62,10 @@ export const VideoModel = {
       return (results as any[]).map(video => ({
         ...video,
         publishedAt: new Date(video.publishedAt).toISOString(),
-        discovered_at: new Date(video.discovered_at).toISOString()
+        discovered_at: new Date(video.discovered_at).toISOString(),
+        availability_checked_at: video.availability_checked_at
+          ? new Date(video.availability_checked_at).toISOString()
+          : null
       }));
     } catch (error) {
       logger.error('VideoModel: Error retrieving all videos', error);
@@ -66,24 +74,40 @@ export const VideoModel = {
   },
   
   /**
-   * Find a video by its YouTube ID
+   * Get the IDs of every saved video of a provider
    */
-  async findById(videoId: string): Promise<SavedVideo | null> {
+  async getVideoIds(provider: VideoProviderId = DEFAULT_VIDEO_PROVIDER): Promise<string[]> {
+    const results = await query(
+      'SELECT video_id FROM saved_videos WHERE provider = ? ORDER BY id',
+      [provider]
+    ) as any[];
+    
+    return results.map(row => row.video_id);
+  },
+  
+  /**
+   * Find a video by its provider's ID
+   */
+  async findById(videoId: string, provider: VideoProviderId = DEFAULT_VIDEO_PROVIDER): Promise<SavedVideo | null> {
     const results = await query(
       `SELECT 
         id,
+        provider,
         video_id,
         title,
         description,
         thumbnail_url AS thumbnailUrl,
         channel_title AS channelTitle,
+        channel_id AS channelId,
         published_at AS publishedAt,
         view_count_at_discovery,
         discovered_at,
-        duration
+        duration,
+        availability,
+        availability_checked_at
       FROM saved_videos 
-      WHERE video_id = ?`,
-      [videoId]
+      WHERE provider = ? AND video_id = ?`,
+      [provider, videoId]
     ) as any[];
     
     if (results.length === 0) {
@@ -96,7 +120,10 @@ export const VideoModel = {
     return {
       ...video,
       publishedAt: new Date(video.publishedAt).toISOString(),
-      discovered_at: new Date(video.discovered_at).toISOString()
+      discovered_at: new Date(video.discovered_at).toISOString(),
+      availability_checked_at: video.availability_checked_at
+        ? new Date(video.availability_checked_at).toISOString()
+        : null
     };
   },
   
@@ -106,31 +133,56 @@ export const VideoModel = {
   async save(video: Video): Promise<void> {
     const videoData = prepareVideoForSaving(video);
     
+    // A video found by a search comes with its availability, checked just now
     await query(
       `INSERT INTO saved_videos (
-        video_id, title, description, thumbnail_url, 
-        channel_title, published_at, view_count_at_discovery, duration
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        provider, video_id, title, description, thumbnail_url, 
+        channel_title, channel_id, published_at, view_count_at_discovery, duration,
+        availability, availability_checked_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, IF(? IS NULL, NULL, CURRENT_TIMESTAMP))`,
       [
+        videoData.provider,
         videoData.video_id,
         videoData.title,
         videoData.description,
         videoData.thumbnail_url,
         videoData.channel_title,
+        videoData.channel_id,
         videoData.published_at,
         videoData.view_count_at_discovery,
-        videoData.duration
+        videoData.duration,
+        videoData.availability,
+        videoData.availability
       ]
     );
   },
   
   /**
-   * Remove a video by its YouTube ID
+   * Record the availability of saved videos of a provider, as just checked
+   */
+  async updateAvailability(
+    provider: VideoProviderId,
+    availabilities: Record<string, VideoAvailability>
+  ): Promise<void> {
+    for (const [videoId, availability] of Object.entries(availabilities)) {
+      await query(
+        `UPDATE saved_videos
+        SET availability = ?, availability_checked_at = CURRENT_TIMESTAMP
+        WHERE provider = ? AND video_id = ?`,
+        [availability, provider, videoId]
+      );
+    }
+    
+    logger.debug('VideoModel: Updated availability', { provider, count: Object.keys(availabilities).length });
+  },
+  
+  /**
+   * Remove a video by its provider's ID
    */
-  async remove(videoId: string): Promise<boolean> {
+  async remove(videoId: string, provider: VideoProviderId = DEFAULT_VIDEO_PROVIDER): Promise<boolean> {
     const result = await query(
-      'DELETE FROM saved_videos WHERE video_id = ?',
-      [videoId]
+      'DELETE FROM saved_videos WHERE provider = ? AND video_id = ?',
+      [provider, videoId]
     ) as any;
     
     // Return true if a row was affected (deleted)
@@ -138,12 +190,12 @@ export const VideoModel = {
   },
   
   /**
-   * Check if a video exists by its YouTube ID
+   * Check if a video exists by its provider's ID
    */
-  async exists(videoId: string): Promise<boolean> {
+  async exists(videoId: string, provider: VideoProviderId = DEFAULT_VIDEO_PROVIDER): Promise<boolean> {
     const results = await query(
-      'SELECT 1 FROM saved_videos WHERE video_id = ? LIMIT 1',
-      [videoId]
+      'SELECT 1 FROM saved_videos WHERE provider = ? AND video_id = ? LIMIT 1',
+      [provider, videoId]
     ) as any[];
     
     return results.length > 0;
@@ -0,0 +1,96 @@
+import { query } from '@/lib/db';
+import { ViewSnapshot, VideoProviderId } from '@/types';
+import logger from '@/lib/logger';
+
+// Rows per INSERT and videos per history lookup, keeping statements and placeholder lists small
+const SNAPSHOT_BATCH_SIZE = 500;
+
+/**
+ * Split a list into batches of SNAPSHOT_BATCH_SIZE
+ */
+function toBatches<T>(items: T[]): T[][] {
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += SNAPSHOT_BATCH_SIZE) {
+    batches.push(items.slice(i, i + SNAPSHOT_BATCH_SIZE));
+  }
+  return batches;
+}
+
+/**
+ * Key of a video in the histories returned by getRecentHistories
+ */
+export function getSnapshotKey(provider: string, videoId: string): string {
+  return `${provider}:${videoId}`;
+}
+
+/**
+ * View snapshot model that provides data access functions for the video_view_snapshots table
+ * Snapshots are the view counts of saved videos, recorded by the view refresher
+ */
+export const ViewSnapshotModel = {
+  /**
+   * Record the current view counts of some videos of a provider, in batches
+   */
+  async recordMany(provider: VideoProviderId, counts: { videoId: string; viewCount: number }[]): Promise<number> {
+    let recorded = 0;
+    
+    for (const batch of toBatches(counts)) {
+      const result = await query(
+        `INSERT INTO video_view_snapshots (provider, video_id, view_count)
+        VALUES ${batch.map(() => '(?, ?, ?)').join(', ')}`,
+        batch.flatMap(({ videoId, viewCount }) => [provider, videoId, viewCount])
+      ) as any;
+      recorded += Number(result.affectedRows || 0);
+    }
+    
+    logger.debug('ViewSnapshotModel: Recorded snapshots', { provider, count: counts.length });
+    return recorded;
+  },
+  
+  /**
+   * Get the latest snapshots of the given videos (up to `limit` each), oldest first,
+   * keyed by getSnapshotKey
+   * Only the requested videos' rows are ranked, using the (provider, video_id, captured_at) index.
+   * Ranking uses ROW_NUMBER, so this needs MySQL 8.0 or MariaDB 10.2 (see checkServerVersion in db.ts).
+   */
+  async getRecentHistories(
+    videos: { provider: VideoProviderId; videoId: string }[],
+    limit: number
+  ): Promise<Map<string, ViewSnapshot[]>> {
+    const histories = new Map<string, ViewSnapshot[]>();
+    
+    for (const batch of toBatches(videos)) {
+      const results = await query(
+        `SELECT provider, video_id, view_count, captured_at
+        FROM (
+          SELECT provider, video_id, view_count, captured_at,
+            ROW_NUMBER() OVER (PARTITION BY provider, video_id ORDER BY captured_at DESC, id DESC) AS recency
+          FROM video_view_snapshots
+          WHERE (provider, video_id) IN (${batch.map(() => '(?, ?)').join(', ')})
+        ) ranked
+        WHERE recency <= ?
+        ORDER BY captured_at, video_id`,
+        [...batch.flatMap(({ provider, videoId }) => [provider, videoId]), limit]
+      ) as any[];
+      
+      results.forEach(row => {
+        const key = getSnapshotKey(row.provider, row.video_id);
+        const history = histories.get(key) || [];
+        history.push({ viewCount: Number(row.view_count), capturedAt: new Date(row.captured_at).toISOString() });
+        histories.set(key, history);
+      });
+    }
+    
+    return histories;
+  },
+  
+  /**
+   * Delete the snapshots of a video (when it is no longer saved)
+   */
+  async removeForVideo(provider: VideoProviderId, videoId: string): Promise<void> {
+    await query(
+      'DELETE FROM video_view_snapshots WHERE provider = ? AND video_id = ?',
+      [provider, videoId]
+    );
+  }
+};
@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { SearchType, SearchYields } from '@/types';
+import { createSeededRandom, generateSeed, isSeededRandom, isValidSeed } from './random';
+import { bindYieldSnapshot, pickSearchDate, setSearchYields } from './yieldBandit';
+import { getSearchQuery } from './searchStrategies';
+import { createInitialTimeWindow } from './utils';
+import { DEFAULT_DATE_SAMPLING } from './dateSamplers';
+
+/**
+ * Draw the first few numbers of a random source
+ */
+function draw(random: () => number, count: number = 5): number[] {
+  return Array.from({ length: count }, () => random());
+}
+
+// Yields where 2006 always turned up rare videos and every other era never did
+const YIELDS_FAVOURING_2006: SearchYields = {
+  terms: [],
+  eras: Array.from({ length: 30 }, (_, i) => {
+    const year = 2005 + i;
+    return { key: String(year), attempts: 1000, successes: year === 2006 ? 1000 : 0 };
+  })
+};
+
+/**
+ * Pick the first window and query of a seeded search, as searchRunner does
+ */
+function pickFirstAttempt(seed: string, snapshot?: SearchYields) {
+  const random = createSeededRandom(seed);
+  if (snapshot) bindYieldSnapshot(random, snapshot);
+  const window = createInitialTimeWindow(pickSearchDate(SearchType.RandomTime, DEFAULT_DATE_SAMPLING, random));
+  return { window, query: getSearchQuery(SearchType.RandomTime, random) };
+}
+
+describe('createSeededRandom', () => {
+  it('yields the same sequence for the same seed', () => {
+    expect(draw(createSeededRandom('grail42'))).toEqual(draw(createSeededRandom('grail42')));
+  });
+  
+  it('yields different sequences for different seeds', () => {
+    expect(draw(createSeededRandom('grail42'))).not.toEqual(draw(createSeededRandom('grail43')));
+  });
+  
+  it('stays within [0, 1)', () => {
+    draw(createSeededRandom('bounds'), 1000).forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+  
+  it('marks its sources as seeded', () => {
+    expect(isSeededRandom(createSeededRandom('abc'))).toBe(true);
+    expect(isSeededRandom(Math.random)).toBe(false);
+  });
+});
+
+describe('seeds', () => {
+  it('generates valid seeds', () => {
+    for (let i = 0; i < 20; i++) {
+      expect(isValidSeed(generateSeed())).toBe(true);
+    }
+  });
+  
+  it('rejects seeds that are not short and URL-safe', () => {
+    expect(isValidSeed('')).toBe(false);
+    expect(isValidSeed('a b')).toBe(false);
+    expect(isValidSeed('x'.repeat(33))).toBe(false);
+    expect(isValidSeed(42)).toBe(false);
+  });
+});
+
+describe('seeded replay', () => {
+  afterEach(() => {
+    setSearchYields(SearchType.RandomTime, { terms: [], eras: [] });
+  });
+  
+  it('picks the same window and query for the same seed', () => {
+    expect(pickFirstAttempt('replay1')).toEqual(pickFirstAttempt('replay1'));
+  });
+  
+  it('picks with its yield snapshot, not the live yields', () => {
+    const before = pickFirstAttempt('replay2', YIELDS_FAVOURING_2006);
+    
+    // Learning after the snapshot was taken changes nothing
+    setSearchYields(SearchType.RandomTime, {
+      terms: [],
+      eras: [{ key: '2010', attempts: 1000, successes: 1000 }]
+    });
+    
+    expect(pickFirstAttempt('replay2', YIELDS_FAVOURING_2006)).toEqual(before);
+  });
+  
+  it('leans towards high-yield eras in its snapshot', () => {
+    const countPicksIn2006 = (snapshot?: SearchYields) => Array.from({ length: 200 }, (_, i) => pickFirstAttempt(`lean${i}`, snapshot))
+      .filter(({ window }) => window.startDate.getFullYear() === 2006 || window.endDate.getFullYear() === 2006)
+      .length;
+    
+    // Without yields 2006 is one era of twenty; with them it takes every pick but the explorations
+    expect(countPicksIn2006()).toBeLessThan(40);
+    expect(countPicksIn2006(YIELDS_FAVOURING_2006)).toBeGreaterThan(120);
+  });
+});
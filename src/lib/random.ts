@@ -0,0 +1,61 @@
+/**
+ * Source of uniformly distributed numbers in [0, 1), like Math.random
+ */
+export type RandomSource = () => number;
+
+// Seeds travel in URLs, so keep them short and URL-safe
+const SEED_PATTERN = /^[a-z0-9]{1,32}$/i;
+
+// Random sources made from a seed, whose picks must not depend on anything that changes
+const seededSources = new WeakSet<RandomSource>();
+
+/**
+ * Check that a value is a usable seed
+ */
+export function isValidSeed(seed: unknown): seed is string {
+  return typeof seed === 'string' && SEED_PATTERN.test(seed);
+}
+
+/**
+ * Generate a fresh random seed, e.g. "k3v9x0qa"
+ */
+export function generateSeed(): string {
+  return Math.random().toString(36).slice(2, 10).padEnd(8, '0');
+}
+
+/**
+ * Hash a seed string to a 32-bit integer (FNV-1a)
+ */
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Create a deterministic random source from a seed (mulberry32)
+ * The same seed always yields the same sequence, on the server and in the browser
+ */
+export function createSeededRandom(seed: string): RandomSource {
+  let state = hashSeed(seed);
+  
+  const random: RandomSource = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  seededSources.add(random);
+  return random;
+}
+
+/**
+ * Check whether a random source was created from a seed (see createSeededRandom)
+ */
+export function isSeededRandom(random: RandomSource): boolean {
+  return seededSources.has(random);
+}
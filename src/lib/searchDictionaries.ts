@@ -0,0 +1,68 @@
+import { ApiError } from './api';
+import { ensureDatabase } from './db';
+import { DictionaryModel } from './models/dictionaryModel';
+import { getSearchStrategies } from './searchStrategies';
+import { setActiveTerms } from './searchTerms';
+import { DICTIONARY_REFRESH_MS } from './constants';
+import logger from './logger';
+import { DictionaryTerm } from '@/types';
+
+/**
+ * Search dictionaries
+ * Keeps each search type's active dictionary terms (from the database) loaded into
+ * searchTerms, where getSearchQuery draws from them. Terms are reloaded at most every
+ * DICTIONARY_REFRESH_MS, or right away after an admin edit. A search type with no
+ * dictionary yet gets one seeded from its strategy's built-in terms.
+ */
+export const searchDictionaries = {
+  loadedAt: 0,
+  
+  /**
+   * Load the active terms of every search type, unless they were loaded recently
+   * Without a database, searches keep using the built-in terms
+   */
+  load: async (): Promise<void> => {
+    if (Date.now() - searchDictionaries.loadedAt < DICTIONARY_REFRESH_MS) return;
+    
+    try {
+      await ensureDatabase();
+      for (const strategy of getSearchStrategies()) {
+        await searchDictionaries.seed(strategy.id, strategy.label, strategy.defaultTerms);
+        setActiveTerms(strategy.id, await DictionaryModel.getActiveTerms(strategy.id));
+      }
+      logger.debug('searchDictionaries: Loaded active terms');
+    } catch (error) {
+      logger.warn('searchDictionaries: Could not load dictionaries, using built-in terms', error);
+    }
+    searchDictionaries.loadedAt = Date.now();
+  },
+  
+  /**
+   * Create a search type's first dictionary from its built-in terms (no-op once it has one)
+   */
+  seed: async (searchType: string, label: string, terms: string[] = []): Promise<void> => {
+    if (terms.length === 0 || await DictionaryModel.countForSearchType(searchType) > 0) return;
+    
+    const uniqueTerms = terms.filter((term, index) => terms.indexOf(term) === index);
+    await DictionaryModel.create(`${label} (built-in)`, searchType, uniqueTerms, true);
+    logger.info('searchDictionaries: Seeded dictionary', { searchType, terms: uniqueTerms.length });
+  },
+  
+  /**
+   * Reject a change that would leave the active dictionary with no term to search with
+   * An active dictionary without enabled, weighted terms would silently fall back to the
+   * built-in terms, so the admin API refuses it with a 400 instead
+   */
+  requireUsableTerms: (terms: Pick<DictionaryTerm, 'weight' | 'enabled'>[]): void => {
+    if (!terms.some(({ enabled, weight }) => enabled && weight > 0)) {
+      throw new ApiError('The active dictionary needs at least one enabled term with a weight above 0', 400);
+    }
+  },
+  
+  /**
+   * Reload the terms on the next search, e.g. after a dictionary was edited
+   */
+  invalidate: (): void => {
+    searchDictionaries.loadedAt = 0;
+  }
+};
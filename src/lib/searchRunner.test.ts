@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SearchProgressEvent, SearchType } from '@/types';
+import { DEFAULT_RARITY_SETTINGS } from './youtubeFilters';
+import { DEFAULT_DATE_SAMPLING } from './dateSamplers';
+import { MAX_REROLLS } from './constants';
+
+// Searches run without MySQL: yields, dictionaries and the quota ledger fall back to memory
+vi.mock('./db', () => ({
+  ensureDatabase: () => Promise.reject(new Error('No database in tests')),
+  query: () => Promise.reject(new Error('No database in tests'))
+}));
+
+/**
+ * Load a fresh search pipeline, with empty caches, quota and key pool
+ */
+async function loadRunSearch() {
+  vi.resetModules();
+  return (await import('./searchRunner')).runSearch;
+}
+
+/**
+ * Run a search and collect its progress events
+ */
+async function collectEvents(
+  runSearch: Awaited<ReturnType<typeof loadRunSearch>>,
+  seed: string,
+  signal?: AbortSignal
+): Promise<SearchProgressEvent[]> {
+  const events: SearchProgressEvent[] = [];
+  await runSearch(
+    SearchType.RandomTime,
+    seed,
+    DEFAULT_RARITY_SETTINGS,
+    DEFAULT_DATE_SAMPLING,
+    new Date('2024-01-01T00:00:00Z'),
+    event => events.push(event),
+    signal
+  );
+  return events;
+}
+
+/**
+ * What a search did, leaving out its API usage (which the cache changes)
+ */
+function describeHunt(events: SearchProgressEvent[]) {
+  return events.map(event => {
+    const { apiStats, ...rest } = event as SearchProgressEvent & { apiStats?: unknown };
+    return rest;
+  });
+}
+
+beforeEach(() => {
+  delete process.env.YOUTUBE_FAKE_SCENARIO;
+  vi.spyOn(console, 'debug').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('runSearch', () => {
+  it('reports each step of a hunt and ends with the rare videos it found', async () => {
+    const runSearch = await loadRunSearch();
+    
+    const events = await collectEvents(runSearch, 'hunt7');
+    const done = events[events.length - 1];
+    
+    expect(events[0]).toMatchObject({ type: 'started', seed: 'hunt7', yieldsAsOf: '2024-01-01T00:00:00.000Z' });
+    expect(events[1]).toMatchObject({ type: 'window', attempt: 0 });
+    expect(done.type).toBe('done');
+    if (done.type !== 'done') return;
+    
+    const viewCounts = done.videos.map(video => video.viewCount);
+    expect(viewCounts.length).toBeGreaterThan(0);
+    expect(viewCounts).toEqual([...viewCounts].sort((a, b) => a - b));
+    expect(viewCounts.every(viewCount => viewCount < DEFAULT_RARITY_SETTINGS.viewThreshold)).toBe(true);
+  }, 30000);
+  
+  it('rerolls to new dates until it gives up when nothing turns up', async () => {
+    const runSearch = await loadRunSearch();
+    process.env.YOUTUBE_FAKE_SCENARIO = 'empty';
+    
+    const events = await collectEvents(runSearch, 'nothing');
+    
+    expect(events.filter(event => event.type === 'reroll').map(event => event.type === 'reroll' && event.attempt))
+      .toEqual(Array.from({ length: MAX_REROLLS }, (_, index) => index + 1));
+    expect(events.filter(event => event.type === 'window')).toHaveLength(MAX_REROLLS + 1);
+    expect(events[events.length - 1]).toEqual({ type: 'exhausted', attempts: MAX_REROLLS + 1 });
+  }, 30000);
+  
+  it('fails when the API key is rejected', async () => {
+    const runSearch = await loadRunSearch();
+    process.env.YOUTUBE_FAKE_SCENARIO = 'invalidKey';
+    
+    await expect(collectEvents(runSearch, 'badkey')).rejects.toMatchObject({ kind: 'invalidKey' });
+  });
+  
+  it('stops once it is cancelled', async () => {
+    const runSearch = await loadRunSearch();
+    const controller = new AbortController();
+    controller.abort();
+    
+    await expect(collectEvents(runSearch, 'cancel', controller.signal)).rejects.toMatchObject({ name: 'SearchCancelledError' });
+  });
+});
+
+describe('runSearch replay', () => {
+  it('replays a seed the same way from a cold and a warm cache', async () => {
+    const runSearch = await loadRunSearch();
+    
+    const cold = await collectEvents(runSearch, 'replay42');
+    const warm = await collectEvents(runSearch, 'replay42');
+    
+    expect(cold.some(event => event.type === 'done' || event.type === 'exhausted')).toBe(true);
+    expect(describeHunt(warm)).toEqual(describeHunt(cold));
+    
+    // The second run was answered from the cache
+    const lastStats = (events: SearchProgressEvent[]) => [...events].reverse()
+      .find((event): event is Extract<SearchProgressEvent, { apiStats: any }> => 'apiStats' in event)!.apiStats;
+    expect(lastStats(warm).searchApiCalls).toBe(0);
+    expect(lastStats(cold).searchApiCalls).toBeGreaterThan(0);
+  }, 60000);
+});
@@ -0,0 +1,85 @@
+import { SearchProgressEvent, SearchType, RaritySettings, DateSampling } from '@/types';
+import { MAX_REROLLS } from './constants';
+import { createInitialTimeWindow } from './utils';
+import { throwIfCancelled } from './youtubeError';
+import { getRejectionStats } from './youtubeFilters';
+import { createSeededRandom } from './random';
+import { pickSearchDate, bindYieldSnapshot } from './yieldBandit';
+import { searchYields } from './searchYields';
+import { createApiStats, trackApiStats } from './youtubeTypes';
+import { DEFAULT_VIDEO_PROVIDER } from './videoProviders';
+import { getVideoProviderService } from './videoProviderServices';
+import logger from './logger';
+import { filterRareVideos, getViewStats } from './youtubeService';
+
+/**
+ * Run a complete search server-side, reporting each step as it happens
+ * Tries a date from the date sampler, and rerolls to another from the same sampler
+ * up to MAX_REROLLS times until rare videos turn up. Dates, queries and window splits all come
+ * from the seed, and picks lean on the learned yields as of `yieldsAsOf` (reported in the
+ * 'started' event), so the same seed and moment replay the same hunt from a cold or a warm
+ * cache (as long as YouTube's results don't change). Every attempt is recorded for later
+ * searches and the harvester to learn from.
+ * Progress events carry the API usage of this search alone.
+ * Ends with a 'done' or 'exhausted' event; failures are thrown to the caller
+ * (a SearchCancelledError once the signal aborts).
+ */
+export async function runSearch(
+  searchType: SearchType,
+  seed: string,
+  rarity: RaritySettings,
+  dateSampling: DateSampling,
+  yieldsAsOf: Date,
+  emit: (event: SearchProgressEvent) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  // Counts only this search's API usage, whatever else runs alongside it
+  const apiStats = createApiStats();
+  return trackApiStats(apiStats, async () => {
+    const random = createSeededRandom(seed);
+    bindYieldSnapshot(random, await searchYields.getSnapshot(searchType, yieldsAsOf));
+    const provider = getVideoProviderService(DEFAULT_VIDEO_PROVIDER);
+    emit({ type: 'started', seed, yieldsAsOf: yieldsAsOf.toISOString() });
+    
+    for (let attempt = 0; attempt <= MAX_REROLLS; attempt++) {
+      throwIfCancelled(signal);
+      
+      if (attempt > 0) {
+        emit({ type: 'reroll', attempt });
+      }
+      
+      const window = createInitialTimeWindow(pickSearchDate(searchType, dateSampling, random));
+      emit({ type: 'window', attempt, window });
+      
+      // The window may be narrowed or widened; report the one actually searched
+      const { videoIds, window: searchedWindow, query } = await provider.searchAdaptiveWindow(window, searchType, undefined, signal, random);
+      emit({ type: 'ids', count: videoIds.length, window: searchedWindow, apiStats: { ...apiStats } });
+      if (videoIds.length === 0) {
+        await searchYields.record({ searchType, query: query || null, window: searchedWindow, viewStats: getViewStats([]), rareCount: 0 });
+        continue;
+      }
+      
+      const videos = await provider.getVideoDetails(videoIds, signal);
+      emit({ type: 'details', count: videos.length, apiStats: { ...apiStats } });
+      
+      // Rejections are reported so the UI can explain (and undo) each drop
+      const { videos: rareVideos, rejections } = filterRareVideos(videos, searchType, rarity);
+      const viewStats = getViewStats(videos);
+      logger.debug('searchRunner: Filtered videos', { rareCount: rareVideos.length, rejected: getRejectionStats(rejections) });
+      await searchYields.record({ searchType, query: query || null, window: searchedWindow, viewStats, rareCount: rareVideos.length });
+      emit({ type: 'stats', viewStats, rareCount: rareVideos.length, rejections });
+      
+      if (rareVideos.length > 0) {
+        emit({
+          type: 'done',
+          videos: [...rareVideos].sort((a, b) => a.viewCount - b.viewCount),
+          window: searchedWindow,
+          apiStats: { ...apiStats }
+        });
+        return;
+      }
+    }
+    
+    emit({ type: 'exhausted', attempts: MAX_REROLLS + 1 });
+  });
+}
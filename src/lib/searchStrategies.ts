@@ -0,0 +1,118 @@
+import type { Icon } from '@/components/ui/Icon';
+import { Video, TimeWindow, SearchType } from '@/types';
+import {
+  searchTerms,
+  cameraFilenamePatterns,
+  getRandomSearchTerm,
+  getRandomCameraPattern,
+  getActiveTerms
+} from './searchTerms';
+import { pickSearchTerm } from './yieldBandit';
+import { getLargeTimeWindow } from './utils';
+import { RandomSource } from './random';
+
+/**
+ * A search mode: everything the app needs to know to run and display it
+ */
+export interface SearchStrategy {
+  /** Identifier used in requests, cache keys and the search type select */
+  id: SearchType;
+  /** Short name shown in the search type select */
+  label: string;
+  /** Longer name shown on badges */
+  badgeLabel: string;
+  /** Word placed before "videos" in status messages (e.g. "unedited") */
+  videoAdjective?: string;
+  /** Icon shown on badges */
+  icon: keyof typeof Icon;
+  /** Tailwind classes for the badge */
+  colorClasses: string;
+  /** Generate the `q` parameter for the YouTube search from the built-in terms, drawing on the given random source */
+  getQuery: (random?: RandomSource) => string;
+  /** Built-in terms that seed this search type's first dictionary */
+  defaultTerms?: string[];
+  /** Adjust the base time window before searching */
+  transformWindow?: (window: TimeWindow) => TimeWindow;
+  /** Extra filtering applied after the rarity filter */
+  postFilter?: (videos: Video[]) => Video[];
+}
+
+// Registered strategies, in display order
+const strategies = new Map<SearchType, SearchStrategy>();
+
+/**
+ * Register (or replace) a search strategy
+ */
+export function registerSearchStrategy(strategy: SearchStrategy): void {
+  strategies.set(strategy.id, strategy);
+}
+
+/**
+ * Check whether a strategy is registered for the given id
+ */
+export function hasSearchStrategy(id: unknown): id is SearchType {
+  return typeof id === 'string' && strategies.has(id);
+}
+
+/**
+ * Get the strategy for a search type, falling back to Random Time
+ */
+export function getSearchStrategy(id: SearchType): SearchStrategy {
+  return strategies.get(id) || strategies.get(SearchType.RandomTime)!;
+}
+
+/**
+ * Get all registered strategies in display order
+ */
+export function getSearchStrategies(): SearchStrategy[] {
+  return Array.from(strategies.values());
+}
+
+/**
+ * Get search query based on search type
+ * Draws from the search type's active dictionary (favouring terms with good yields),
+ * or the strategy's built-in terms without one
+ */
+export function getSearchQuery(searchType: SearchType, random?: RandomSource): string {
+  const terms = getActiveTerms(searchType);
+  return terms ? pickSearchTerm(searchType, terms, random) : getSearchStrategy(searchType).getQuery(random);
+}
+
+/**
+ * Apply a strategy's window transformer (if any) to a base window
+ */
+export function getStrategyWindow(searchType: SearchType, window: TimeWindow): TimeWindow {
+  const { transformWindow } = getSearchStrategy(searchType);
+  return transformWindow ? transformWindow(window) : { ...window };
+}
+
+/**
+ * Label for videos of this type in messages, e.g. "unedited videos"
+ */
+export function getVideoLabel(searchType: SearchType): string {
+  const { videoAdjective } = getSearchStrategy(searchType);
+  return videoAdjective ? `${videoAdjective} videos` : 'videos';
+}
+
+// Built-in strategies
+registerSearchStrategy({
+  id: SearchType.RandomTime,
+  label: 'Random Time',
+  badgeLabel: 'Random Time',
+  icon: 'Clock',
+  colorClasses: 'bg-indigo-100 text-indigo-800',
+  getQuery: getRandomSearchTerm,
+  defaultTerms: searchTerms
+});
+
+registerSearchStrategy({
+  id: SearchType.Unedited,
+  label: 'Unedited',
+  badgeLabel: 'Unedited Videos',
+  videoAdjective: 'unedited',
+  icon: 'Camera',
+  colorClasses: 'bg-emerald-100 text-emerald-800',
+  getQuery: getRandomCameraPattern,
+  defaultTerms: cameraFilenamePatterns,
+  transformWindow: getLargeTimeWindow
+});
@@ -0,0 +1,73 @@
+import { SearchType, WeightedTerm } from '@/types';
+import { RandomSource } from './random';
+
+/**
+ * Built-in search terms and patterns for different search types
+ * They seed each search type's first dictionary; the dictionaries in the
+ * database (see searchDictionaries) are what searches actually draw from.
+ */
+export const searchTerms: string[] = [
+  'random', 'interesting', 'cool', 'fun', 'amazing', 
+  'wow', 'look', 'check', 'see', 'watch', 'observe',
+  'nature', 'outdoor', 'adventure', 'daily', 'life',
+  'hobby', 'craft', 'diy', 'homemade', 'amateur',
+  'family', 'kids', 'pet', 'dog', 'cat', 'animal',
+  'travel', 'trip', 'journey', 'vacation', 'holiday',
+  'food', 'cooking', 'recipe', 'baking', 'meal',
+  'game', 'play', 'explore'
+];
+
+export const cameraFilenamePatterns: string[] = [
+  'IMG_', 'DSC_', 'DCIM', 'MOV_', 'VID_', 'MVI_',
+  'GOPRO', 'CLIP', 'REC', 'VIDEO', 'CAMERA',
+  'iphone', 'samsung', 'pixel', 'P_', 'PANA', 'LUMIX',
+  'canon', 'nikon', 'sony', 'fuji', 'olympus', 'raw footage'
+];
+
+/**
+ * Get a random search term to diversify results
+ */
+export function getRandomSearchTerm(random: RandomSource = Math.random): string {
+  const randomIndex = Math.floor(random() * searchTerms.length);
+  return searchTerms[randomIndex];
+}
+
+/**
+ * Get a random camera filename pattern for unedited videos
+ */
+export function getRandomCameraPattern(random: RandomSource = Math.random): string {
+  const randomIndex = Math.floor(random() * cameraFilenamePatterns.length);
+  return cameraFilenamePatterns[randomIndex];
+}
+
+// Active dictionary terms per search type, loaded from the database on the server
+const activeTerms = new Map<SearchType, WeightedTerm[]>();
+
+/**
+ * Replace the active terms of a search type (an empty list falls back to the built-in terms)
+ */
+export function setActiveTerms(searchType: SearchType, terms: WeightedTerm[]): void {
+  activeTerms.set(searchType, terms.filter(({ weight }) => weight > 0));
+}
+
+/**
+ * Get the active terms of a search type, if its dictionary has any
+ */
+export function getActiveTerms(searchType: SearchType): WeightedTerm[] | undefined {
+  const terms = activeTerms.get(searchType);
+  return terms && terms.length > 0 ? terms : undefined;
+}
+
+/**
+ * Pick a term at random, in proportion to the terms' weights
+ */
+export function pickWeightedTerm(terms: WeightedTerm[], random: RandomSource = Math.random): string {
+  const totalWeight = terms.reduce((sum, { weight }) => sum + weight, 0);
+  let remaining = random() * totalWeight;
+  
+  for (const { term, weight } of terms) {
+    remaining -= weight;
+    if (remaining < 0) return term;
+  }
+  return terms[terms.length - 1].term;
+}
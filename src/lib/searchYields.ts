@@ -0,0 +1,81 @@
+import { subDays } from 'date-fns';
+import { SearchAttempt, SearchType, SearchYields } from '@/types';
+import { ensureDatabase } from './db';
+import { SearchAttemptModel } from './models/searchAttemptModel';
+import { getSearchStrategies } from './searchStrategies';
+import { setSearchYields, recordYield } from './yieldBandit';
+import { YIELD_LOOKBACK_DAYS, YIELD_REFRESH_MS } from './constants';
+import logger from './logger';
+
+/**
+ * Resolve the moment a seeded search snapshots the yields at
+ * A shared moment (ISO date) replays an earlier search's snapshot; anything missing,
+ * malformed or in the future takes the current moment, to the second like the log.
+ */
+export function resolveSnapshotTime(value: string | null): Date {
+  const now = new Date(Math.floor(Date.now() / 1000) * 1000);
+  const shared = value ? new Date(value) : null;
+  return shared && !isNaN(shared.getTime()) && shared <= now ? shared : now;
+}
+
+/**
+ * Search yields
+ * Logs every search attempt and keeps the term and era yields of the last
+ * YIELD_LOOKBACK_DAYS loaded into yieldBandit, which biases the next picks.
+ * Yields are reloaded at most every YIELD_REFRESH_MS; in between, new attempts
+ * are counted in memory as they are recorded.
+ * Seeded searches instead pick with a snapshot of the yields as of a moment
+ * (see getSnapshot), which the attempt log can rebuild for a replay.
+ */
+export const searchYields = {
+  loadedAt: 0,
+  
+  /**
+   * Load the yields of every search type, unless they were loaded recently
+   * Without a database, picks stay uniform apart from this process's own attempts
+   */
+  load: async (): Promise<void> => {
+    if (Date.now() - searchYields.loadedAt < YIELD_REFRESH_MS) return;
+    
+    try {
+      await ensureDatabase();
+      const since = subDays(new Date(), YIELD_LOOKBACK_DAYS);
+      for (const strategy of getSearchStrategies()) {
+        setSearchYields(strategy.id, await SearchAttemptModel.getYields(strategy.id, since));
+      }
+      logger.debug('searchYields: Loaded yields');
+    } catch (error) {
+      logger.warn('searchYields: Could not load yields', error);
+    }
+    searchYields.loadedAt = Date.now();
+  },
+  
+  /**
+   * Get a search type's yields from the attempts logged before a moment
+   * The log only grows, so the same moment always gives the same snapshot.
+   * Without a database the snapshot is empty (picks as if nothing was learned).
+   */
+  getSnapshot: async (searchType: SearchType, asOf: Date): Promise<SearchYields> => {
+    try {
+      await ensureDatabase();
+      return await SearchAttemptModel.getYields(searchType, subDays(asOf, YIELD_LOOKBACK_DAYS), asOf);
+    } catch (error) {
+      logger.warn('searchYields: Could not load a yield snapshot', error);
+      return { terms: [], eras: [] };
+    }
+  },
+  
+  /**
+   * Learn from a search attempt and log it; a failed log never fails the search
+   */
+  record: async (attempt: SearchAttempt): Promise<void> => {
+    recordYield(attempt.searchType, attempt.query, attempt.window, attempt.viewStats.underTenViews > 0);
+    
+    try {
+      await ensureDatabase();
+      await SearchAttemptModel.record(attempt);
+    } catch (error) {
+      logger.warn('searchYields: Could not record attempt', error);
+    }
+  }
+};
@@ -0,0 +1,58 @@
+import { Video, RaritySettings, SiblingSearchResult } from '@/types';
+import { SIBLING_WINDOW_MINUTES } from './constants';
+import { ApiError } from './api';
+import { createTimeWindow, clampTimeWindow } from './utils';
+import { filterRareVideos, getViewStats } from './youtubeFilters';
+import { getVideoProviderId } from './videoProviders';
+import { getVideoProviderService } from './videoProviderServices';
+import logger from './logger';
+
+/**
+ * Find a video's siblings: other rare uploads of its channel from a tight window
+ * around its upload time, closest in time first
+ * Videos without a channel (found or saved before channels were kept) are looked
+ * up first. The rarity filter runs without a search type's post-filter, since
+ * siblings aren't tied to one.
+ */
+export async function findSiblings(
+  video: Video,
+  rarity?: RaritySettings,
+  signal?: AbortSignal
+): Promise<SiblingSearchResult> {
+  const provider = getVideoProviderService(getVideoProviderId(video));
+  
+  let source = video;
+  if (!source.channelId) {
+    const [details] = await provider.getVideoDetails([video.id], signal);
+    if (!details) {
+      throw new ApiError('Video not found', 404);
+    }
+    source = { ...video, ...details };
+  }
+  if (!source.channelId) {
+    throw new ApiError('The video\'s channel is unknown', 404);
+  }
+  
+  const publishedAt = new Date(source.publishedAt);
+  const window = clampTimeWindow(createTimeWindow(publishedAt, SIBLING_WINDOW_MINUTES));
+  const videoIds = (await provider.searchChannelWindow(source.channelId, window, undefined, signal))
+    .filter(id => id !== source.id);
+  const videos = videoIds.length > 0 ? await provider.getVideoDetails(videoIds, signal) : [];
+  
+  const { videos: rareVideos, rejections } = filterRareVideos(videos, rarity);
+  logger.debug('siblingSearch: Found siblings', {
+    videoId: source.id,
+    channelId: source.channelId,
+    found: videos.length,
+    rare: rareVideos.length
+  });
+  
+  const distance = (sibling: Video) => Math.abs(new Date(sibling.publishedAt).getTime() - publishedAt.getTime());
+  return {
+    source,
+    window,
+    videos: [...rareVideos].sort((a, b) => distance(a) - distance(b)),
+    rejections,
+    viewStats: getViewStats(videos)
+  };
+}
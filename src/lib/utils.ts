@@ -1,6 +1,7 @@
 import { format, addMinutes, subMinutes, subDays } from 'date-fns';
 import { TimeWindow } from '@/types';
-import { YOUTUBE_FOUNDING_DATE } from './constants';
+import { YOUTUBE_FOUNDING_DATE, INITIAL_WINDOW_MINUTES } from './constants';
+import { RandomSource } from './random';
 
 // Format date for display
 export function formatDate(date: string): string {
@@ -11,16 +12,28 @@ export function formatDate(date: string): string {
   });
 }
 
-// Format duration from ISO 8601 format (PT1H30M15S) to readable format (1:30:15)
-export function formatDuration(isoDuration: string | undefined): string {
-  if (!isoDuration) return 'Unknown';
+// Parse an ISO 8601 duration (PT1H30M15S) into seconds (5415)
+// Returns undefined for a missing or unparseable duration (e.g. a livestream's P0D)
+export function parseDuration(isoDuration: string | undefined): number | undefined {
+  if (!isoDuration) return undefined;
   
   const match = isoDuration.match(/PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?/);
-  if (!match) return 'Unknown';
+  if (!match) return undefined;
   
   const hours = parseInt(match[1] || '0', 10);
   const minutes = parseInt(match[2] || '0', 10);
   const seconds = parseInt(match[3] || '0', 10);
+  return hours * 3600 + minutes * 60 + seconds;
+}
+
+// Format duration from ISO 8601 format (PT1H30M15S) to readable format (1:30:15)
+export function formatDuration(isoDuration: string | undefined): string {
+  const totalSeconds = parseDuration(isoDuration);
+  if (totalSeconds === undefined) return 'Unknown';
+  
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
   
   if (hours > 0) {
     return `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
@@ -30,15 +43,30 @@ export function formatDuration(isoDuration: string | undefined): string {
 }
 
 // Get a random date between YouTube's founding and today
-export function getRandomPastDate(): Date {
-  const end = subDays(new Date(), 1); // Yesterday
-  const randomTimestamp = YOUTUBE_FOUNDING_DATE.getTime() + Math.random() * (end.getTime() - YOUTUBE_FOUNDING_DATE.getTime());
-  return new Date(randomTimestamp);
+// Pass a seeded random source to make the choice reproducible
+export function getRandomPastDate(random: RandomSource = Math.random): Date {
+  return getRandomDateBetween(YOUTUBE_FOUNDING_DATE, subDays(new Date(), 1), random); // Up to yesterday
+}
+
+// Get a random date between two dates
+export function getRandomDateBetween(start: Date, end: Date, random: RandomSource = Math.random): Date {
+  return new Date(start.getTime() + random() * (end.getTime() - start.getTime()));
+}
+
+// Describe a window's length, e.g. "96-hour", "12-day" or "45-minute"
+export function formatWindowDuration(durationMinutes: number): string {
+  const minutes = Math.round(durationMinutes);
+  if (minutes < 60) return `${minutes}-minute`;
+  
+  const hours = Math.round(minutes / 60);
+  // Whole days read better past four days; shorter windows keep their hours
+  if (hours > 96 && hours % 24 === 0) return `${hours / 24}-day`;
+  return `${hours}-hour`;
 }
 
 // Format a time window for display
 export function formatTimeWindow(window: TimeWindow): string {
-  return `96-hour period starting ${format(window.startDate, 'MMM d, yyyy h:mm a')}`;
+  return `${formatWindowDuration(window.durationMinutes)} period starting ${format(window.startDate, 'MMM d, yyyy h:mm a')}`;
 }
 
 // Get center time from a window
@@ -56,13 +84,75 @@ export function createTimeWindow(centerTime: Date, durationMinutes: number): Tim
   };
 }
 
-// Create initial 96-hour time window
+// Rebuild a time window received as JSON (dates arrive as ISO strings)
+export function parseTimeWindow(raw: any): TimeWindow | null {
+  if (!raw || !raw.startDate || !raw.endDate) return null;
+  
+  const startDate = new Date(raw.startDate);
+  const endDate = new Date(raw.endDate);
+  if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) return null;
+  
+  return {
+    startDate,
+    endDate,
+    durationMinutes: Number(raw.durationMinutes) || (endDate.getTime() - startDate.getTime()) / 60000
+  };
+}
+
+// Create initial time window (96 hours) for adaptive searching to start from
 export function createInitialTimeWindow(centerDate: Date): TimeWindow {
-  // Always use 96 hours (5760 minutes)
-  return createTimeWindow(centerDate, 5760);
+  return createTimeWindow(centerDate, INITIAL_WINDOW_MINUTES);
+}
+
+// Narrow a window to a randomly chosen half of itself
+export function subdivideTimeWindow(window: TimeWindow, random: RandomSource = Math.random): TimeWindow {
+  const halfDuration = window.durationMinutes / 2;
+  const offset = (random() < 0.5 ? -1 : 1) * (halfDuration / 2);
+  return createTimeWindow(addMinutes(getWindowCenter(window), offset), halfDuration);
+}
+
+// Widen a window to twice its length around the same center
+export function widenTimeWindow(window: TimeWindow): TimeWindow {
+  return createTimeWindow(getWindowCenter(window), window.durationMinutes * 2);
+}
+
+// Create a larger time window for unedited content (2x the original)
+export function getLargeTimeWindow(baseWindow: TimeWindow): TimeWindow {
+  return widenTimeWindow(baseWindow);
+}
+
+// Clamp a window to YouTube's lifetime (founding date until now)
+export function clampTimeWindow(window: TimeWindow): TimeWindow {
+  const now = new Date();
+  const startDate = window.startDate < YOUTUBE_FOUNDING_DATE ? new Date(YOUTUBE_FOUNDING_DATE) : window.startDate;
+  const endDate = window.endDate > now ? now : window.endDate;
+  
+  return {
+    startDate,
+    endDate,
+    durationMinutes: (endDate.getTime() - startDate.getTime()) / 60000
+  };
 }
 
 // Add delay (useful for UI updates)
-export function delay(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+// Rejects early if the signal is aborted, so cancelled work doesn't sit out the wait
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Delay cancelled'));
+      return;
+    }
+    
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    
+    function onAbort() {
+      clearTimeout(timer);
+      reject(new Error('Delay cancelled'));
+    }
+    
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
\ No newline at end of file
@@ -1,4 +1,6 @@
-import { Video, SavedVideo } from '@/types';
+import { Video, SavedVideo, VideoProviderId, VideoAvailability, ViewSnapshot } from '@/types';
+import { parseDuration } from './utils';
+import { getVideoProviderId } from './videoProviders';
 
 /**
  * Adapts a SavedVideo to the Video interface format
@@ -7,6 +9,7 @@ import { Video, SavedVideo } from '@/types';
 export function adaptSavedVideoToVideo(savedVideo: SavedVideo): Video {
   return {
     id: savedVideo.video_id,
+    provider: getVideoProviderId(savedVideo),
     title: savedVideo.title,
     description: savedVideo.description,
     thumbnailUrl: savedVideo.thumbnailUrl,
@@ -14,7 +17,29 @@ export function adaptSavedVideoToVideo(savedVideo: SavedVideo): Video {
     // Use view count at discovery for saved videos
     viewCount: savedVideo.view_count_at_discovery || 0,
     channelTitle: savedVideo.channelTitle,
+    channelId: savedVideo.channelId || undefined,
     duration: savedVideo.duration,
+    durationSeconds: parseDuration(savedVideo.duration),
+    availability: savedVideo.availability || undefined,
+  };
+}
+
+/**
+ * Summarize a saved video's view history for display
+ * The series starts with the count at discovery; a video is still untouched while
+ * its refreshed views haven't risen past that count (unknown until first refreshed)
+ */
+export function getViewTrend(viewCountAtDiscovery: number, history: ViewSnapshot[] = []): {
+  counts: number[];
+  currentViews: number | null;
+  isUntouched: boolean;
+} {
+  const currentViews = history.length > 0 ? history[history.length - 1].viewCount : null;
+  
+  return {
+    counts: [viewCountAtDiscovery, ...history.map(snapshot => snapshot.viewCount)],
+    currentViews,
+    isUntouched: currentViews !== null && currentViews <= viewCountAtDiscovery
   };
 }
 
@@ -30,14 +55,17 @@ export function isSavedVideo(video: Video | SavedVideo): video is SavedVideo {
  * Handles data transformation and validation
  */
 export function prepareVideoForSaving(video: Video): {
+  provider: VideoProviderId;
   video_id: string;
   title: string;
   description: string;
   thumbnail_url: string;
   channel_title: string;
+  channel_id: string | null;
   published_at: string;
   view_count_at_discovery: number;
   duration: string | null;
+  availability: VideoAvailability | null;
 } {
   // Format the publishedAt date for MySQL
   const publishedAt = new Date(video.publishedAt).toISOString().slice(0, 19).replace('T', ' ');
@@ -46,13 +74,16 @@ export function prepareVideoForSaving(video: Video): {
   const thumbnailUrl = video.thumbnailUrl ? video.thumbnailUrl.replace(/^http:/, 'https:') : '';
   
   return {
+    provider: getVideoProviderId(video),
     video_id: video.id,
     title: video.title,
     description: video.description,
     thumbnail_url: thumbnailUrl,
     channel_title: video.channelTitle,
+    channel_id: video.channelId || null,
     published_at: publishedAt,
     view_count_at_discovery: video.viewCount || 0,
-    duration: video.duration || null
+    duration: video.duration || null,
+    availability: video.availability || null
   };
 }
\ No newline at end of file
@@ -0,0 +1,53 @@
+import { SavedVideo, VideoAvailability, UnavailableVideoMode } from '@/types';
+
+/**
+ * Badge text for each availability (available videos get no badge)
+ */
+export const AVAILABILITY_LABELS: Record<VideoAvailability, string> = {
+  available: 'Available',
+  deleted: 'Deleted',
+  private: 'Private',
+  regionBlocked: 'Blocked in your region',
+  notEmbeddable: 'Can\'t be embedded'
+};
+
+/**
+ * Options of the saved grid's unavailable videos select
+ */
+export const UNAVAILABLE_VIDEO_MODES: { id: UnavailableVideoMode; label: string }[] = [
+  { id: 'flag', label: 'Flag unavailable' },
+  { id: 'sortLast', label: 'Unavailable last' },
+  { id: 'hide', label: 'Hide unavailable' }
+];
+
+/**
+ * Check that a value is a known availability (e.g. from a request body)
+ */
+export function isVideoAvailability(value: unknown): value is VideoAvailability {
+  return typeof value === 'string' && Object.keys(AVAILABILITY_LABELS).includes(value);
+}
+
+/**
+ * Whether a video is known to be unwatchable in the app
+ * Videos that haven't been checked yet count as available
+ */
+export function isUnavailable(availability?: VideoAvailability | null): boolean {
+  return !!availability && availability !== 'available';
+}
+
+/**
+ * Arrange saved videos for the grid according to how unavailable ones are treated
+ * Sorting keeps the original order within the available and unavailable groups
+ */
+export function arrangeByAvailability(videos: SavedVideo[], mode: UnavailableVideoMode): SavedVideo[] {
+  if (mode === 'hide') {
+    return videos.filter(video => !isUnavailable(video.availability));
+  }
+  if (mode === 'sortLast') {
+    return [
+      ...videos.filter(video => !isUnavailable(video.availability)),
+      ...videos.filter(video => isUnavailable(video.availability))
+    ];
+  }
+  return videos;
+}
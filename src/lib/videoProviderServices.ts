@@ -0,0 +1,27 @@
+import { VideoProviderId } from '@/types';
+import { ApiError } from './api';
+import { VideoProviderService } from './videoProviderTypes';
+import { getVideoProvider } from './videoProviders';
+import { youtubeProviderService } from './youtubeService';
+
+/**
+ * Server-side services of the providers that can be searched
+ * Providers without one (Vimeo, Dailymotion, Internet Archive for now) can still
+ * have their videos saved and played; adding a platform means implementing
+ * VideoProviderService for it and registering it here.
+ */
+const PROVIDER_SERVICES: Partial<Record<VideoProviderId, VideoProviderService>> = {
+  youtube: youtubeProviderService
+};
+
+/**
+ * Get the service that searches a provider
+ * Throws a 400 ApiError for providers that can't be searched yet
+ */
+export function getVideoProviderService(provider: VideoProviderId): VideoProviderService {
+  const service = PROVIDER_SERVICES[provider];
+  if (!service) {
+    throw new ApiError(`Searching ${getVideoProvider(provider).label} is not supported yet`, 400);
+  }
+  return service;
+}
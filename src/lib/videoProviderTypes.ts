@@ -0,0 +1,34 @@
+import { Video, TimeWindow, SearchType, VideoProviderId } from '@/types';
+import { RandomSource } from './random';
+
+/**
+ * Result of an adaptive window search, with the window actually searched and its query
+ */
+export interface WindowSearchResult {
+  videoIds: string[];
+  window: TimeWindow;
+  query?: string;
+}
+
+/**
+ * Server-side half of a video platform: finding uploads (by window, or a channel's
+ * uploads in a window) and fetching their details
+ * Embedding and linking are client-safe and live in videoProviders.
+ */
+export interface VideoProviderService {
+  readonly provider: VideoProviderId;
+  searchAdaptiveWindow(
+    window: TimeWindow, 
+    searchType?: SearchType, 
+    maxPages?: number, 
+    signal?: AbortSignal, 
+    random?: RandomSource
+  ): Promise<WindowSearchResult>;
+  searchChannelWindow(
+    channelId: string,
+    window: TimeWindow,
+    maxPages?: number,
+    signal?: AbortSignal
+  ): Promise<string[]>;
+  getVideoDetails(videoIds: string[], signal?: AbortSignal): Promise<Video[]>;
+}
@@ -0,0 +1,76 @@
+import { Video, VideoProviderId } from '@/types';
+
+/**
+ * A platform videos can be played from
+ * Only covers what the browser needs (embedding and linking); searching and
+ * fetching details is server-side (see videoProviderServices).
+ */
+export interface VideoProvider {
+  /** Identifier stored with saved videos */
+  id: VideoProviderId;
+  /** Platform name shown in the UI */
+  label: string;
+  /** URL of the platform's embeddable player for a video */
+  getEmbedUrl: (videoId: string, autoplay: boolean) => string;
+  /** URL of the video's page on the platform */
+  getPermalink: (videoId: string) => string;
+}
+
+export const DEFAULT_VIDEO_PROVIDER: VideoProviderId = 'youtube';
+
+/**
+ * Video provider registry
+ * Ids are used as given by each platform, so they go into URLs encoded.
+ */
+export const VIDEO_PROVIDERS: VideoProvider[] = [
+  {
+    id: 'youtube',
+    label: 'YouTube',
+    getEmbedUrl: (videoId, autoplay) =>
+      `https://www.youtube.com/embed/${encodeURIComponent(videoId)}?${autoplay ? 'autoplay=1&' : ''}rel=0`,
+    getPermalink: (videoId) => `https://www.youtube.com/watch?v=${encodeURIComponent(videoId)}`
+  },
+  {
+    id: 'vimeo',
+    label: 'Vimeo',
+    getEmbedUrl: (videoId, autoplay) =>
+      `https://player.vimeo.com/video/${encodeURIComponent(videoId)}${autoplay ? '?autoplay=1' : ''}`,
+    getPermalink: (videoId) => `https://vimeo.com/${encodeURIComponent(videoId)}`
+  },
+  {
+    id: 'dailymotion',
+    label: 'Dailymotion',
+    getEmbedUrl: (videoId, autoplay) =>
+      `https://www.dailymotion.com/embed/video/${encodeURIComponent(videoId)}${autoplay ? '?autoplay=1' : ''}`,
+    getPermalink: (videoId) => `https://www.dailymotion.com/video/${encodeURIComponent(videoId)}`
+  },
+  {
+    id: 'archive',
+    label: 'Internet Archive',
+    getEmbedUrl: (videoId, autoplay) =>
+      `https://archive.org/embed/${encodeURIComponent(videoId)}${autoplay ? '?autoplay=1' : ''}`,
+    getPermalink: (videoId) => `https://archive.org/details/${encodeURIComponent(videoId)}`
+  }
+];
+
+/**
+ * Whether a value is the id of a registered provider
+ */
+export function isVideoProviderId(value: unknown): value is VideoProviderId {
+  return VIDEO_PROVIDERS.some(provider => provider.id === value);
+}
+
+/**
+ * Look up a provider by id, falling back to YouTube for missing or unknown ids
+ */
+export function getVideoProvider(id?: string | null): VideoProvider {
+  return VIDEO_PROVIDERS.find(provider => provider.id === id) ||
+    VIDEO_PROVIDERS.find(provider => provider.id === DEFAULT_VIDEO_PROVIDER)!;
+}
+
+/**
+ * Provider of a video (videos saved before providers existed are YouTube videos)
+ */
+export function getVideoProviderId(video: Pick<Video, 'provider'>): VideoProviderId {
+  return video.provider || DEFAULT_VIDEO_PROVIDER;
+}
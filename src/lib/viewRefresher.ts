@@ -0,0 +1,143 @@
+import { ViewRefresherStatus, VideoAvailability } from '@/types';
+import {
+  VIEW_REFRESHER_ENABLED,
+  VIEW_REFRESH_INTERVAL_MS,
+  HARVEST_QUOTA_FLOOR_UNITS,
+  MAX_BATCH_SIZE
+} from './constants';
+import { ensureDatabase } from './db';
+import { VideoModel } from './models/videoModel';
+import { ViewSnapshotModel } from './models/viewSnapshotModel';
+import { getFreshVideoDetails } from './youtubeService';
+import { probeMissingVideo } from './youtubeVideoDetails';
+import { isUnavailable } from './videoAvailability';
+import { quotaLedger, QUOTA_COSTS } from './youtubeQuota';
+import logger from './logger';
+
+/**
+ * Background view refresher
+ * Re-fetches the statistics of every saved YouTube video on a timer (one details
+ * call per 50 videos) and records their view counts as snapshots, so the saved
+ * grid can show what happened to each grail after it was found. The same call
+ * reports each video's status, so every run also checks availability: the status
+ * and contentDetails parts tell region-blocked and non-embeddable videos apart, and
+ * videos YouTube no longer returns (private or deleted) are probed over oEmbed. Runs are skipped
+ * when they would dig into the quota floor kept for live searches.
+ */
+export const viewRefresher = {
+  timer: null as ReturnType<typeof setInterval> | null,
+  isRefreshing: false,
+  runs: 0,
+  refreshed: 0,
+  unavailable: 0,
+  lastRunAt: null as Date | null,
+  lastError: null as string | null,
+  
+  /**
+   * Start refreshing on an interval (no-op if already started)
+   */
+  start: (): void => {
+    if (viewRefresher.timer) return;
+    
+    logger.info('viewRefresher: Starting', { intervalMs: VIEW_REFRESH_INTERVAL_MS });
+    viewRefresher.timer = setInterval(() => {
+      viewRefresher.runOnce().catch(() => {});
+    }, VIEW_REFRESH_INTERVAL_MS);
+    viewRefresher.runOnce().catch(() => {});
+  },
+  
+  /**
+   * Stop refreshing after the current run
+   */
+  stop: (): void => {
+    if (!viewRefresher.timer) return;
+    
+    clearInterval(viewRefresher.timer);
+    viewRefresher.timer = null;
+    logger.info('viewRefresher: Stopped');
+  },
+  
+  /**
+   * Refresh every saved video once, returning how many snapshots were recorded
+   */
+  runOnce: async (): Promise<number> => {
+    // Never run two refreshes at once
+    if (viewRefresher.isRefreshing) return 0;
+    viewRefresher.isRefreshing = true;
+    
+    try {
+      await ensureDatabase();
+      await quotaLedger.load();
+      
+      const videoIds = await VideoModel.getVideoIds('youtube');
+      const cost = QUOTA_COSTS.videos * Math.ceil(videoIds.length / MAX_BATCH_SIZE);
+      if (quotaLedger.remaining() - cost < HARVEST_QUOTA_FLOOR_UNITS) {
+        logger.debug('viewRefresher: Skipping run, quota is down to the live-search floor', {
+          remaining: quotaLedger.remaining()
+        });
+        return 0;
+      }
+      
+      const videos = await getFreshVideoDetails(videoIds);
+      const recorded = await ViewSnapshotModel.recordMany(
+        'youtube',
+        videos.map(video => ({ videoId: video.id, viewCount: video.viewCount }))
+      );
+      
+      const availabilities: Record<string, VideoAvailability> = {};
+      videos.forEach(video => {
+        availabilities[video.id] = video.availability || 'available';
+      });
+      // Missing videos are private or deleted; ones the probe can't place keep their last state
+      for (const videoId of videoIds.filter(id => !availabilities[id])) {
+        const availability = await probeMissingVideo(videoId);
+        if (availability) {
+          availabilities[videoId] = availability;
+        }
+      }
+      await VideoModel.updateAvailability('youtube', availabilities);
+      
+      viewRefresher.runs++;
+      viewRefresher.refreshed += recorded;
+      viewRefresher.unavailable = Object.values(availabilities).filter(isUnavailable).length;
+      viewRefresher.lastError = null;
+      logger.info('viewRefresher: Run complete', {
+        saved: videoIds.length,
+        recorded,
+        unavailable: viewRefresher.unavailable
+      });
+      return recorded;
+    } catch (error) {
+      viewRefresher.lastError = error instanceof Error ? error.message : String(error);
+      logger.warn('viewRefresher: Run failed', error);
+      throw error;
+    } finally {
+      viewRefresher.lastRunAt = new Date();
+      viewRefresher.isRefreshing = false;
+    }
+  },
+  
+  /**
+   * Snapshot of refresher activity for the API
+   */
+  getStatus: (): ViewRefresherStatus => {
+    return {
+      enabled: viewRefresher.timer !== null,
+      isRefreshing: viewRefresher.isRefreshing,
+      runs: viewRefresher.runs,
+      refreshed: viewRefresher.refreshed,
+      unavailable: viewRefresher.unavailable,
+      lastRunAt: viewRefresher.lastRunAt ? viewRefresher.lastRunAt.toISOString() : null,
+      lastError: viewRefresher.lastError
+    };
+  }
+};
+
+/**
+ * Start the view refresher if VIEW_REFRESHER_ENABLED is set
+ */
+export function startViewRefresherIfEnabled(): void {
+  if (VIEW_REFRESHER_ENABLED) {
+    viewRefresher.start();
+  }
+}
@@ -0,0 +1,168 @@
+import { SearchType, SearchYields, ArmYield, WeightedTerm, TimeWindow, DateSampling } from '@/types';
+import { BANDIT_EXPLORATION_RATE } from './constants';
+import { getRandomDateBetween, getWindowCenter } from './utils';
+import { pickWeightedTerm } from './searchTerms';
+import { getDateSegments, DEFAULT_DATE_SAMPLING } from './dateSamplers';
+import { RandomSource, isSeededRandom } from './random';
+
+/**
+ * Yield-learning selection of search terms and eras (upload years)
+ * A multi-armed bandit: every term and era is an arm, and an attempt is a success
+ * when its window turned up a video under 10 views. Most picks favour arms in
+ * proportion to their smoothed success rate, so untried arms start out looking
+ * promising; the rest (BANDIT_EXPLORATION_RATE) ignore yields altogether.
+ * Yields are loaded on the server (see searchYields); without any, terms follow
+ * their dictionary weights and dates their date sampler.
+ * Yields change after every attempt, but a seed has to replay the same hunt, so
+ * picks drawn from a seeded random source use a snapshot of the yields bound to
+ * that source (see bindYieldSnapshot) instead of the live table. Searches record
+ * the moment their snapshot was taken, and a replay rebuilds the same snapshot.
+ */
+
+interface ArmTable {
+  terms: Map<string, ArmYield>;
+  eras: Map<string, ArmYield>;
+}
+
+// Learned yields per search type
+const yieldTables = new Map<SearchType, ArmTable>();
+
+// Yield snapshots that seeded random sources pick with
+const yieldSnapshots = new WeakMap<RandomSource, ArmTable>();
+
+/**
+ * Build a yield table from yields
+ */
+function toArmTable(yields: SearchYields): ArmTable {
+  return {
+    terms: new Map(yields.terms.map(arm => [arm.key, arm])),
+    eras: new Map(yields.eras.map(arm => [arm.key, arm]))
+  };
+}
+
+/**
+ * Get (creating if needed) a search type's yield table
+ */
+function getYieldTable(searchType: SearchType): ArmTable {
+  let table = yieldTables.get(searchType);
+  if (!table) {
+    table = { terms: new Map(), eras: new Map() };
+    yieldTables.set(searchType, table);
+  }
+  return table;
+}
+
+/**
+ * Add an attempt's outcome to an arm
+ */
+function addOutcome(arms: Map<string, ArmYield>, key: string, success: boolean): void {
+  const arm = arms.get(key) || { key, attempts: 0, successes: 0 };
+  arms.set(key, {
+    key,
+    attempts: arm.attempts + 1,
+    successes: arm.successes + (success ? 1 : 0)
+  });
+}
+
+/**
+ * Replace the learned yields of a search type
+ */
+export function setSearchYields(searchType: SearchType, yields: SearchYields): void {
+  yieldTables.set(searchType, toArmTable(yields));
+}
+
+/**
+ * Make a seeded random source pick with a fixed snapshot of yields
+ * Without a snapshot, a seeded source picks as if nothing had been learned.
+ */
+export function bindYieldSnapshot(random: RandomSource, yields: SearchYields): void {
+  yieldSnapshots.set(random, toArmTable(yields));
+}
+
+/**
+ * Get the learned yields of a search type, best first
+ */
+export function getSearchYields(searchType: SearchType): SearchYields {
+  const table = getYieldTable(searchType);
+  const byScore = (a: ArmYield, b: ArmYield) => getYieldScore(b) - getYieldScore(a);
+  return {
+    terms: Array.from(table.terms.values()).sort(byScore),
+    eras: Array.from(table.eras.values()).sort(byScore)
+  };
+}
+
+/**
+ * Count an attempt towards its term and era right away, ahead of the next reload
+ */
+export function recordYield(searchType: SearchType, query: string | null, window: TimeWindow, success: boolean): void {
+  const table = getYieldTable(searchType);
+  if (query) addOutcome(table.terms, query, success);
+  addOutcome(table.eras, getEra(window), success);
+}
+
+/**
+ * Smoothed success rate of an arm (Laplace's rule), 0.5 for one never tried
+ */
+export function getYieldScore(arm?: ArmYield): number {
+  return arm ? (arm.successes + 1) / (arm.attempts + 2) : 0.5;
+}
+
+/**
+ * Era (upload year) that a window belongs to, e.g. "2009"
+ */
+export function getEra(window: TimeWindow): string {
+  return String(getWindowCenter(window).getFullYear());
+}
+
+/**
+ * Scale each option's weight by its arm's score
+ */
+function weightByYield(options: WeightedTerm[], arms: Map<string, ArmYield>): WeightedTerm[] {
+  return options.map(({ term, weight }) => ({ term, weight: weight * getYieldScore(arms.get(term)) }));
+}
+
+/**
+ * Get the yields a random source picks with: its snapshot when it is seeded
+ * (none bound: nothing learned), the live table otherwise
+ */
+function getPickingTable(searchType: SearchType, random: RandomSource): ArmTable {
+  if (!isSeededRandom(random)) return getYieldTable(searchType);
+  return yieldSnapshots.get(random) || { terms: new Map(), eras: new Map() };
+}
+
+/**
+ * Pick an option, exploring at random or favouring high-yield arms
+ */
+function pickArm(options: WeightedTerm[], arms: Map<string, ArmYield>, random: RandomSource): string {
+  const explore = random() < BANDIT_EXPLORATION_RATE;
+  return pickWeightedTerm(explore ? options : weightByYield(options, arms), random);
+}
+
+/**
+ * Pick a search term for a search type, biased towards terms that have yielded rare videos
+ * (as of the random source's snapshot, if it is seeded)
+ */
+export function pickSearchTerm(searchType: SearchType, terms: WeightedTerm[], random: RandomSource = Math.random): string {
+  return pickArm(terms, getPickingTable(searchType, random).terms, random);
+}
+
+/**
+ * Pick a date to search around, biased towards eras that have yielded rare videos
+ * (as of the random source's snapshot, if it is seeded)
+ * The date sampler decides which days are possible and how likely each era is
+ * to begin with; yields only shift the odds between its eras.
+ */
+export function pickSearchDate(
+  searchType: SearchType,
+  sampling: DateSampling = DEFAULT_DATE_SAMPLING,
+  random: RandomSource = Math.random
+): Date {
+  const segments = getDateSegments(sampling);
+  const pickedEra = pickArm(
+    segments.map(({ era, weight }) => ({ term: era, weight })),
+    getPickingTable(searchType, random).eras,
+    random
+  );
+  const segment = segments.find(({ era }) => era === pickedEra) || segments[0];
+  return getRandomDateBetween(segment.start, segment.end, random);
+}
@@ -6,7 +6,9 @@
 // Import from service
 import { 
   searchVideosInTimeWindow as search,
+  searchAdaptiveWindow as adaptiveSearch,
   getVideoDetails as details,
+  getVideoCategories as categories,
   filterRareVideos as filter,
   getViewStats as stats
 } from './youtubeService';
@@ -14,7 +16,8 @@ import {
 // Import from types
 import { 
   YouTubeRateLimitError as RateLimitError,
-  apiStats as statsObject,
+  createApiStats as newApiStats,
+  trackApiStats as trackStats,
   YouTubeServiceInterface
 } from './youtubeTypes';
 
@@ -22,8 +25,11 @@ import { TimeWindow, SearchType } from '@/types';
 
 // Re-export everything with consistent naming
 export const searchVideosInTimeWindow = search;
+export const searchAdaptiveWindow = adaptiveSearch;
 export const getVideoDetails = details;
+export const getVideoCategories = categories;
 export const filterRareVideos = filter;
 export const getViewStats = stats;
-export const apiStats = statsObject;
+export const createApiStats = newApiStats;
+export const trackApiStats = trackStats;
 export const YouTubeRateLimitError = RateLimitError;
\ No newline at end of file
@@ -0,0 +1,45 @@
+import { VideoCategory } from '@/types';
+import { youtubeHttp } from './youtubeHttp';
+import { countApiStat } from './youtubeTypes';
+import { withRetry } from './youtubeError';
+import { quotaLedger } from './youtubeQuota';
+
+/**
+ * Fetch the video categories YouTube offers in a region
+ */
+export async function fetchVideoCategories(
+  apiKey: string,
+  regionCode: string,
+  signal?: AbortSignal
+): Promise<any[]> {
+  // Retries are real calls, so each attempt is counted and charged
+  const response = await withRetry(() => {
+    countApiStat('totalApiCalls');
+    quotaLedger.record('videoCategories', apiKey);
+    
+    return youtubeHttp.get('/videoCategories', {
+      params: {
+        part: 'snippet',
+        regionCode,
+        hl: 'en',
+        key: apiKey,
+      },
+      signal,
+    });
+  }, 'fetching video categories', signal);
+  
+  return response.data.items || [];
+}
+
+/**
+ * Parse YouTube API response into VideoCategory objects, sorted by title
+ */
+export function parseVideoCategories(items: any[]): VideoCategory[] {
+  return items
+    .map(item => ({
+      id: String(item.id),
+      title: item.snippet?.title || `Category ${item.id}`,
+      assignable: item.snippet?.assignable !== false
+    }))
+    .sort((a, b) => a.title.localeCompare(b.title));
+}
@@ -0,0 +1,164 @@
+import axios, { AxiosError, AxiosResponse } from 'axios';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { classifyApiError, withRetry } from './youtubeError';
+import {
+  YouTubeBadRequestError,
+  YouTubeInvalidKeyError,
+  YouTubeQuotaExceededError,
+  YouTubeRateLimitError,
+  YouTubeTransientError,
+  SearchCancelledError
+} from './youtubeTypes';
+import { fakeYouTubeAdapter, FakeYouTubeScenario } from './fakeYouTubeApi';
+import { RETRY_MAX_ATTEMPTS } from './constants';
+
+const http = axios.create({ adapter: fakeYouTubeAdapter });
+
+/**
+ * Make a call to the fake YouTube API under a scenario
+ */
+function callFakeApi(scenario: FakeYouTubeScenario, endpoint: string = '/videos', signal?: AbortSignal): Promise<AxiosResponse> {
+  process.env.YOUTUBE_FAKE_SCENARIO = scenario;
+  return http.get(endpoint, { params: { part: 'statistics', id: 'abc', key: 'test-key' }, signal });
+}
+
+/**
+ * Get the error the fake YouTube API fails a call with under a scenario
+ */
+async function getFakeApiError(scenario: FakeYouTubeScenario, endpoint?: string): Promise<AxiosError> {
+  try {
+    await callFakeApi(scenario, endpoint);
+  } catch (error) {
+    return error as AxiosError;
+  }
+  throw new Error(`The ${scenario} scenario did not fail`);
+}
+
+/**
+ * Build an error response with a YouTube error reason, for reasons no scenario produces
+ */
+function youtubeError(status: number, reason: string): AxiosError {
+  return new AxiosError('Request failed', AxiosError.ERR_BAD_REQUEST, undefined, {}, {
+    data: { error: { code: status, errors: [{ reason }] } },
+    status,
+    statusText: String(status),
+    headers: {},
+    config: {} as any
+  });
+}
+
+beforeEach(() => {
+  // Scenarios that fail some calls fail every call, and retries don't wait
+  vi.spyOn(Math, 'random').mockReturnValue(0);
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  delete process.env.YOUTUBE_FAKE_SCENARIO;
+});
+
+describe('classifyApiError', () => {
+  it('classifies the fake API\'s failure scenarios', async () => {
+    expect(classifyApiError(await getFakeApiError('flaky'), 'test')).toBeInstanceOf(YouTubeTransientError);
+    expect(classifyApiError(await getFakeApiError('invalidKey'), 'test')).toBeInstanceOf(YouTubeInvalidKeyError);
+    
+    const rateLimited = classifyApiError(await getFakeApiError('rateLimited'), 'test');
+    expect(rateLimited).toBeInstanceOf(YouTubeRateLimitError);
+    expect(rateLimited).not.toBeInstanceOf(YouTubeQuotaExceededError);
+    
+    expect(classifyApiError(await getFakeApiError('normal', '/playlists'), 'test')).toBeInstanceOf(YouTubeBadRequestError);
+  });
+  
+  it('tells an exhausted daily quota from a short-term rate limit', () => {
+    expect(classifyApiError(youtubeError(403, 'quotaExceeded'), 'test')).toBeInstanceOf(YouTubeQuotaExceededError);
+    expect(classifyApiError(youtubeError(403, 'dailyLimitExceeded'), 'test')).toBeInstanceOf(YouTubeQuotaExceededError);
+    expect(classifyApiError(youtubeError(403, 'rateLimitExceeded'), 'test')).not.toBeInstanceOf(YouTubeQuotaExceededError);
+  });
+  
+  it('only blames the key for key-level reasons', () => {
+    expect(classifyApiError(youtubeError(400, 'keyInvalid'), 'test')).toBeInstanceOf(YouTubeInvalidKeyError);
+    expect(classifyApiError(youtubeError(403, 'ipRefererBlocked'), 'test')).toBeInstanceOf(YouTubeInvalidKeyError);
+    expect(classifyApiError(youtubeError(403, 'forbidden'), 'test')).toBeInstanceOf(YouTubeBadRequestError);
+  });
+  
+  it('treats server errors, network failures and non-HTTP errors as transient', () => {
+    expect(classifyApiError(youtubeError(500, 'backendError'), 'test')).toBeInstanceOf(YouTubeTransientError);
+    expect(classifyApiError(new AxiosError('timeout', AxiosError.ECONNABORTED), 'test')).toBeInstanceOf(YouTubeTransientError);
+    expect(classifyApiError(new Error('boom'), 'test')).toBeInstanceOf(YouTubeTransientError);
+  });
+  
+  it('passes classified errors through', () => {
+    const classified = new YouTubeInvalidKeyError('rejected');
+    expect(classifyApiError(classified, 'test')).toBe(classified);
+  });
+});
+
+describe('withRetry', () => {
+  it('retries transient failures until a call succeeds', async () => {
+    let calls = 0;
+    const response = await withRetry(() => {
+      calls++;
+      return callFakeApi(calls === 1 ? 'flaky' : 'normal');
+    }, 'test');
+    
+    expect(calls).toBe(2);
+    expect(response.status).toBe(200);
+  });
+  
+  it('gives up after the last attempt', async () => {
+    let calls = 0;
+    await expect(withRetry(() => {
+      calls++;
+      return callFakeApi('flaky');
+    }, 'test')).rejects.toBeInstanceOf(YouTubeTransientError);
+    expect(calls).toBe(RETRY_MAX_ATTEMPTS);
+  });
+  
+  it('waits out a rate limit before retrying', async () => {
+    let calls = 0;
+    const startedAt = Date.now();
+    await withRetry(() => {
+      calls++;
+      return callFakeApi(calls === 1 ? 'rateLimited' : 'normal');
+    }, 'test');
+    
+    expect(calls).toBe(2);
+    // The fake API asks for a one-second wait
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(1000);
+  });
+  
+  it('does not retry a rejected key', async () => {
+    let calls = 0;
+    await expect(withRetry(() => {
+      calls++;
+      return callFakeApi('invalidKey');
+    }, 'test')).rejects.toBeInstanceOf(YouTubeInvalidKeyError);
+    expect(calls).toBe(1);
+  });
+  
+  it('does not retry an exhausted daily quota', async () => {
+    let calls = 0;
+    await expect(withRetry(() => {
+      calls++;
+      return Promise.reject(youtubeError(403, 'quotaExceeded'));
+    }, 'test')).rejects.toBeInstanceOf(YouTubeQuotaExceededError);
+    expect(calls).toBe(1);
+  });
+  
+  it('stops when the call is cancelled', async () => {
+    const controller = new AbortController();
+    let calls = 0;
+    const retried = withRetry(() => {
+      calls++;
+      return callFakeApi('rateLimited', '/videos', controller.signal);
+    }, 'test', controller.signal);
+    
+    // Cancel during the wait before the retry
+    setTimeout(() => controller.abort(), 500);
+    
+    await expect(retried).rejects.toBeInstanceOf(SearchCancelledError);
+    expect(calls).toBe(1);
+  });
+});
@@ -1,5 +1,28 @@
-import { AxiosError } from 'axios';
-import { YouTubeRateLimitError } from './youtubeTypes';
+import axios, { AxiosError } from 'axios';
+import {
+  YouTubeApiError,
+  YouTubeRateLimitError,
+  YouTubeQuotaExceededError,
+  YouTubeTransientError,
+  YouTubeInvalidKeyError,
+  YouTubeBadRequestError,
+  SearchCancelledError
+} from './youtubeTypes';
+import { RETRY_MAX_ATTEMPTS, RETRY_BASE_DELAY_MS, RETRY_MAX_DELAY_MS } from './constants';
+import { delay } from './utils';
+import logger from './logger';
+
+// Error reasons YouTube reports for keys that can't be used
+// ('forbidden' is left out: it also comes back for single videos and resources a good key can't access)
+const INVALID_KEY_REASONS = ['keyInvalid', 'keyExpired', 'accessNotConfigured', 'ipRefererBlocked'];
+
+/**
+ * Get the first error reason from a YouTube API error response
+ */
+function getErrorReason(error: AxiosError): string | undefined {
+  const errorDetails = error.response?.data as any;
+  return errorDetails?.error?.errors?.[0]?.reason;
+}
 
 /**
  * Check if the API error is a rate limit error
@@ -11,29 +34,147 @@ export function isRateLimitError(error: AxiosError): boolean {
   const status = error.response.status;
   
   // Direct quota/rate limit errors
-  if (status === 403 && errorDetails.error?.errors?.some((e: any) => 
+  if (status === 403 && errorDetails.error?.errors?.some((e: any) =>
       e.reason === 'quotaExceeded' || e.reason === 'rateLimitExceeded')) {
     return true;
   }
   
   // Other potential rate limiting responses
-  return (status === 429 || status === 403);
+  return status === 429;
 }
 
 /**
- * Handle API errors consistently
+ * Check if the API error means the key's daily quota is used up
  */
-export function handleApiError(error: any, context: string): never | [] {
-  if (error.isAxiosError) {
-    const axiosError = error as AxiosError;
-    
-    if (isRateLimitError(axiosError)) {
-      console.error(`YouTube API rate limit reached during ${context}:`, axiosError.response?.data);
-      throw new YouTubeRateLimitError('YouTube API quota exceeded. Please try again later.');
-    }
+export function isQuotaExceededError(error: AxiosError): boolean {
+  const errorDetails = error.response?.data as any;
+  return error.response?.status === 403 && !!errorDetails?.error?.errors?.some((e: any) =>
+    e.reason === 'quotaExceeded' || e.reason === 'dailyLimitExceeded');
+}
+
+/**
+ * Classify an error from a YouTube API call into the error taxonomy
+ */
+export function classifyApiError(error: any, context: string): YouTubeApiError {
+  if (error instanceof YouTubeApiError) return error;
+  
+  if (!error?.isAxiosError) {
+    return new YouTubeTransientError(`Unexpected error during ${context}: ${error?.message || error}`);
+  }
+  
+  const axiosError = error as AxiosError;
+  const status = axiosError.response?.status;
+  const reason = getErrorReason(axiosError);
+  
+  // No response at all: network failure or timeout
+  if (!axiosError.response) {
+    return new YouTubeTransientError(`Could not reach YouTube during ${context}. Please try again.`);
+  }
+  
+  if (isQuotaExceededError(axiosError)) {
+    return new YouTubeQuotaExceededError('YouTube API quota exceeded. Please try again later.');
+  }
+  
+  if (isRateLimitError(axiosError)) {
+    return new YouTubeRateLimitError('YouTube API quota exceeded. Please try again later.');
+  }
+  
+  if ((status === 400 || status === 403) && reason && INVALID_KEY_REASONS.includes(reason)) {
+    return new YouTubeInvalidKeyError('The YouTube API key was rejected. Check the server configuration.');
+  }
+  
+  if (status && status >= 500) {
+    return new YouTubeTransientError(`YouTube had a server error (${status}) during ${context}. Please try again.`);
+  }
+  
+  return new YouTubeBadRequestError(`YouTube rejected the request during ${context} (${status}${reason ? `: ${reason}` : ''}).`);
+}
+
+/**
+ * Handle API errors consistently: log, classify and rethrow
+ */
+export function handleApiError(error: any, context: string): never {
+  const classified = classifyApiError(error, context);
+  logger.error('youtubeError: YouTube API error', {
+    kind: classified.kind,
+    context,
+    details: error?.response?.data || error?.message || String(error)
+  });
+  throw classified;
+}
+
+/**
+ * Stop work the caller has cancelled
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new SearchCancelledError();
   }
+}
+
+/**
+ * Read a Retry-After header (seconds or HTTP date) as milliseconds
+ */
+function getRetryAfterMs(error: any): number | null {
+  const header = error?.response?.headers?.['retry-after'];
+  if (!header) return null;
   
-  // For other errors, log and return empty array
-  console.error(`Error during ${context}:`, error);
-  return [];
-}
\ No newline at end of file
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return seconds * 1000;
+  
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Whether a failed call is worth repeating
+ * Short-term rate limits are; an exhausted daily quota is not
+ */
+function isRetryable(classified: YouTubeApiError): boolean {
+  return classified.kind === 'transient' ||
+    (classified instanceof YouTubeRateLimitError && !(classified instanceof YouTubeQuotaExceededError));
+}
+
+/**
+ * Run a YouTube API call, retrying transient failures with exponential backoff and full jitter
+ * Honors Retry-After when YouTube sends one; gives up if it asks for a longer wait than we allow.
+ * A cancelled call (or one whose signal aborts while waiting) is never retried.
+ */
+export async function withRetry<T>(request: () => Promise<T>, context: string, signal?: AbortSignal): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    throwIfCancelled(signal);
+    try {
+      return await request();
+    } catch (error) {
+      if (axios.isCancel(error) || signal?.aborted) {
+        throw new SearchCancelledError();
+      }
+      
+      const classified = classifyApiError(error, context);
+      // Only repeat failed HTTP calls; anything else is a bug that would fail again
+      if (!error || !(error as any).isAxiosError || !isRetryable(classified) || attempt >= RETRY_MAX_ATTEMPTS) {
+        return handleApiError(error, context);
+      }
+      
+      const retryAfterMs = getRetryAfterMs(error);
+      if (retryAfterMs !== null && retryAfterMs > RETRY_MAX_DELAY_MS) {
+        return handleApiError(error, context);
+      }
+      
+      const backoffMs = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+      const waitMs = retryAfterMs ?? Math.random() * backoffMs;
+      logger.warn('youtubeError: Retrying after error', {
+        context,
+        kind: classified.kind,
+        attempt: attempt + 1,
+        maxAttempts: RETRY_MAX_ATTEMPTS,
+        waitMs: Math.round(waitMs)
+      });
+      try {
+        await delay(waitMs, signal);
+      } catch {
+        throw new SearchCancelledError();
+      }
+    }
+  }
+}
@@ -0,0 +1,187 @@
+import { describe, expect, it } from 'vitest';
+import { Video, RaritySettings } from '@/types';
+import {
+  DEFAULT_RARITY_SETTINGS,
+  RARITY_RULES,
+  classifyShort,
+  evaluateRarity,
+  filterRareVideos,
+  getRejectionStats,
+  parseRaritySettings,
+  resolveRaritySettings
+} from './youtubeFilters';
+import { VIDEO_CATEGORIES } from './constants';
+
+/**
+ * A plain everyday video that passes every default rule, with any fields overridden
+ */
+function makeVideo(overrides: Partial<Video> = {}): Video {
+  return {
+    id: 'abc123',
+    title: 'Walking the dog in the park',
+    description: '',
+    thumbnailUrl: '',
+    publishedAt: '2009-04-01T12:00:00Z',
+    viewCount: 3,
+    channelTitle: 'someone',
+    categoryId: VIDEO_CATEGORIES.PEOPLE_AND_BLOGS,
+    duration: 'PT2M10S',
+    ...overrides
+  };
+}
+
+/**
+ * Default settings with some fields changed
+ */
+function withSettings(overrides: Partial<RaritySettings>): RaritySettings {
+  return { ...DEFAULT_RARITY_SETTINGS, ...overrides };
+}
+
+describe('evaluateRarity', () => {
+  it('passes an everyday video with few views', () => {
+    expect(evaluateRarity(makeVideo())).toBeNull();
+  });
+  
+  it('rejects a video at the view threshold', () => {
+    const rejection = evaluateRarity(makeVideo({ viewCount: DEFAULT_RARITY_SETTINGS.viewThreshold }));
+    
+    expect(rejection).toMatchObject({ ruleId: 'viewThreshold' });
+    expect(rejection?.reason).toContain(`${DEFAULT_RARITY_SETTINGS.viewThreshold} views`);
+  });
+  
+  it('reports the first rule a video fails', () => {
+    const video = makeVideo({ viewCount: 5000, title: 'Official trailer ™', isLiveStream: true });
+    
+    expect(evaluateRarity(video)?.ruleId).toBe(RARITY_RULES[0].id);
+    expect(evaluateRarity(video, withSettings({ disabledRules: ['viewThreshold'] }))?.ruleId).toBe('liveStream');
+  });
+  
+  it('skips disabled rules', () => {
+    const video = makeVideo({ title: 'Buy it now ©' });
+    
+    expect(evaluateRarity(video)?.ruleId).toBe('commercialKeywords');
+    expect(evaluateRarity(video, withSettings({ disabledRules: ['commercialKeywords'] }))?.ruleId).toBe('trademarkSymbols');
+    expect(evaluateRarity(video, withSettings({ disabledRules: ['commercialKeywords', 'trademarkSymbols'] }))).toBeNull();
+  });
+  
+  it('names the keyword that rejected a video', () => {
+    expect(evaluateRarity(makeVideo({ description: 'Shown on television last night' })))
+      .toMatchObject({ ruleId: 'tvShowKeywords', match: 'television' });
+    expect(evaluateRarity(makeVideo({ title: 'Live from the garden' })))
+      .toMatchObject({ ruleId: 'liveStream', match: 'live' });
+  });
+  
+  it('lets a keyword exception through', () => {
+    expect(evaluateRarity(makeVideo({ title: 'Hooking up the camper trailer' }))).toBeNull();
+    expect(evaluateRarity(makeVideo({ title: 'Hooking up the trailer' }))?.ruleId).toBe('commercialKeywords');
+  });
+  
+  it('uses the keyword lists of the settings', () => {
+    const settings = withSettings({ commercialKeywords: ['unboxing'] });
+    
+    expect(evaluateRarity(makeVideo({ title: 'Unboxing my new phone' }), settings))
+      .toMatchObject({ ruleId: 'commercialKeywords', match: 'unboxing' });
+    expect(evaluateRarity(makeVideo({ title: 'Buy it now' }), settings)).toBeNull();
+  });
+  
+  it('rejects excluded categories, or anything outside the included ones', () => {
+    expect(evaluateRarity(makeVideo({ categoryId: VIDEO_CATEGORIES.MOVIES }))?.ruleId).toBe('category');
+    
+    const musicOnly = withSettings({ includedCategories: [VIDEO_CATEGORIES.MUSIC] });
+    expect(evaluateRarity(makeVideo({ categoryId: VIDEO_CATEGORIES.MUSIC }), musicOnly)).toBeNull();
+    expect(evaluateRarity(makeVideo(), musicOnly)?.ruleId).toBe('category');
+    expect(evaluateRarity(makeVideo({ categoryId: undefined }), musicOnly)?.ruleId).toBe('category');
+  });
+});
+
+describe('duration and Shorts rules', () => {
+  it('rejects videos outside the chosen length', () => {
+    const settings = withSettings({ minDurationSeconds: 60, maxDurationSeconds: 600 });
+    
+    expect(evaluateRarity(makeVideo({ duration: 'PT45S' }), settings))
+      .toMatchObject({ ruleId: 'duration', reason: 'is 45s long (shorter than 1 min)' });
+    expect(evaluateRarity(makeVideo({ duration: 'PT20M' }), settings))
+      .toMatchObject({ ruleId: 'duration', reason: 'is 20 min long (longer than 10 min)' });
+    expect(evaluateRarity(makeVideo(), settings)).toBeNull();
+  });
+  
+  it('rejects an unknown duration only when a length is chosen', () => {
+    const video = makeVideo({ duration: undefined });
+    
+    expect(evaluateRarity(video)).toBeNull();
+    expect(evaluateRarity(video, withSettings({ maxDurationSeconds: 600 })))
+      .toMatchObject({ ruleId: 'duration', reason: 'has an unknown duration' });
+  });
+  
+  it('prefers the parsed duration to the ISO one', () => {
+    expect(evaluateRarity(makeVideo({ duration: 'PT20M', durationSeconds: 30 }), withSettings({ maxDurationSeconds: 60 })))
+      .toBeNull();
+  });
+  
+  it('recognises Shorts by their tag, or by being short and not horizontal', () => {
+    expect(classifyShort(makeVideo({ title: 'My cat #Shorts' }))).toBe('is tagged #shorts');
+    expect(classifyShort(makeVideo({ description: 'so cute #ytshorts' }))).toBe('is tagged #shorts');
+    expect(classifyShort(makeVideo({ duration: 'PT30S', isVertical: true }))).toBe('is vertical and 30s long');
+    expect(classifyShort(makeVideo({ duration: 'PT30S' }))).toBe('is 30s long');
+    expect(classifyShort(makeVideo({ duration: 'PT30S', isVertical: false }))).toBeNull();
+    expect(classifyShort(makeVideo({ isVertical: true }))).toBeNull();
+  });
+  
+  it('excludes Shorts, or keeps only them, as the Shorts setting says', () => {
+    const short = makeVideo({ duration: 'PT30S', isVertical: true });
+    const long = makeVideo();
+    
+    expect(evaluateRarity(short)).toBeNull();
+    expect(evaluateRarity(short, withSettings({ shorts: 'exclude' })))
+      .toMatchObject({ ruleId: 'shorts', reason: 'is a Short (is vertical and 30s long)' });
+    expect(evaluateRarity(long, withSettings({ shorts: 'exclude' }))).toBeNull();
+    expect(evaluateRarity(short, withSettings({ shorts: 'only' }))).toBeNull();
+    expect(evaluateRarity(long, withSettings({ shorts: 'only' })))
+      .toMatchObject({ ruleId: 'shorts', reason: 'is not a Short' });
+  });
+});
+
+describe('filterRareVideos', () => {
+  it('splits videos into rare ones and rejections', () => {
+    const rare = makeVideo({ id: 'rare' });
+    const popular = makeVideo({ id: 'popular', viewCount: 1000 });
+    const live = makeVideo({ id: 'live', isUpcoming: true });
+    
+    const { videos, rejections } = filterRareVideos([rare, popular, live]);
+    
+    expect(videos).toEqual([rare]);
+    expect(rejections.map(({ video, ruleId }) => [video.id, ruleId])).toEqual([
+      ['popular', 'viewThreshold'],
+      ['live', 'liveStream']
+    ]);
+    expect(getRejectionStats(rejections)).toEqual({ viewThreshold: 1, liveStream: 1 });
+  });
+});
+
+describe('resolveRaritySettings', () => {
+  it('falls back to the defaults for missing or malformed fields', () => {
+    expect(resolveRaritySettings()).toEqual(DEFAULT_RARITY_SETTINGS);
+    expect(resolveRaritySettings({ viewThreshold: -3, commercialKeywords: 'buy', shorts: 'sometimes' }))
+      .toEqual(DEFAULT_RARITY_SETTINGS);
+  });
+  
+  it('keeps valid fields and drops unknown rules', () => {
+    const settings = resolveRaritySettings({ viewThreshold: 1, disabledRules: ['category', 'noSuchRule'] });
+    
+    expect(settings.viewThreshold).toBe(1);
+    expect(settings.disabledRules).toEqual(['category']);
+  });
+  
+  it('keeps duration limits only when they are whole, non-negative seconds', () => {
+    expect(resolveRaritySettings({ minDurationSeconds: 30, maxDurationSeconds: null, shorts: 'only' }))
+      .toMatchObject({ minDurationSeconds: 30, maxDurationSeconds: null, shorts: 'only' });
+    expect(resolveRaritySettings({ minDurationSeconds: -5, maxDurationSeconds: 1.5 }))
+      .toMatchObject({ minDurationSeconds: null, maxDurationSeconds: null });
+  });
+  
+  it('reads settings from a shared link', () => {
+    expect(parseRaritySettings(JSON.stringify({ viewThreshold: 100 })).viewThreshold).toBe(100);
+    expect(parseRaritySettings('{not json')).toBe(DEFAULT_RARITY_SETTINGS);
+    expect(parseRaritySettings(null)).toBe(DEFAULT_RARITY_SETTINGS);
+  });
+});
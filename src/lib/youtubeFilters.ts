@@ -1,113 +1,365 @@
-import { Video, ViewStats } from '@/types';
-import { EXCLUDED_CATEGORIES } from './constants';
-
-/**
- * Keywords that indicate commercial movie/TV purchase content
- */
-const COMMERCIAL_KEYWORDS = [
-  // Movie/TV purchase indicators
-  'buy', 'rent', 'purchase', 'trailer', 'official', 'hd', '4k',
-  // Movie studio references
-  'warner', 'disney', 'paramount', 'sony', 'universal', 'mgm', 'lionsgate',
-  // Streaming services
-  'netflix', 'hulu', 'amazon', 'prime video', 'hbo', 'max', 'disney+',
-  // Common commercial phrases
-  'now available', 'digital', 'bluray', 'blu-ray', 'dvd', 
-  'full movie', 'full episode', 'season', 'episode'
-];
+import {
+  Video,
+  ViewStats,
+  RarityRuleId,
+  RaritySettings,
+  RarityRejection,
+  RarityFilterResult,
+  RejectionStats,
+  ShortsMode
+} from '@/types';
+import { EXCLUDED_CATEGORIES, RARE_VIEW_THRESHOLD, SHORTS_MAX_DURATION_SECONDS } from './constants';
+import { parseDuration } from './utils';
+import { KeywordMatcher, createKeywordMatcher } from './keywordMatcher';
+import {
+  COMMERCIAL_KEYWORDS,
+  TV_SHOW_KEYWORDS,
+  LIVE_STREAM_KEYWORDS,
+  KEYWORD_EXCEPTIONS,
+  getKeywords
+} from './filterKeywords';
 
 /**
- * Extended TV show indicators
+ * Why a video failed a rarity rule
  */
-const TV_SHOW_KEYWORDS = [
-  'tv series', 'tv show', 'television', 'episode', 'season',
-  'watch now', 'streaming now', 'now streaming'
-];
+export interface RuleViolation {
+  reason: string;
+  /** The keyword or symbol that triggered the rule, if any */
+  match?: string;
+}
 
 /**
- * Filter out videos in excluded YouTube categories
+ * A named step of the rarity filter
+ * Rules run in order; the first one a video fails rejects it
  */
-export function filterExcludedCategories(items: any[]): any[] {
-  return items.filter((item: any) => {
-    // Check if the video is in an excluded category
-    const categoryId = item.snippet?.categoryId;
-    if (categoryId && EXCLUDED_CATEGORIES.includes(categoryId)) {
-      console.log(`Filtered out video in excluded category: "${item.snippet.title}" (category: ${categoryId})`);
-      return false;
-    }
-    
-    // Include videos that don't have a category or aren't in excluded categories
-    return true;
-  });
+export interface RarityRule {
+  id: RarityRuleId;
+  /** Short name shown in the filter controls */
+  label: string;
+  /** What the rule rejects */
+  description: string;
+  /** Return why the video is rejected, or null if it passes */
+  check: (video: Video, settings: RaritySettings) => RuleViolation | null;
 }
 
 /**
- * Filter videos with less than 10 views and not streams or commercial content
+ * Keyword matchers compiled from a settings object
  */
-export function filterRareVideos(videos: Video[]): Video[] {
-  return videos.filter(video => {
-    // Must have less than 10 views
-    if (video.viewCount >= 10) return false;
-    
-    // Filter out live streams and upcoming streams
-    if (video.isLiveStream || video.isUpcoming) return false;
-    
-    // Convert title and description to lowercase for case-insensitive matching
-    const lowerTitle = video.title.toLowerCase();
-    const lowerDescription = video.description?.toLowerCase() || '';
-    
-    // Filter out videos with "stream" or "live" in the title (often stream announcements)
-    if (lowerTitle.includes('stream') || 
-        lowerTitle.includes('live') || 
-        lowerTitle.includes('premiere')) return false;
-    
-    // Check for commercial keywords in title or description
-    for (const keyword of COMMERCIAL_KEYWORDS) {
-      if (lowerTitle.includes(keyword) || lowerDescription.includes(keyword)) {
-        console.log(`Filtered out commercial video: "${video.title}" (matched keyword: ${keyword})`);
-        return false;
+interface RarityMatchers {
+  liveStream: KeywordMatcher;
+  commercial: KeywordMatcher;
+  tvShow: KeywordMatcher;
+}
+
+// Matchers are compiled once per settings object, not once per video
+const matcherCache = new WeakMap<RaritySettings, RarityMatchers>();
+
+/**
+ * Get the keyword matchers for a settings object
+ */
+function getMatchers(settings: RaritySettings): RarityMatchers {
+  let matchers = matcherCache.get(settings);
+  if (!matchers) {
+    matchers = {
+      liveStream: createKeywordMatcher(settings.liveStreamKeywords, settings.keywordExceptions),
+      commercial: createKeywordMatcher(settings.commercialKeywords, settings.keywordExceptions),
+      tvShow: createKeywordMatcher(settings.tvShowKeywords, settings.keywordExceptions)
+    };
+    matcherCache.set(settings, matchers);
+  }
+  return matchers;
+}
+
+/**
+ * Find the first keyword appearing in a video's title or description
+ */
+function findKeyword(video: Video, matcher: KeywordMatcher): string | undefined {
+  return matcher.match(video.title) || matcher.match(video.description || '');
+}
+
+// Hashtags creators use to mark Shorts (#shorts, #short, #ytshorts)
+const SHORTS_TAG_PATTERN = /#(yt)?shorts?\b/i;
+
+/**
+ * A video's duration in seconds, parsing the ISO duration if it wasn't parsed yet
+ */
+export function getDurationSeconds(video: Video): number | undefined {
+  return video.durationSeconds ?? parseDuration(video.duration);
+}
+
+/**
+ * Decide whether a video is a YouTube Short, returning the evidence (or null if it isn't)
+ * A #shorts tag is enough on its own; otherwise the video must be short and, when
+ * the player's shape is known, vertical.
+ */
+export function classifyShort(video: Video): string | null {
+  if (SHORTS_TAG_PATTERN.test(`${video.title} ${video.description || ''}`)) return 'is tagged #shorts';
+  
+  const seconds = getDurationSeconds(video);
+  if (seconds === undefined || seconds > SHORTS_MAX_DURATION_SECONDS || video.isVertical === false) return null;
+  
+  return video.isVertical
+    ? `is vertical and ${seconds}s long`
+    : `is ${seconds}s long`;
+}
+
+/**
+ * Format a number of seconds as e.g. "45s" or "10 min"
+ */
+function formatSeconds(seconds: number): string {
+  return seconds < 60 ? `${seconds}s` : `${Math.round(seconds / 60)} min`;
+}
+
+/**
+ * Rarity rules in evaluation order
+ */
+export const RARITY_RULES: RarityRule[] = [
+  {
+    id: 'viewThreshold',
+    label: 'View limit',
+    description: 'Videos with too many views',
+    check: (video, settings) => video.viewCount >= settings.viewThreshold
+      ? { reason: `has ${video.viewCount} views (limit is fewer than ${settings.viewThreshold})` }
+      : null
+  },
+  {
+    id: 'liveStream',
+    label: 'Live streams',
+    description: 'Live, upcoming and premiere streams, and stream announcements',
+    check: (video, settings) => {
+      if (video.isLiveStream || video.isUpcoming) return { reason: 'is a live or upcoming stream' };
+      
+      // Titles mentioning streams are often stream announcements
+      const word = getMatchers(settings).liveStream.match(video.title);
+      return word ? { reason: `title mentions "${word}"`, match: word } : null;
+    }
+  },
+  {
+    id: 'commercialKeywords',
+    label: 'Commercial keywords',
+    description: 'Movie and TV purchase content, studios and streaming services',
+    check: (video, settings) => {
+      const keyword = findKeyword(video, getMatchers(settings).commercial);
+      return keyword ? { reason: `matched commercial keyword "${keyword}"`, match: keyword } : null;
+    }
+  },
+  {
+    id: 'tvShowKeywords',
+    label: 'TV show keywords',
+    description: 'TV series and episode listings',
+    check: (video, settings) => {
+      const keyword = findKeyword(video, getMatchers(settings).tvShow);
+      return keyword ? { reason: `matched TV show keyword "${keyword}"`, match: keyword } : null;
+    }
+  },
+  {
+    id: 'trademarkSymbols',
+    label: 'Trademark symbols',
+    description: 'Titles or descriptions with © or ™ (high production value)',
+    check: video => {
+      const text = `${video.title} ${video.description || ''}`;
+      const symbol = ['©', '™'].find(candidate => text.includes(candidate));
+      return symbol ? { reason: `contains the symbol ${symbol}`, match: symbol } : null;
+    }
+  },
+  {
+    id: 'category',
+    label: 'Categories',
+    description: 'Videos outside the chosen categories (by default movies, trailers, shows and other professional ones)',
+    check: (video, settings) => {
+      if (settings.includedCategories.length > 0 &&
+          !(video.categoryId && settings.includedCategories.includes(video.categoryId))) {
+        return { reason: `is not in an included category (category ${video.categoryId || 'unknown'})`, match: video.categoryId };
       }
+      return video.categoryId && settings.excludedCategories.includes(video.categoryId)
+        ? { reason: `is in excluded category ${video.categoryId}`, match: video.categoryId }
+        : null;
     }
-    
-    // Check for TV show indicators
-    for (const keyword of TV_SHOW_KEYWORDS) {
-      if (lowerTitle.includes(keyword) || lowerDescription.includes(keyword)) {
-        console.log(`Filtered out TV show video: "${video.title}" (matched keyword: ${keyword})`);
-        return false;
+  },
+  {
+    id: 'duration',
+    label: 'Duration',
+    description: 'Videos outside the chosen length',
+    check: (video, settings) => {
+      const { minDurationSeconds, maxDurationSeconds } = settings;
+      if (minDurationSeconds === null && maxDurationSeconds === null) return null;
+      
+      const seconds = getDurationSeconds(video);
+      if (seconds === undefined) return { reason: 'has an unknown duration' };
+      if (minDurationSeconds !== null && seconds < minDurationSeconds) {
+        return { reason: `is ${formatSeconds(seconds)} long (shorter than ${formatSeconds(minDurationSeconds)})` };
       }
+      if (maxDurationSeconds !== null && seconds > maxDurationSeconds) {
+        return { reason: `is ${formatSeconds(seconds)} long (longer than ${formatSeconds(maxDurationSeconds)})` };
+      }
+      return null;
     }
-    
-    // Filter videos with high production value indicators
-    if (video.title.includes('©') || 
-        video.description?.includes('©') || 
-        video.title.includes('™') || 
-        video.description?.includes('™')) {
-      console.log(`Filtered out commercial video: "${video.title}" (matched copyright/trademark)`);
-      return false;
+  },
+  {
+    id: 'shorts',
+    label: 'Shorts',
+    description: 'Shorts, or everything but Shorts, depending on the Shorts setting',
+    check: (video, settings) => {
+      if (settings.shorts === 'include') return null;
+      
+      const evidence = classifyShort(video);
+      if (settings.shorts === 'exclude' && evidence) return { reason: `is a Short (${evidence})` };
+      if (settings.shorts === 'only' && !evidence) return { reason: 'is not a Short' };
+      return null;
     }
+  }
+];
+
+const SHORTS_MODES: ShortsMode[] = ['include', 'exclude', 'only'];
+
+/**
+ * Rarity settings used when a search doesn't specify its own
+ */
+export const DEFAULT_RARITY_SETTINGS: RaritySettings = {
+  viewThreshold: RARE_VIEW_THRESHOLD,
+  disabledRules: [],
+  liveStreamKeywords: getKeywords(LIVE_STREAM_KEYWORDS),
+  commercialKeywords: getKeywords(COMMERCIAL_KEYWORDS),
+  tvShowKeywords: getKeywords(TV_SHOW_KEYWORDS),
+  keywordExceptions: getKeywords(KEYWORD_EXCEPTIONS),
+  includedCategories: [],
+  excludedCategories: EXCLUDED_CATEGORIES,
+  minDurationSeconds: null,
+  maxDurationSeconds: null,
+  shorts: 'include'
+};
+
+/**
+ * Build complete rarity settings from untrusted input (e.g. a request body)
+ * Anything missing or malformed falls back to the default
+ */
+export function resolveRaritySettings(input?: unknown): RaritySettings {
+  const settings = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  const isStringList = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(item => typeof item === 'string');
+  const isDurationLimit = (value: unknown): value is number | null =>
+    value === null || (Number.isInteger(value) && (value as number) >= 0);
+  const ruleIds = RARITY_RULES.map(rule => rule.id);
+  
+  return {
+    viewThreshold: Number.isInteger(settings.viewThreshold) && (settings.viewThreshold as number) > 0
+      ? settings.viewThreshold as number
+      : DEFAULT_RARITY_SETTINGS.viewThreshold,
+    disabledRules: isStringList(settings.disabledRules)
+      ? settings.disabledRules.filter((id): id is RarityRuleId => ruleIds.includes(id as RarityRuleId))
+      : DEFAULT_RARITY_SETTINGS.disabledRules,
+    liveStreamKeywords: isStringList(settings.liveStreamKeywords)
+      ? settings.liveStreamKeywords
+      : DEFAULT_RARITY_SETTINGS.liveStreamKeywords,
+    commercialKeywords: isStringList(settings.commercialKeywords)
+      ? settings.commercialKeywords
+      : DEFAULT_RARITY_SETTINGS.commercialKeywords,
+    tvShowKeywords: isStringList(settings.tvShowKeywords)
+      ? settings.tvShowKeywords
+      : DEFAULT_RARITY_SETTINGS.tvShowKeywords,
+    keywordExceptions: isStringList(settings.keywordExceptions)
+      ? settings.keywordExceptions
+      : DEFAULT_RARITY_SETTINGS.keywordExceptions,
+    includedCategories: isStringList(settings.includedCategories)
+      ? settings.includedCategories
+      : DEFAULT_RARITY_SETTINGS.includedCategories,
+    excludedCategories: isStringList(settings.excludedCategories)
+      ? settings.excludedCategories
+      : DEFAULT_RARITY_SETTINGS.excludedCategories,
+    minDurationSeconds: isDurationLimit(settings.minDurationSeconds)
+      ? settings.minDurationSeconds
+      : DEFAULT_RARITY_SETTINGS.minDurationSeconds,
+    maxDurationSeconds: isDurationLimit(settings.maxDurationSeconds)
+      ? settings.maxDurationSeconds
+      : DEFAULT_RARITY_SETTINGS.maxDurationSeconds,
+    shorts: SHORTS_MODES.includes(settings.shorts as ShortsMode)
+      ? settings.shorts as ShortsMode
+      : DEFAULT_RARITY_SETTINGS.shorts
+  };
+}
+
+/**
+ * Read rarity settings from a JSON query parameter, as in shared search links
+ * Anything missing or malformed gives the default
+ */
+export function parseRaritySettings(value: string | null): RaritySettings {
+  if (!value) return DEFAULT_RARITY_SETTINGS;
+  try {
+    return resolveRaritySettings(JSON.parse(value));
+  } catch {
+    return DEFAULT_RARITY_SETTINGS;
+  }
+}
+
+/**
+ * Run a video through the enabled rules, returning a rejection for the first rule it fails
+ */
+export function evaluateRarity(
+  video: Video,
+  settings: RaritySettings = DEFAULT_RARITY_SETTINGS
+): RarityRejection | null {
+  for (const rule of RARITY_RULES) {
+    if (settings.disabledRules.includes(rule.id)) continue;
     
-    // Include this video (passed all filter checks)
-    return true;
+    const violation = rule.check(video, settings);
+    if (violation) return { video, ruleId: rule.id, ...violation };
+  }
+  return null;
+}
+
+/**
+ * Filter videos down to rare ones using the rarity rules
+ * Every dropped video is returned as a rejection explaining which rule dropped it
+ */
+export function filterRareVideos(
+  videos: Video[],
+  settings: RaritySettings = DEFAULT_RARITY_SETTINGS
+): RarityFilterResult {
+  const rareVideos: Video[] = [];
+  const rejections: RarityRejection[] = [];
+  
+  videos.forEach(video => {
+    const rejection = evaluateRarity(video, settings);
+    if (rejection) {
+      rejections.push(rejection);
+    } else {
+      rareVideos.push(video);
+    }
   });
+  
+  return { videos: rareVideos, rejections };
 }
 
 /**
- * Filter out live streams and announcements
+ * Count rejections by the rule that made them
+ */
+export function getRejectionStats(rejections: RarityRejection[]): RejectionStats {
+  return rejections.reduce<RejectionStats>((stats, rejection) => {
+    stats[rejection.ruleId] = (stats[rejection.ruleId] || 0) + 1;
+    return stats;
+  }, {});
+}
+
+/**
+ * Look up the display label of a rarity rule
+ */
+export function getRarityRuleLabel(ruleId: RarityRuleId): string {
+  return RARITY_RULES.find(rule => rule.id === ruleId)?.label || ruleId;
+}
+
+/**
+ * Describe a view threshold for display, e.g. "0 views" or "less than 10 views"
+ */
+export function describeViewThreshold(viewThreshold: number): string {
+  return viewThreshold <= 1 ? '0 views' : `less than ${viewThreshold} views`;
+}
+
+/**
+ * Filter out live streams and announcements (using the default live stream keywords)
  */
 export function filterLiveStreams(videos: Video[]): Video[] {
-  return videos.filter(video => {
-    // Filter out live streams and upcoming streams
-    if (video.isLiveStream || video.isUpcoming) return false;
-    
-    // Filter out videos with "stream" or "live" in the title (often stream announcements)
-    const lowerTitle = video.title.toLowerCase();
-    if (lowerTitle.includes('stream') || 
-        lowerTitle.includes('live') || 
-        lowerTitle.includes('premiere')) return false;
-    
-    // Include this video
-    return true;
-  });
+  const liveStreamRule = RARITY_RULES.find(rule => rule.id === 'liveStream');
+  return videos.filter(video => !liveStreamRule?.check(video, DEFAULT_RARITY_SETTINGS));
 }
 
 /**
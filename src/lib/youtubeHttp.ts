@@ -0,0 +1,13 @@
+import axios from 'axios';
+import { YOUTUBE_API_URL, YOUTUBE_FAKE_API } from './constants';
+import { fakeYouTubeAdapter } from './fakeYouTubeApi';
+
+/**
+ * HTTP client for the YouTube Data API, relative to YOUTUBE_API_URL
+ * With YOUTUBE_API_MODE=fake, requests are answered in-process from the fixture
+ * corpus (see fakeYouTubeApi) and never reach the network.
+ */
+export const youtubeHttp = axios.create({
+  baseURL: YOUTUBE_API_URL,
+  ...(YOUTUBE_FAKE_API ? { adapter: fakeYouTubeAdapter } : {})
+});
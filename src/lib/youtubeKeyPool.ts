@@ -0,0 +1,107 @@
+import { ApiKeyStatus } from '@/types';
+import { YouTubeRateLimitError } from './youtubeTypes';
+import logger from './logger';
+
+interface PooledKey {
+  key: string;
+  label: string;
+  calls: number;
+  units: number;
+  exhaustedUntil: Date | null;
+}
+
+/**
+ * Read the configured API keys
+ * YOUTUBE_API_KEYS takes a comma-separated list; YOUTUBE_API_KEY a single key
+ */
+function loadApiKeys(): string[] {
+  const keys = (process.env.YOUTUBE_API_KEYS || process.env.YOUTUBE_API_KEY || '')
+    .split(',')
+    .map(key => key.trim())
+    .filter(Boolean);
+  
+  // Keep the old behaviour of sending an empty key (and getting YouTube's error) when none is set
+  return keys.length > 0 ? keys : [''];
+}
+
+/**
+ * Label a key for display without revealing it
+ */
+function maskKey(key: string, index: number): string {
+  return key ? `Key ${index + 1} (…${key.slice(-4)})` : `Key ${index + 1} (not set)`;
+}
+
+const pooledKeys: PooledKey[] = loadApiKeys().map((key, index) => ({
+  key,
+  label: maskKey(key, index),
+  calls: 0,
+  units: 0,
+  exhaustedUntil: null
+}));
+
+/**
+ * Pool of YouTube API keys
+ * Hands out the first key that still has quota; keys that hit their daily
+ * quota are benched until the quota resets.
+ */
+export const apiKeyPool = {
+  /**
+   * Number of keys in the pool
+   */
+  size: (): number => pooledKeys.length,
+  
+  /**
+   * Get a key with quota left, or throw when every key is spent
+   */
+  getActiveKey: (): string => {
+    const now = new Date();
+    const available = pooledKeys.find(pooled => !pooled.exhaustedUntil || pooled.exhaustedUntil <= now);
+    
+    if (!available) {
+      throw new YouTubeRateLimitError('YouTube API quota exceeded on every API key. Please try again later.');
+    }
+    
+    available.exhaustedUntil = null;
+    return available.key;
+  },
+  
+  /**
+   * Bench a key until its quota resets
+   */
+  markExhausted: (key: string, until: Date): void => {
+    const pooled = pooledKeys.find(candidate => candidate.key === key);
+    if (!pooled) return;
+    
+    pooled.exhaustedUntil = until;
+    logger.warn('apiKeyPool: Key quota exhausted', {
+      key: pooled.label,
+      until: until.toISOString()
+    });
+  },
+  
+  /**
+   * Record calls and quota units spent with a key
+   */
+  recordUsage: (key: string, calls: number, units: number): void => {
+    const pooled = pooledKeys.find(candidate => candidate.key === key);
+    if (!pooled) return;
+    
+    pooled.calls += calls;
+    pooled.units += units;
+  },
+  
+  /**
+   * Per-key usage for display, with keys masked
+   */
+  getStatus: (): ApiKeyStatus[] => {
+    const now = new Date();
+    return pooledKeys.map(pooled => ({
+      label: pooled.label,
+      calls: pooled.calls,
+      units: pooled.units,
+      exhaustedUntil: pooled.exhaustedUntil && pooled.exhaustedUntil > now
+        ? pooled.exhaustedUntil.toISOString()
+        : null
+    }));
+  }
+};
@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getQuotaDay, getQuotaResetTime, quotaLedger } from './youtubeQuota';
+
+describe('getQuotaDay', () => {
+  it('rolls over at midnight Pacific standard time in winter', () => {
+    expect(getQuotaDay(new Date('2024-01-16T07:59:59Z'))).toBe('2024-01-15');
+    expect(getQuotaDay(new Date('2024-01-16T08:00:00Z'))).toBe('2024-01-16');
+  });
+  
+  it('rolls over at midnight Pacific daylight time in summer', () => {
+    expect(getQuotaDay(new Date('2024-07-05T06:59:59Z'))).toBe('2024-07-04');
+    expect(getQuotaDay(new Date('2024-07-05T07:00:00Z'))).toBe('2024-07-05');
+  });
+});
+
+describe('getQuotaResetTime', () => {
+  it('resets at the next midnight Pacific time', () => {
+    expect(getQuotaResetTime(new Date('2024-01-15T12:00:00Z')).toISOString()).toBe('2024-01-16T08:00:00.000Z');
+    expect(getQuotaResetTime(new Date('2024-07-04T12:00:00Z')).toISOString()).toBe('2024-07-05T07:00:00.000Z');
+  });
+  
+  it('follows the clocks around daylight saving changes', () => {
+    // Clocks spring forward on March 10, 2024 and fall back on November 3, 2024
+    expect(getQuotaResetTime(new Date('2024-03-09T20:00:00Z')).toISOString()).toBe('2024-03-10T08:00:00.000Z');
+    expect(getQuotaResetTime(new Date('2024-03-10T20:00:00Z')).toISOString()).toBe('2024-03-11T07:00:00.000Z');
+    expect(getQuotaResetTime(new Date('2024-11-02T20:00:00Z')).toISOString()).toBe('2024-11-03T07:00:00.000Z');
+    expect(getQuotaResetTime(new Date('2024-11-03T20:00:00Z')).toISOString()).toBe('2024-11-04T08:00:00.000Z');
+  });
+  
+  it('is always later than the given moment, on the following quota day', () => {
+    const moment = new Date('2024-12-31T23:30:00Z');
+    const reset = getQuotaResetTime(moment);
+    
+    expect(reset.getTime()).toBeGreaterThan(moment.getTime());
+    expect(getQuotaDay(reset)).toBe('2025-01-01');
+    expect(getQuotaDay(new Date(reset.getTime() - 1))).toBe('2024-12-31');
+  });
+});
+
+describe('quotaLedger', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+  
+  it('starts a fresh tally when the quota day rolls over', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-01-16T07:59:00Z'));
+    quotaLedger.rollover();
+    quotaLedger.byEndpoint = { search: { calls: 2, units: 200 } };
+    
+    expect(quotaLedger.day).toBe('2024-01-15');
+    expect(quotaLedger.used()).toBe(200);
+    
+    vi.setSystemTime(new Date('2024-01-16T08:00:00Z'));
+    
+    expect(quotaLedger.used()).toBe(0);
+    expect(quotaLedger.day).toBe('2024-01-16');
+  });
+});
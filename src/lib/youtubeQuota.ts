@@ -0,0 +1,156 @@
+import { QuotaEndpointUsage, QuotaStatus } from '@/types';
+import { DAILY_QUOTA_LIMIT, QUOTA_RESERVE_UNITS, QUOTA_TIME_ZONE } from './constants';
+import { ensureDatabase } from './db';
+import { QuotaModel } from './models/quotaModel';
+import { countApiStat } from './youtubeTypes';
+import { apiKeyPool } from './youtubeKeyPool';
+import logger from './logger';
+
+/**
+ * Quota units charged per call of each YouTube Data API endpoint
+ */
+export const QUOTA_COSTS = {
+  search: 100,
+  videos: 1,
+  videoCategories: 1
+} as const;
+
+export type QuotaEndpoint = keyof typeof QUOTA_COSTS;
+
+/**
+ * Get the Pacific-time calendar day (YYYY-MM-DD) a moment falls on
+ */
+export function getQuotaDay(date: Date = new Date()): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: QUOTA_TIME_ZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).format(date);
+}
+
+/**
+ * Get the moment the quota next resets (midnight Pacific time)
+ */
+export function getQuotaResetTime(date: Date = new Date()): Date {
+  const [year, month, day] = getQuotaDay(date).split('-').map(Number);
+  
+  // Midnight Pacific is 07:00 or 08:00 UTC depending on daylight saving
+  for (const offsetHours of [7, 8]) {
+    const candidate = new Date(Date.UTC(year, month - 1, day + 1, offsetHours));
+    const justBefore = new Date(candidate.getTime() - 1);
+    if (getQuotaDay(candidate) !== getQuotaDay(justBefore)) {
+      return candidate;
+    }
+  }
+  
+  return new Date(Date.UTC(year, month - 1, day + 1, 8));
+}
+
+/**
+ * Daily quota ledger
+ * Prices every YouTube call in quota units and keeps a per-day running total,
+ * persisted to the database so it survives restarts. Persistence is best-effort:
+ * if the database is unavailable the ledger keeps counting in memory.
+ */
+export const quotaLedger = {
+  day: getQuotaDay(),
+  byEndpoint: {} as Record<string, QuotaEndpointUsage>,
+  loadedDay: null as string | null,
+  
+  /**
+   * Start a fresh tally when the Pacific-time day rolls over
+   */
+  rollover: () => {
+    const today = getQuotaDay();
+    if (today !== quotaLedger.day) {
+      quotaLedger.day = today;
+      quotaLedger.byEndpoint = {};
+    }
+  },
+  
+  /**
+   * Load today's persisted usage (once per day per process)
+   */
+  load: async (): Promise<void> => {
+    quotaLedger.rollover();
+    if (quotaLedger.loadedDay === quotaLedger.day) return;
+    
+    const day = quotaLedger.day;
+    try {
+      await ensureDatabase();
+      quotaLedger.byEndpoint = await QuotaModel.getUsage(day);
+      logger.debug('quotaLedger: Loaded usage', { day, used: quotaLedger.used() });
+    } catch (error) {
+      logger.warn('quotaLedger: Could not load persisted usage, counting in memory', error);
+    }
+    quotaLedger.loadedDay = day;
+  },
+  
+  /**
+   * Record calls to an endpoint (made with a given key) against today's quota
+   */
+  record: (endpoint: QuotaEndpoint, apiKey?: string, calls: number = 1): void => {
+    quotaLedger.rollover();
+    
+    const units = QUOTA_COSTS[endpoint] * calls;
+    const usage = quotaLedger.byEndpoint[endpoint] || { calls: 0, units: 0 };
+    quotaLedger.byEndpoint[endpoint] = {
+      calls: usage.calls + calls,
+      units: usage.units + units
+    };
+    countApiStat('quotaUnitsUsed', units);
+    if (apiKey !== undefined) {
+      apiKeyPool.recordUsage(apiKey, calls, units);
+    }
+    
+    QuotaModel.addUsage(quotaLedger.day, endpoint, calls, units).catch(error => {
+      logger.warn('quotaLedger: Could not persist usage', error);
+    });
+  },
+  
+  /**
+   * Units spent today
+   */
+  used: (): number => {
+    quotaLedger.rollover();
+    return Object.values(quotaLedger.byEndpoint).reduce((total, usage) => total + usage.units, 0);
+  },
+  
+  /**
+   * Units available today across all keys in the pool
+   */
+  limit: (): number => {
+    return DAILY_QUOTA_LIMIT * apiKeyPool.size();
+  },
+  
+  /**
+   * Units left today
+   */
+  remaining: (): number => {
+    return Math.max(0, quotaLedger.limit() - quotaLedger.used());
+  },
+  
+  /**
+   * Whether calls to an endpoint fit in today's budget, keeping the reserve back
+   */
+  canAfford: (endpoint: QuotaEndpoint, calls: number = 1): boolean => {
+    return quotaLedger.remaining() - QUOTA_COSTS[endpoint] * calls >= QUOTA_RESERVE_UNITS;
+  },
+  
+  /**
+   * Snapshot of today's usage for the API
+   */
+  getStatus: (): QuotaStatus => {
+    return {
+      day: quotaLedger.day,
+      limit: quotaLedger.limit(),
+      used: quotaLedger.used(),
+      remaining: quotaLedger.remaining(),
+      resetsAt: getQuotaResetTime().toISOString(),
+      byEndpoint: { ...quotaLedger.byEndpoint },
+      keys: apiKeyPool.getStatus()
+    };
+  }
+};
@@ -1,115 +1,65 @@
-import axios from 'axios';
+import { createHash } from 'crypto';
 import { TimeWindow, SearchType } from '@/types';
-import { YOUTUBE_API_URL } from './constants';
-import { apiStats } from './youtubeTypes';
-import { handleApiError } from './youtubeError';
+import { youtubeHttp } from './youtubeHttp';
+import { countApiStat, SearchPage } from './youtubeTypes';
+import { quotaLedger } from './youtubeQuota';
+import { withRetry } from './youtubeError';
 
 /**
- * Search terms and patterns for different search types
+ * Generate cache key for one page of a time window, search type and query
+ * The query is hashed, since dictionary terms can be as long as the whole key may be
  */
-export const searchTerms: string[] = [
-  'random', 'interesting', 'cool', 'fun', 'amazing', 
-  'wow', 'look', 'check', 'see', 'watch', 'observe',
-  'nature', 'outdoor', 'adventure', 'daily', 'life',
-  'hobby', 'craft', 'diy', 'homemade', 'amateur',
-  'family', 'kids', 'pet', 'dog', 'cat', 'animal',
-  'travel', 'trip', 'journey', 'vacation', 'holiday',
-  'food', 'cooking', 'recipe', 'baking', 'meal',
-  'game', 'play', 'fun', 'adventure', 'explore'
-];
-
-export const cameraFilenamePatterns: string[] = [
-  'IMG_', 'DSC_', 'DCIM', 'MOV_', 'VID_', 'MVI_',
-  'GOPRO', 'CLIP', 'REC', 'VIDEO', 'CAMERA',
-  'iphone', 'samsung', 'pixel', 'P_', 'PANA', 'LUMIX',
-  'canon', 'nikon', 'sony', 'fuji', 'olympus', 'raw footage'
-];
-
-/**
- * Get a random search term to diversify results
- */
-export function getRandomSearchTerm(): string {
-  const randomIndex = Math.floor(Math.random() * searchTerms.length);
-  return searchTerms[randomIndex];
+export function getSearchCacheKey(window: TimeWindow, searchType: SearchType, query: string, page: number = 0): string {
+  const queryHash = createHash('sha1').update(query).digest('hex').slice(0, 16);
+  return `${searchType}_${queryHash}_${window.startDate.toISOString()}_${window.endDate.toISOString()}_p${page}`;
 }
 
 /**
- * Get a random camera filename pattern for unedited videos
+ * Generate cache key for one page of a channel's uploads in a time window
  */
-export function getRandomCameraPattern(): string {
-  const randomIndex = Math.floor(Math.random() * cameraFilenamePatterns.length);
-  return cameraFilenamePatterns[randomIndex];
+export function getChannelSearchCacheKey(channelId: string, window: TimeWindow, page: number = 0): string {
+  return `channel_${channelId}_${window.startDate.toISOString()}_${window.endDate.toISOString()}_p${page}`;
 }
 
 /**
- * Get search query based on search type
- */
-export function getSearchQuery(searchType: SearchType): string {
-  switch (searchType) {
-    case SearchType.RandomTime:
-      return getRandomSearchTerm();
-    case SearchType.Unedited:
-      return getRandomCameraPattern();
-    default:
-      return getRandomSearchTerm();
-  }
-}
-
-/**
- * Create a larger time window for unedited content
- */
-export function getLargeTimeWindow(baseWindow: TimeWindow): TimeWindow {
-  // For unedited content, we want a larger window (2x the original)
-  const centerTime = new Date((baseWindow.startDate.getTime() + baseWindow.endDate.getTime()) / 2);
-  const largeDuration = baseWindow.durationMinutes * 2;
-  
-  const halfDuration = largeDuration / 2;
-  const startDate = new Date(centerTime.getTime() - (halfDuration * 60 * 1000));
-  const endDate = new Date(centerTime.getTime() + (halfDuration * 60 * 1000));
-  
-  return {
-    startDate,
-    endDate,
-    durationMinutes: largeDuration
-  };
-}
-
-/**
- * Generate cache key for a time window and search type
- */
-export function getSearchCacheKey(window: TimeWindow, searchType: SearchType): string {
-  return `${searchType}_${window.startDate.toISOString()}_${window.endDate.toISOString()}`;
-}
-
-/**
- * Perform YouTube search API call
+ * Perform YouTube search API call for a single page of results
+ * An empty query with a channel lists that channel's uploads in the window
  */
 export async function performYouTubeSearch(
   apiKey: string,
   searchWindow: TimeWindow,
-  searchType: SearchType,
-  maxResults: number
-): Promise<string[]> {
-  try {
+  query: string,
+  maxResults: number,
+  pageToken?: string,
+  signal?: AbortSignal,
+  channelId?: string
+): Promise<SearchPage> {
+  // Retries are real calls, so each attempt is counted and charged
+  const response = await withRetry(() => {
     // Increment API call stats
-    apiStats.searchApiCalls++;
-    apiStats.totalApiCalls++;
+    countApiStat('searchApiCalls');
+    countApiStat('totalApiCalls');
+    quotaLedger.record('search', apiKey);
     
-    const response = await axios.get(`${YOUTUBE_API_URL}/search`, {
+    return youtubeHttp.get('/search', {
       params: {
         part: 'snippet',
         maxResults: maxResults,
         type: 'video',
         publishedAfter: searchWindow.startDate.toISOString(),
         publishedBefore: searchWindow.endDate.toISOString(),
-        // Add search query parameter based on search type
-        q: getSearchQuery(searchType),
+        // Search query generated by the search strategy
+        q: query || undefined,
+        channelId,
+        pageToken,
         key: apiKey,
       },
+      signal,
     });
-    
-    return response.data.items.map((item: any) => item.id.videoId);
-  } catch (error) {
-    return handleApiError(error, 'video search');
-  }
-}
\ No newline at end of file
+  }, 'video search', signal);
+  
+  return {
+    videoIds: (response.data.items || []).map((item: any) => item.id.videoId),
+    nextPageToken: response.data.nextPageToken
+  };
+}
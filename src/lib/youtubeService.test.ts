@@ -0,0 +1,201 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SearchType, TimeWindow } from '@/types';
+import { createInitialTimeWindow, createTimeWindow } from './utils';
+import { createSeededRandom } from './random';
+
+// Searches run without MySQL: dictionaries and the quota ledger fall back to memory
+vi.mock('./db', () => ({
+  ensureDatabase: () => Promise.reject(new Error('No database in tests')),
+  query: () => Promise.reject(new Error('No database in tests'))
+}));
+
+/**
+ * Load a fresh YouTube service, with empty caches, quota and key pool
+ * (and the fake API's per-key call counts)
+ */
+async function loadService() {
+  vi.resetModules();
+  const service = await import('./youtubeService');
+  const { apiKeyPool } = await import('./youtubeKeyPool');
+  const { createApiStats, trackApiStats } = await import('./youtubeTypes');
+  
+  /**
+   * Run a search with the service, counting its API usage
+   */
+  const withStats = async <T>(run: () => Promise<T>) => {
+    const apiStats = createApiStats();
+    const result = await trackApiStats(apiStats, run);
+    return { result, apiStats };
+  };
+  
+  return { ...service, apiKeyPool, withStats };
+}
+
+// A busy stretch of the fake corpus, with far more matches than a page holds
+const BUSY_WINDOW = createInitialTimeWindow(new Date('2020-06-15T12:00:00Z'));
+
+// A window in YouTube's first weeks, when almost nothing was uploaded
+const QUIET_WINDOW = createTimeWindow(new Date('2005-05-01T12:00:00Z'), 60);
+
+/**
+ * A distinct one-hour window per index, so no two searches share a cache entry
+ */
+function hourWindow(index: number): TimeWindow {
+  return createTimeWindow(new Date(Date.UTC(2019, 0, 1, index, 30)), 60);
+}
+
+beforeEach(() => {
+  delete process.env.YOUTUBE_FAKE_SCENARIO;
+  delete process.env.YOUTUBE_API_KEYS;
+  vi.spyOn(console, 'debug').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('searchVideosInTimeWindow', () => {
+  it('reads a busy window page by page', async () => {
+    const { searchVideosInTimeWindow, withStats } = await loadService();
+    
+    const { result: videoIds, apiStats } = await withStats(() =>
+      searchVideosInTimeWindow(BUSY_WINDOW, SearchType.RandomTime, 3, undefined, createSeededRandom('pages')));
+    
+    expect(apiStats.searchApiCalls).toBe(3);
+    expect(videoIds.length).toBeGreaterThan(100);
+    expect(new Set(videoIds).size).toBe(videoIds.length);
+  });
+  
+  it('answers a repeated search from the cache', async () => {
+    const { searchVideosInTimeWindow, withStats } = await loadService();
+    const search = () => searchVideosInTimeWindow(BUSY_WINDOW, SearchType.RandomTime, 2, undefined, createSeededRandom('cached'));
+    
+    const first = await withStats(search);
+    const second = await withStats(search);
+    
+    expect(second.result).toEqual(first.result);
+    expect(second.apiStats.searchApiCalls).toBe(0);
+    expect(second.apiStats.cachedSearches).toBe(2);
+  });
+});
+
+describe('searchAdaptiveWindow', () => {
+  it('narrows a window whose first page is full', async () => {
+    const { searchAdaptiveWindow } = await loadService();
+    
+    const { window, videoIds } = await searchAdaptiveWindow(
+      BUSY_WINDOW, SearchType.RandomTime, 1, undefined, createSeededRandom('narrow'));
+    
+    expect(window.durationMinutes).toBeLessThan(BUSY_WINDOW.durationMinutes);
+    expect(window.startDate.getTime()).toBeGreaterThanOrEqual(BUSY_WINDOW.startDate.getTime());
+    expect(window.endDate.getTime()).toBeLessThanOrEqual(BUSY_WINDOW.endDate.getTime());
+    expect(videoIds.length).toBeGreaterThan(0);
+  });
+  
+  it('widens a window that finds nothing', async () => {
+    const { searchAdaptiveWindow } = await loadService();
+    process.env.YOUTUBE_FAKE_SCENARIO = 'empty';
+    
+    const { window, videoIds } = await searchAdaptiveWindow(
+      QUIET_WINDOW, SearchType.RandomTime, 1, undefined, createSeededRandom('widen'));
+    
+    expect(videoIds).toEqual([]);
+    expect(window.durationMinutes).toBe(QUIET_WINDOW.durationMinutes * 8);
+  });
+});
+
+describe('YouTube API failures', () => {
+  it('retries a failed call until it succeeds', async () => {
+    const { searchVideosInTimeWindow, withStats } = await loadService();
+    process.env.YOUTUBE_FAKE_SCENARIO = 'flaky';
+    // The first call fails with a 503; the retry and later calls succeed
+    vi.spyOn(Math, 'random').mockReturnValueOnce(0).mockReturnValue(0.5);
+    
+    const { result: videoIds, apiStats } = await withStats(() =>
+      searchVideosInTimeWindow(BUSY_WINDOW, SearchType.RandomTime, 1, undefined, createSeededRandom('retry')));
+    
+    expect(videoIds.length).toBeGreaterThan(0);
+    // The failed call and its retry
+    expect(apiStats.searchApiCalls).toBe(2);
+  });
+  
+  it('gives up on a server error after the last attempt', async () => {
+    const { searchVideosInTimeWindow } = await loadService();
+    process.env.YOUTUBE_FAKE_SCENARIO = 'flaky';
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    
+    await expect(searchVideosInTimeWindow(hourWindow(0), SearchType.RandomTime, 1))
+      .rejects.toMatchObject({ kind: 'transient' });
+  });
+  
+  it('waits as long as a rate limit asks before retrying', async () => {
+    const { searchVideosInTimeWindow } = await loadService();
+    process.env.YOUTUBE_FAKE_SCENARIO = 'rateLimited';
+    vi.spyOn(Math, 'random').mockReturnValueOnce(0).mockReturnValue(0.5);
+    
+    const startedAt = Date.now();
+    const videoIds = await searchVideosInTimeWindow(BUSY_WINDOW, SearchType.RandomTime, 1, undefined, createSeededRandom('retry'));
+    
+    expect(videoIds.length).toBeGreaterThan(0);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(1000);
+  });
+  
+  it('reports a rate limit that never lifts', async () => {
+    const { searchVideosInTimeWindow } = await loadService();
+    process.env.YOUTUBE_FAKE_SCENARIO = 'rateLimited';
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    
+    await expect(searchVideosInTimeWindow(hourWindow(0), SearchType.RandomTime, 1))
+      .rejects.toMatchObject({ kind: 'quota' });
+  });
+  
+  it('moves on to the next key when one runs out of quota', async () => {
+    process.env.YOUTUBE_API_KEYS = 'test-key-a,test-key-b';
+    const { searchVideosInTimeWindow, apiKeyPool } = await loadService();
+    process.env.YOUTUBE_FAKE_SCENARIO = 'quotaExceeded';
+    
+    // One more search than the first key's quota allows
+    const results = await Promise.all(Array.from({ length: 21 }, (_, index) =>
+      searchVideosInTimeWindow(hourWindow(index), SearchType.RandomTime, 1)));
+    
+    expect(results).toHaveLength(21);
+    const [first, second] = apiKeyPool.getStatus();
+    expect(first.exhaustedUntil).not.toBeNull();
+    expect(second.exhaustedUntil).toBeNull();
+    expect(second.calls).toBeGreaterThan(0);
+  });
+  
+  it('fails once every key is out of quota', async () => {
+    process.env.YOUTUBE_API_KEYS = 'test-key-a';
+    const { searchVideosInTimeWindow } = await loadService();
+    process.env.YOUTUBE_FAKE_SCENARIO = 'quotaExceeded';
+    
+    await Promise.all(Array.from({ length: 20 }, (_, index) =>
+      searchVideosInTimeWindow(hourWindow(index), SearchType.RandomTime, 1)));
+    
+    await expect(searchVideosInTimeWindow(hourWindow(20), SearchType.RandomTime, 1))
+      .rejects.toThrow('quota exceeded on every API key');
+  });
+  
+  it('fails at once when the key is rejected', async () => {
+    const { searchVideosInTimeWindow, withStats } = await loadService();
+    process.env.YOUTUBE_FAKE_SCENARIO = 'invalidKey';
+    
+    await expect(withStats(() => searchVideosInTimeWindow(hourWindow(0), SearchType.RandomTime, 1)))
+      .rejects.toMatchObject({ kind: 'invalidKey', status: 502 });
+  });
+});
+
+describe('getVideoDetails', () => {
+  it('fetches the details of the videos a search found', async () => {
+    const { searchVideosInTimeWindow, getVideoDetails } = await loadService();
+    
+    const videoIds = await searchVideosInTimeWindow(createInitialTimeWindow(new Date('2012-03-01T00:00:00Z')), SearchType.RandomTime, 1);
+    const videos = await getVideoDetails(videoIds);
+    
+    expect(videos.length).toBeGreaterThan(0);
+    expect(videos.every(video => videoIds.includes(video.id))).toBe(true);
+  });
+});
@@ -1,125 +1,439 @@
-import { Video, TimeWindow, ViewStats, SearchType } from '@/types';
-import { YouTubeRateLimitError, apiStats, YouTubeServiceInterface } from './youtubeTypes';
-import { filterRareVideos as filterVideos, getViewStats as getVideoStats } from './youtubeFilters';
+import { Video, TimeWindow, ViewStats, SearchType, RaritySettings, RarityFilterResult, VideoCategory } from '@/types';
+import { 
+  YouTubeApiError,
+  YouTubeRateLimitError, 
+  YouTubeQuotaExceededError,
+  SearchCancelledError,
+  countApiStat, 
+  YouTubeServiceInterface, 
+  SearchPage
+} from './youtubeTypes';
+import { WindowSearchResult, VideoProviderService } from './videoProviderTypes';
 import { 
-  getLargeTimeWindow, 
-  getSearchCacheKey, 
-  performYouTubeSearch 
-} from './youtubeSearch';
+  SEARCH_PAGES_PER_WINDOW, 
+  MAX_SEARCH_PAGES, 
+  MIN_WINDOW_MINUTES, 
+  MAX_WINDOW_MINUTES, 
+  MAX_WINDOW_ADJUSTMENTS,
+  OLD_WINDOW_AGE_DAYS,
+  OLD_WINDOW_SEARCH_TTL_MS,
+  RECENT_WINDOW_SEARCH_TTL_MS,
+  VIDEO_DETAILS_TTL_MS,
+  SEARCH_CACHE_MAX_ENTRIES,
+  VIDEO_CACHE_MAX_ENTRIES,
+  CATEGORY_CACHE_TTL_MS,
+  CATEGORY_CACHE_MAX_ENTRIES,
+  SIBLING_SEARCH_PAGES
+} from './constants';
+import { subdivideTimeWindow, widenTimeWindow, clampTimeWindow } from './utils';
+import { quotaLedger, getQuotaResetTime } from './youtubeQuota';
+import { apiKeyPool } from './youtubeKeyPool';
+import { Cache, createCacheBackend } from './cache';
+import { filterRareVideos as filterVideos, getViewStats as getVideoStats } from './youtubeFilters';
+import { getSearchCacheKey, getChannelSearchCacheKey, performYouTubeSearch } from './youtubeSearch';
+import { throwIfCancelled } from './youtubeError';
+import { RandomSource } from './random';
+import { getSearchStrategy, getStrategyWindow, getSearchQuery } from './searchStrategies';
+import { searchDictionaries } from './searchDictionaries';
 import { 
+  fetchVideoBatch,
   processVideoDetails,
   parseVideoDetails
 } from './youtubeVideoDetails';
+import { fetchVideoCategories, parseVideoCategories } from './youtubeCategories';
+import logger from './logger';
+
+/**
+ * Search results for old windows are stable, recent windows still gain uploads
+ */
+function getSearchCacheTtl(window: TimeWindow): number {
+  const oldWindowCutoff = Date.now() - OLD_WINDOW_AGE_DAYS * 24 * 60 * 60 * 1000;
+  return window.endDate.getTime() < oldWindowCutoff
+    ? OLD_WINDOW_SEARCH_TTL_MS
+    : RECENT_WINDOW_SEARCH_TTL_MS;
+}
+
+const QUOTA_BUDGET_MESSAGE = 'Daily YouTube quota budget is nearly spent. Please try again after it resets.';
 
 /**
  * YouTube API Service - Core implementation
  * Encapsulates all YouTube API interactions with caching
  */
 class YouTubeApiService implements YouTubeServiceInterface {
-  private readonly apiKey: string;
+  readonly provider = 'youtube';
   private readonly maxResultsPerRequest: number;
   private readonly maxIdsPerRequest: number;
   
-  // Simple in-memory cache
-  private videoCache: Record<string, Video> = {};
-  private searchCache: Record<string, string[]> = {};
+  // Caches backed by memory or MySQL depending on CACHE_BACKEND
+  private videoCache = new Cache<Video>('video', {
+    backend: createCacheBackend(VIDEO_CACHE_MAX_ENTRIES),
+    defaultTtlMs: VIDEO_DETAILS_TTL_MS,
+    onHit: () => countApiStat('cachedVideoDetails'),
+    onMiss: () => countApiStat('videoCacheMisses')
+  });
+  private searchCache = new Cache<SearchPage>('search', {
+    backend: createCacheBackend(SEARCH_CACHE_MAX_ENTRIES),
+    defaultTtlMs: RECENT_WINDOW_SEARCH_TTL_MS,
+    onHit: () => countApiStat('cachedSearches'),
+    onMiss: () => countApiStat('searchCacheMisses')
+  });
+  private categoryCache = new Cache<VideoCategory[]>('categories', {
+    backend: createCacheBackend(CATEGORY_CACHE_MAX_ENTRIES),
+    defaultTtlMs: CATEGORY_CACHE_TTL_MS
+  });
   
   constructor() {
-    this.apiKey = process.env.NEXT_PUBLIC_YOUTUBE_API_KEY || '';
+    // API keys are server-only (see apiKeyPool): this service must never be imported into client components
     this.maxResultsPerRequest = 50;
     this.maxIdsPerRequest = 50;
   }
   
   /**
    * Search for videos in a specific time window with a specific search type
+   * Aborting the signal stops between pages and cancels the call in flight;
+   * the random source picks the query, so a seeded one makes the search reproducible
    */
-  async searchVideosInTimeWindow(window: TimeWindow, searchType: SearchType = SearchType.RandomTime): Promise<string[]> {
-    // Import the founding date
-    const { YOUTUBE_FOUNDING_DATE } = require('./constants');
+  async searchVideosInTimeWindow(
+    window: TimeWindow, 
+    searchType: SearchType = SearchType.RandomTime,
+    maxPages: number = SEARCH_PAGES_PER_WINDOW,
+    signal?: AbortSignal,
+    random: RandomSource = Math.random
+  ): Promise<string[]> {
+    const query = await this.pickQuery(searchType, random);
+    return this.searchWindowPages(window, searchType, query, maxPages, signal);
+  }
+  
+  /**
+   * Draw a search's query from the active dictionaries
+   * Drawn up front, whether or not its pages are cached, so a seeded random source
+   * makes the same draws on a cold and a warm cache
+   */
+  private async pickQuery(searchType: SearchType, random: RandomSource): Promise<string> {
+    await searchDictionaries.load();
+    return getSearchQuery(searchType, random);
+  }
+  
+  /**
+   * Search a window page by page with a query, returning the IDs found
+   * Every page of a window shares the query, since page tokens are tied to it
+   */
+  private async searchWindowPages(
+    window: TimeWindow,
+    searchType: SearchType,
+    query: string,
+    maxPages: number,
+    signal?: AbortSignal
+  ): Promise<string[]> {
+    const searchWindow = this.getSearchWindow(window, searchType);
+    await quotaLedger.load();
     
-    // Determine the appropriate time window based on search type
-    let searchWindow = {...window};
-    if (searchType === SearchType.Unedited) {
-      searchWindow = getLargeTimeWindow(window);
-    }
+    const pageLimit = Math.max(1, Math.min(maxPages, MAX_SEARCH_PAGES));
+    const videoIds: string[] = [];
+    let pageToken: string | undefined;
     
-    // Ensure we never search before YouTube's founding
-    if (searchWindow.startDate < YOUTUBE_FOUNDING_DATE) {
-      searchWindow.startDate = new Date(YOUTUBE_FOUNDING_DATE);
-      console.log('Adjusted search window to start at YouTube founding date');
+    for (let page = 0; page < pageLimit; page++) {
+      throwIfCancelled(signal);
+      const cacheKey = getSearchCacheKey(searchWindow, searchType, query, page);
+      let searchPage = await this.searchCache.get(cacheKey);
+      
+      // Check if we already have this page cached
+      if (searchPage) {
+        logger.debug('YouTubeService: Using cached search page', { cacheKey });
+      } else {
+        // Stop before the daily quota runs out, keeping what earlier pages found
+        if (!quotaLedger.canAfford('search')) {
+          if (videoIds.length > 0) {
+            logger.warn('YouTubeService: Daily quota budget low, skipping remaining search pages');
+            break;
+          }
+          throw new YouTubeRateLimitError(QUOTA_BUDGET_MESSAGE);
+        }
+        
+        try {
+          // Perform the search for this page
+          searchPage = await this.withApiKey(apiKey => performYouTubeSearch(
+            apiKey, 
+            searchWindow, 
+            query, 
+            this.maxResultsPerRequest,
+            pageToken,
+            signal
+          ));
+          
+          // Cache the page under its own key
+          await this.searchCache.set(cacheKey, searchPage, getSearchCacheTtl(searchWindow));
+        } catch (error) {
+          // Keep what earlier pages found rather than losing the whole window,
+          // but never report a failed first page as an empty window (or ignore a cancel)
+          if (videoIds.length === 0 || error instanceof SearchCancelledError) {
+            throw error;
+          }
+          logger.error('YouTubeService: Error searching videos', { page: page + 1, error });
+          break;
+        }
+      }
+      
+      searchPage.videoIds.forEach(id => {
+        if (!videoIds.includes(id)) videoIds.push(id);
+      });
+      
+      // Stop when YouTube has no more results for this window
+      if (!searchPage.nextPageToken) break;
+      pageToken = searchPage.nextPageToken;
     }
     
-    const cacheKey = getSearchCacheKey(searchWindow, searchType);
+    return videoIds;
+  }
+  
+  /**
+   * Search a window, adapting its size to how busy it is
+   * A full first page means the window is crowded with results, so it is halved
+   * to reach more obscure uploads; an empty one is widened before giving up.
+   * One query is drawn for the whole search, so every probe and the settled
+   * window share it. Returns the window that was finally searched, with its query.
+   */
+  async searchAdaptiveWindow(
+    window: TimeWindow,
+    searchType: SearchType = SearchType.RandomTime,
+    maxPages: number = SEARCH_PAGES_PER_WINDOW,
+    signal?: AbortSignal,
+    random: RandomSource = Math.random
+  ): Promise<WindowSearchResult> {
+    const query = await this.pickQuery(searchType, random);
+    let currentWindow = window;
     
-    // Check if we already have this search cached
-    if (this.searchCache[cacheKey]) {
-      console.log(`Using cached search results for ${cacheKey}`);
-      apiStats.cachedSearches++;
-      return this.searchCache[cacheKey];
+    for (let step = 0; step < MAX_WINDOW_ADJUSTMENTS; step++) {
+      // Probe with a single page to decide whether to adjust
+      const probeIds = await this.searchWindowPages(currentWindow, searchType, query, 1, signal);
+      
+      // Adjusting costs another search, so settle for this window when the budget is tight
+      if (!quotaLedger.canAfford('search', 2)) {
+        break;
+      }
+      
+      if (probeIds.length >= this.maxResultsPerRequest && currentWindow.durationMinutes / 2 >= MIN_WINDOW_MINUTES) {
+        currentWindow = subdivideTimeWindow(currentWindow, random);
+        logger.debug('YouTubeService: Window full, narrowing', { durationMinutes: currentWindow.durationMinutes });
+      } else if (probeIds.length === 0 && currentWindow.durationMinutes * 2 <= MAX_WINDOW_MINUTES) {
+        currentWindow = widenTimeWindow(currentWindow);
+        logger.debug('YouTubeService: Window empty, widening', { durationMinutes: currentWindow.durationMinutes });
+      } else {
+        break;
+      }
     }
     
-    try {
-      // Perform the search
-      const videoIds = await performYouTubeSearch(
-        this.apiKey, 
-        searchWindow, 
-        searchType, 
-        this.maxResultsPerRequest
-      );
+    // Mine the settled window; its first page is already cached from the probe
+    const videoIds = await this.searchWindowPages(currentWindow, searchType, query, maxPages, signal);
+    
+    return {
+      videoIds,
+      window: this.getSearchWindow(currentWindow, searchType),
+      query
+    };
+  }
+  
+  /**
+   * List a channel's uploads in a time window, page by page
+   * Used to find the siblings of a video, so the window is searched as given
+   * (no search type transforms it) and without a query
+   */
+  async searchChannelWindow(
+    channelId: string,
+    window: TimeWindow,
+    maxPages: number = SIBLING_SEARCH_PAGES,
+    signal?: AbortSignal
+  ): Promise<string[]> {
+    const searchWindow = clampTimeWindow(window);
+    await quotaLedger.load();
+    
+    const pageLimit = Math.max(1, Math.min(maxPages, MAX_SEARCH_PAGES));
+    const videoIds: string[] = [];
+    let pageToken: string | undefined;
+    
+    for (let page = 0; page < pageLimit; page++) {
+      throwIfCancelled(signal);
+      const cacheKey = getChannelSearchCacheKey(channelId, searchWindow, page);
+      let searchPage = await this.searchCache.get(cacheKey);
       
-      // Cache the results
-      this.searchCache[cacheKey] = videoIds;
+      if (!searchPage) {
+        if (!quotaLedger.canAfford('search')) {
+          if (videoIds.length > 0) break;
+          throw new YouTubeRateLimitError(QUOTA_BUDGET_MESSAGE);
+        }
+        
+        const pageToFetch = pageToken;
+        searchPage = await this.withApiKey(apiKey => performYouTubeSearch(
+          apiKey,
+          searchWindow,
+          '',
+          this.maxResultsPerRequest,
+          pageToFetch,
+          signal,
+          channelId
+        ));
+        await this.searchCache.set(cacheKey, searchPage, getSearchCacheTtl(searchWindow));
+      }
       
-      return videoIds;
-    } catch (error) {
-      if (error instanceof YouTubeRateLimitError) {
-        throw error;
+      searchPage.videoIds.forEach(id => {
+        if (!videoIds.includes(id)) videoIds.push(id);
+      });
+      
+      if (!searchPage.nextPageToken) break;
+      pageToken = searchPage.nextPageToken;
+    }
+    
+    return videoIds;
+  }
+  
+  /**
+   * Run a request with a pooled API key, moving on to the next key whenever
+   * one runs out of quota; only fails once every key is spent
+   */
+  private async withApiKey<T>(request: (apiKey: string) => Promise<T>): Promise<T> {
+    for (;;) {
+      const apiKey = apiKeyPool.getActiveKey();
+      try {
+        return await request(apiKey);
+      } catch (error) {
+        if (!(error instanceof YouTubeQuotaExceededError)) {
+          throw error;
+        }
+        apiKeyPool.markExhausted(apiKey, getQuotaResetTime());
       }
-      console.error('Error searching videos:', error);
-      return [];
     }
   }
   
+  /**
+   * Get the window actually searched for a base window and search type
+   */
+  private getSearchWindow(window: TimeWindow, searchType: SearchType): TimeWindow {
+    // Apply the search type's window transformer, never searching outside YouTube's lifetime
+    return clampTimeWindow(getStrategyWindow(searchType, window));
+  }
+  
   /**
    * Get detailed video information
+   * Batches that fetched are cached and returned even if others failed (those are
+   * logged and left out); the failure is only thrown when nothing new could be fetched.
    */
-  async getVideoDetails(videoIds: string[]): Promise<Video[]> {
+  async getVideoDetails(videoIds: string[], signal?: AbortSignal): Promise<Video[]> {
+    await quotaLedger.load();
+    let cachedVideos: Record<string, Video> = {};
+    
     try {
-      // Process video details with batching and caching
-      const videoItems = await processVideoDetails(
-        this.apiKey,
-        videoIds,
-        this.videoCache,
-        this.maxIdsPerRequest
+      // Only fetch the videos we don't already have
+      cachedVideos = await this.videoCache.getMany(videoIds);
+      const uncachedIds = videoIds.filter(id => !cachedVideos[id]);
+      if (uncachedIds.length === 0) {
+        return videoIds.map(id => cachedVideos[id]);
+      }
+      
+      const batchCount = Math.ceil(uncachedIds.length / this.maxIdsPerRequest);
+      if (!quotaLedger.canAfford('videos', batchCount)) {
+        throw new YouTubeRateLimitError(QUOTA_BUDGET_MESSAGE);
+      }
+      
+      // Process video details with batching, each batch rotating keys on its own
+      const { items, failedIds, error } = await processVideoDetails(
+        uncachedIds,
+        this.maxIdsPerRequest,
+        batchIds => this.withApiKey(apiKey => fetchVideoBatch(apiKey, batchIds, signal))
       );
       
-      // Parse and cache the videos
-      const videos = parseVideoDetails(videoItems);
+      // Parse and cache the videos of the batches that succeeded
+      const videos = parseVideoDetails(items);
+      for (const video of videos) {
+        cachedVideos[video.id] = video;
+        await this.videoCache.set(video.id, video);
+      }
       
-      // Update cache with new videos
-      videos.forEach(video => {
-        this.videoCache[video.id] = video;
-      });
+      if (failedIds.length > 0) {
+        // A cancel, or a failure that left nothing to show, still ends the call
+        if (failedIds.length === uncachedIds.length || error instanceof SearchCancelledError) {
+          throw error;
+        }
+        logger.warn('YouTubeService: Some video detail batches failed, leaving them out', {
+          failed: failedIds.length,
+          fetched: uncachedIds.length - failedIds.length
+        });
+      }
       
       // Return all videos (including previously cached ones)
-      return videoIds.map(id => this.videoCache[id]).filter(Boolean);
+      return videoIds.map(id => cachedVideos[id]).filter(Boolean);
     } catch (error) {
-      if (error instanceof YouTubeRateLimitError) {
+      // Classified YouTube failures and cancels go to the caller so the UI can explain them
+      if (error instanceof YouTubeApiError || error instanceof SearchCancelledError) {
         throw error;
       }
       
-      console.error('Error getting video details:', error);
+      logger.error('YouTubeService: Error getting video details', { error });
       // Return any cached videos we have for non-rate-limit errors
-      return videoIds.map(id => this.videoCache[id]).filter(Boolean);
+      return videoIds.map(id => cachedVideos[id]).filter(Boolean);
+    }
+  }
+  
+  /**
+   * Get current details of videos, bypassing the cache (and refreshing it)
+   * Batches are fetched one after another, so refreshing a long list doesn't burst
+   * the API; videos YouTube no longer returns are left out.
+   */
+  async getFreshVideoDetails(videoIds: string[], signal?: AbortSignal): Promise<Video[]> {
+    await quotaLedger.load();
+    const videos: Video[] = [];
+    
+    for (let i = 0; i < videoIds.length; i += this.maxIdsPerRequest) {
+      throwIfCancelled(signal);
+      if (!quotaLedger.canAfford('videos')) {
+        throw new YouTubeRateLimitError(QUOTA_BUDGET_MESSAGE);
+      }
+      
+      const batchIds = videoIds.slice(i, i + this.maxIdsPerRequest);
+      const items = await this.withApiKey(apiKey => fetchVideoBatch(apiKey, batchIds, signal));
+      for (const video of parseVideoDetails(items)) {
+        await this.videoCache.set(video.id, video);
+        videos.push(video);
+      }
     }
+    
+    return videos;
   }
   
   /**
-   * Filter videos with less than 10 views and not streams or commercial content
-   * Delegates to the filter utility
+   * Get the video categories of a region (e.g. 'US'), cached per region
    */
-  filterRareVideos(videos: Video[]): Video[] {
-    return filterVideos(videos);
+  async getVideoCategories(regionCode: string, signal?: AbortSignal): Promise<VideoCategory[]> {
+    const cached = await this.categoryCache.get(regionCode);
+    if (cached) return cached;
+    
+    await quotaLedger.load();
+    if (!quotaLedger.canAfford('videoCategories')) {
+      throw new YouTubeRateLimitError(QUOTA_BUDGET_MESSAGE);
+    }
+    
+    const categories = parseVideoCategories(
+      await this.withApiKey(apiKey => fetchVideoCategories(apiKey, regionCode, signal))
+    );
+    await this.categoryCache.set(regionCode, categories);
+    return categories;
+  }
+  
+  /**
+   * Filter videos down to rare ones using the rarity rules (default settings unless given)
+   * Delegates to the filter utility, then applies the strategy's post-filter;
+   * only rarity rule rejections are reported
+   */
+  filterRareVideos(
+    videos: Video[], 
+    searchType: SearchType = SearchType.RandomTime, 
+    rarity?: RaritySettings
+  ): RarityFilterResult {
+    const { postFilter } = getSearchStrategy(searchType);
+    const { videos: rareVideos, rejections } = filterVideos(videos, rarity);
+    return {
+      videos: postFilter ? postFilter(rareVideos) : rareVideos,
+      rejections
+    };
   }
   
   /**
@@ -134,15 +448,47 @@ class YouTubeApiService implements YouTubeServiceInterface {
 // Create a singleton instance of the YouTube API service
 const youtubeApiService = new YouTubeApiService();
 
+// The service as a video provider (see videoProviderServices)
+export const youtubeProviderService: VideoProviderService = youtubeApiService;
+
 // Export methods for use elsewhere
-export const searchVideosInTimeWindow = (window: TimeWindow, searchType?: SearchType): Promise<string[]> => 
-  youtubeApiService.searchVideosInTimeWindow(window, searchType);
+export const searchVideosInTimeWindow = (
+  window: TimeWindow, 
+  searchType?: SearchType, 
+  maxPages?: number, 
+  signal?: AbortSignal,
+  random?: RandomSource
+): Promise<string[]> => 
+  youtubeApiService.searchVideosInTimeWindow(window, searchType, maxPages, signal, random);
+
+export const searchAdaptiveWindow = (
+  window: TimeWindow, 
+  searchType?: SearchType, 
+  maxPages?: number, 
+  signal?: AbortSignal,
+  random?: RandomSource
+): Promise<WindowSearchResult> => 
+  youtubeApiService.searchAdaptiveWindow(window, searchType, maxPages, signal, random);
+
+export const searchChannelWindow = (
+  channelId: string,
+  window: TimeWindow,
+  maxPages?: number,
+  signal?: AbortSignal
+): Promise<string[]> => 
+  youtubeApiService.searchChannelWindow(channelId, window, maxPages, signal);
+
+export const getVideoDetails = (videoIds: string[], signal?: AbortSignal): Promise<Video[]> => 
+  youtubeApiService.getVideoDetails(videoIds, signal);
+
+export const getFreshVideoDetails = (videoIds: string[], signal?: AbortSignal): Promise<Video[]> => 
+  youtubeApiService.getFreshVideoDetails(videoIds, signal);
 
-export const getVideoDetails = (videoIds: string[]): Promise<Video[]> => 
-  youtubeApiService.getVideoDetails(videoIds);
+export const getVideoCategories = (regionCode: string, signal?: AbortSignal): Promise<VideoCategory[]> => 
+  youtubeApiService.getVideoCategories(regionCode, signal);
 
-export const filterRareVideos = (videos: Video[]): Video[] => 
-  filterVideos(videos);
+export const filterRareVideos = (videos: Video[], searchType?: SearchType, rarity?: RaritySettings): RarityFilterResult => 
+  youtubeApiService.filterRareVideos(videos, searchType, rarity);
 
 export const getViewStats = (videos: Video[]): ViewStats => 
   getVideoStats(videos);
\ No newline at end of file
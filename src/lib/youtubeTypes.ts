@@ -1,39 +1,153 @@
-import { Video, TimeWindow, ViewStats, SearchType } from '@/types';
+import { AsyncLocalStorage } from 'async_hooks';
+import { Video, TimeWindow, ViewStats, SearchType, RaritySettings, RarityFilterResult, VideoCategory, ApiStats } from '@/types';
+import { ApiError } from './api';
+import { RandomSource } from './random';
+import { VideoProviderService } from './videoProviderTypes';
+
+/**
+ * Kinds of YouTube API failure, so the UI can tell them apart
+ * - transient: network blips and YouTube server errors, worth retrying
+ * - quota: rate limits and exhausted daily quota
+ * - invalidKey: the API key is missing, wrong or not allowed to use the API
+ * - badRequest: YouTube rejected the request itself
+ */
+export type YouTubeErrorKind = 'transient' | 'quota' | 'invalidKey' | 'badRequest';
+
+/**
+ * Base error type for classified YouTube API failures
+ * Extends ApiError so API routes report the status and kind (as the error code)
+ */
+export class YouTubeApiError extends ApiError {
+  readonly kind: YouTubeErrorKind;
+  
+  constructor(message: string, kind: YouTubeErrorKind, status: number) {
+    super(message, status, kind);
+    this.name = 'YouTubeApiError';
+    this.kind = kind;
+  }
+}
 
 /**
  * Error type for YouTube API rate limits
+ * Reported as HTTP 429
  */
-export class YouTubeRateLimitError extends Error {
+export class YouTubeRateLimitError extends YouTubeApiError {
   constructor(message: string) {
-    super(message);
+    super(message, 'quota', 429);
     this.name = 'YouTubeRateLimitError';
   }
 }
 
 /**
- * API call stats for monitoring YouTube API usage
+ * Error type for an API key whose daily quota is used up
+ * Other keys in the pool may still have quota left
  */
-export const apiStats = {
-  searchApiCalls: 0,
-  videoDetailApiCalls: 0,
-  totalApiCalls: 0,
-  cachedSearches: 0,
-  cachedVideoDetails: 0,
-  reset: () => {
-    apiStats.searchApiCalls = 0;
-    apiStats.videoDetailApiCalls = 0;
-    apiStats.totalApiCalls = 0;
-    apiStats.cachedSearches = 0;
-    apiStats.cachedVideoDetails = 0;
+export class YouTubeQuotaExceededError extends YouTubeRateLimitError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'YouTubeQuotaExceededError';
   }
-};
+}
+
+/**
+ * Error type for network failures and YouTube server errors that outlasted retries
+ */
+export class YouTubeTransientError extends YouTubeApiError {
+  constructor(message: string) {
+    super(message, 'transient', 503);
+    this.name = 'YouTubeTransientError';
+  }
+}
+
+/**
+ * Error type for a rejected API key (server misconfiguration)
+ */
+export class YouTubeInvalidKeyError extends YouTubeApiError {
+  constructor(message: string) {
+    super(message, 'invalidKey', 502);
+    this.name = 'YouTubeInvalidKeyError';
+  }
+}
+
+/**
+ * Error type for requests YouTube refused as malformed
+ */
+export class YouTubeBadRequestError extends YouTubeApiError {
+  constructor(message: string) {
+    super(message, 'badRequest', 502);
+    this.name = 'YouTubeBadRequestError';
+  }
+}
+
+/**
+ * Error type for a search the client cancelled
+ * Not a YouTube failure, so it is kept out of the taxonomy above
+ */
+export class SearchCancelledError extends ApiError {
+  constructor(message: string = 'Search cancelled') {
+    super(message, 499, 'cancelled');
+    this.name = 'SearchCancelledError';
+  }
+}
+
+/**
+ * A single page of YouTube search results
+ */
+export interface SearchPage {
+  videoIds: string[];
+  nextPageToken?: string;
+}
+
+/**
+ * Create zeroed API call stats, for monitoring one search's YouTube API usage
+ */
+export function createApiStats(): ApiStats {
+  return {
+    searchApiCalls: 0,
+    videoDetailApiCalls: 0,
+    totalApiCalls: 0,
+    cachedSearches: 0,
+    cachedVideoDetails: 0,
+    searchCacheMisses: 0,
+    videoCacheMisses: 0,
+    quotaUnitsUsed: 0
+  };
+}
+
+// Stats of the search running in the current async context, if any
+const apiStatsScope = new AsyncLocalStorage<ApiStats>();
+
+/**
+ * Run a search, counting the API calls, cache lookups and quota units it causes into stats
+ * Concurrent searches and background jobs never share counters; usage outside
+ * any tracked search isn't counted here (the quota ledger still charges it)
+ */
+export function trackApiStats<T>(stats: ApiStats, run: () => Promise<T>): Promise<T> {
+  return apiStatsScope.run(stats, run);
+}
+
+/**
+ * Add to one of the current search's API stats (no-op outside a tracked search)
+ */
+export function countApiStat(stat: keyof ApiStats, amount: number = 1): void {
+  const stats = apiStatsScope.getStore();
+  if (stats) {
+    stats[stat] += amount;
+  }
+}
 
 /**
- * Interface for the YouTube API service
+ * Interface for the YouTube API service, the first video provider
  */
-export interface YouTubeServiceInterface {
-  searchVideosInTimeWindow(window: TimeWindow, searchType?: SearchType): Promise<string[]>;
-  getVideoDetails(videoIds: string[]): Promise<Video[]>;
-  filterRareVideos(videos: Video[]): Video[];
+export interface YouTubeServiceInterface extends VideoProviderService {
+  searchVideosInTimeWindow(
+    window: TimeWindow, 
+    searchType?: SearchType, 
+    maxPages?: number, 
+    signal?: AbortSignal, 
+    random?: RandomSource
+  ): Promise<string[]>;
+  getVideoCategories(regionCode: string, signal?: AbortSignal): Promise<VideoCategory[]>;
+  filterRareVideos(videos: Video[], searchType?: SearchType, rarity?: RaritySettings): RarityFilterResult;
   getViewStats(videos: Video[]): ViewStats;
 }
\ No newline at end of file
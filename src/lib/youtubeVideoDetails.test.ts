@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { processVideoDetails } from './youtubeVideoDetails';
+import { YouTubeTransientError } from './youtubeTypes';
+
+/**
+ * Fetch batches as raw items, failing the batches that contain a given ID
+ */
+function fetchFailingOn(failingId: string, fetched: string[][]) {
+  return async (batchIds: string[]) => {
+    fetched.push(batchIds);
+    if (batchIds.includes(failingId)) {
+      throw new YouTubeTransientError('YouTube had a server error');
+    }
+    return batchIds.map(id => ({ id }));
+  };
+}
+
+describe('processVideoDetails', () => {
+  it('fetches every batch once', async () => {
+    const fetched: string[][] = [];
+    const result = await processVideoDetails(['a', 'b', 'c', 'd', 'e'], 2, fetchFailingOn('none', fetched));
+    
+    expect(fetched).toEqual([['a', 'b'], ['c', 'd'], ['e']]);
+    expect(result.items.map(item => item.id)).toEqual(['a', 'b', 'c', 'd', 'e']);
+    expect(result.failedIds).toEqual([]);
+    expect(result.error).toBeUndefined();
+  });
+  
+  it('keeps the batches that succeeded when one fails', async () => {
+    const result = await processVideoDetails(['a', 'b', 'c', 'd', 'e'], 2, fetchFailingOn('c', []));
+    
+    expect(result.items.map(item => item.id)).toEqual(['a', 'b', 'e']);
+    expect(result.failedIds).toEqual(['c', 'd']);
+    expect(result.error).toBeInstanceOf(YouTubeTransientError);
+  });
+  
+  it('does nothing without IDs', async () => {
+    const fetched: string[][] = [];
+    expect(await processVideoDetails([], 50, fetchFailingOn('none', fetched))).toEqual({ items: [], failedIds: [] });
+    expect(fetched).toEqual([]);
+  });
+});
@@ -1,30 +1,82 @@
-import axios from 'axios';
-import { Video } from '@/types';
-import { YOUTUBE_API_URL } from './constants';
-import { apiStats, YouTubeRateLimitError } from './youtubeTypes';
-import { filterExcludedCategories } from './youtubeFilters';
-import { handleApiError } from './youtubeError';
+import { Video, VideoAvailability } from '@/types';
+import { getVideoProvider } from './videoProviders';
+import { youtubeHttp } from './youtubeHttp';
+import { parseDuration } from './utils';
+import { countApiStat } from './youtubeTypes';
+import { withRetry } from './youtubeError';
+import { quotaLedger } from './youtubeQuota';
+import { AVAILABILITY_REGION_CODE, YOUTUBE_OEMBED_URL } from './constants';
+import logger from './logger';
+
+// Any height works; the player's size is only read for its aspect ratio
+const PLAYER_PROBE_HEIGHT = 360;
 
 /**
  * Fetch a batch of video details from YouTube API
  */
-export async function fetchVideoBatch(apiKey: string, batchIds: string[]): Promise<any[]> {
-  try {
+export async function fetchVideoBatch(apiKey: string, batchIds: string[], signal?: AbortSignal): Promise<any[]> {
+  // Retries are real calls, so each attempt is counted and charged
+  const response = await withRetry(() => {
     // Increment API call stats
-    apiStats.videoDetailApiCalls++;
-    apiStats.totalApiCalls++;
+    countApiStat('videoDetailApiCalls');
+    countApiStat('totalApiCalls');
+    quotaLedger.record('videos', apiKey);
     
-    const response = await axios.get(`${YOUTUBE_API_URL}/videos`, {
+    return youtubeHttp.get('/videos', {
       params: {
-        part: 'snippet,statistics,contentDetails,liveStreamingDetails,topicDetails,status',
+        part: 'snippet,statistics,contentDetails,liveStreamingDetails,topicDetails,status,player',
         id: batchIds.join(','),
+        // Makes the player report its embed size, which reveals vertical videos
+        maxHeight: PLAYER_PROBE_HEIGHT,
         key: apiKey,
       },
+      signal,
+    });
+  }, 'fetching video details', signal);
+  
+  return response.data.items || [];
+}
+
+// Upload states of videos that are gone (removed by the uploader, or by YouTube)
+const REMOVED_UPLOAD_STATUSES = ['deleted', 'failed', 'rejected'];
+
+/**
+ * Tell from a video resource's status and contentDetails parts whether it can be
+ * watched in the app from a region (see probeMissingVideo for videos missing from a response)
+ */
+export function getVideoAvailability(item: any, regionCode: string = AVAILABILITY_REGION_CODE): VideoAvailability {
+  const restriction = item.contentDetails?.regionRestriction;
+  
+  if (REMOVED_UPLOAD_STATUSES.includes(item.status?.uploadStatus)) return 'deleted';
+  if (item.status?.privacyStatus === 'private') return 'private';
+  if (restriction?.blocked?.includes(regionCode) || (restriction?.allowed && !restriction.allowed.includes(regionCode))) {
+    return 'regionBlocked';
+  }
+  if (item.status?.embeddable === false) return 'notEmbeddable';
+  return 'available';
+}
+
+/**
+ * Tell whether a video the Data API no longer returns was made private or deleted
+ * videos.list leaves out both, but YouTube's oEmbed endpoint (keyless, no quota)
+ * answers 401 for private videos and 404 for removed ones. Returns null when the
+ * probe can't tell, so the video's last known availability is kept.
+ */
+export async function probeMissingVideo(videoId: string, signal?: AbortSignal): Promise<VideoAvailability | null> {
+  try {
+    const response = await youtubeHttp.get(YOUTUBE_OEMBED_URL, {
+      params: { url: getVideoProvider('youtube').getPermalink(videoId), format: 'json' },
+      validateStatus: () => true,
+      signal
     });
     
-    return response.data.items || [];
+    if (response.status === 401 || response.status === 403) return 'private';
+    if (response.status === 400 || response.status === 404) return 'deleted';
+    logger.debug('probeMissingVideo: Inconclusive oEmbed response', { videoId, status: response.status });
+    return null;
   } catch (error) {
-    return handleApiError(error, 'fetching video details');
+    logger.warn('probeMissingVideo: oEmbed probe failed', { videoId, error });
+    return null;
   }
 }
 
@@ -38,72 +90,77 @@ export function parseVideoDetails(items: any[]): Video[] {
     const isUpcoming = item.liveStreamingDetails?.scheduledStartTime && 
                      !item.liveStreamingDetails?.actualEndTime;
     const duration = item.contentDetails?.duration || '';
+    const embedWidth = Number(item.player?.embedWidth);
+    const embedHeight = Number(item.player?.embedHeight);
     
     // Check license
     const isLicensed = item.status?.license === 'youtube' ? false : true;
     
     return {
       id: item.id,
+      provider: 'youtube',
       title: item.snippet.title,
       description: item.snippet.description,
       thumbnailUrl: item.snippet.thumbnails.medium.url,
       publishedAt: item.snippet.publishedAt,
       viewCount: parseInt(item.statistics.viewCount || '0', 10),
       channelTitle: item.snippet.channelTitle,
+      channelId: item.snippet.channelId,
       categoryId: item.snippet.categoryId,
       isLiveStream,
       isUpcoming,
       duration,
-      isLicensed
+      durationSeconds: parseDuration(duration),
+      isVertical: embedWidth > 0 && embedHeight > 0 ? embedHeight > embedWidth : undefined,
+      isLicensed,
+      availability: getVideoAvailability(item)
     };
   });
 }
 
 /**
- * Process video details including batching, filtering, and caching
+ * Outcome of fetching video details in batches
+ */
+export interface VideoDetailsBatchResult {
+  // Raw items of the batches that succeeded, for parsing
+  items: any[];
+  // IDs of the batches that failed, with the first failure (already classified)
+  failedIds: string[];
+  error?: unknown;
+}
+
+/**
+ * Process video details with batching
+ * Callers pass only the IDs they don't already have cached; category
+ * filtering is left to the rarity rules so it can be toggled per search.
+ * Each batch is fetched (and retried on another key) by fetchBatch on its own,
+ * and one batch failing doesn't lose the others: their items are returned
+ * alongside the IDs that failed, so only those need fetching again.
  */
 export async function processVideoDetails(
-  apiKey: string,
   videoIds: string[],
-  videoCache: Record<string, Video>,
-  maxIdsPerRequest: number
-): Promise<Video[]> {
-  if (!videoIds.length) return [];
-  
-  // Filter out video IDs that are already cached
-  const uncachedIds = videoIds.filter(id => !videoCache[id]);
-  
-  // If all videos are cached, return from cache
-  if (uncachedIds.length === 0) {
-    apiStats.cachedVideoDetails += videoIds.length;
-    return videoIds.map(id => videoCache[id]);
-  }
+  maxIdsPerRequest: number,
+  fetchBatch: (batchIds: string[]) => Promise<any[]>
+): Promise<VideoDetailsBatchResult> {
+  const result: VideoDetailsBatchResult = { items: [], failedIds: [] };
+  if (!videoIds.length) return result;
   
   // Split IDs into batches
-  const batches = [];
-  for (let i = 0; i < uncachedIds.length; i += maxIdsPerRequest) {
-    batches.push(uncachedIds.slice(i, i + maxIdsPerRequest));
+  const batches: string[][] = [];
+  for (let i = 0; i < videoIds.length; i += maxIdsPerRequest) {
+    batches.push(videoIds.slice(i, i + maxIdsPerRequest));
   }
   
-  try {
-    // Process all batches in parallel
-    const batchPromises = batches.map(batchIds => fetchVideoBatch(apiKey, batchIds));
-    const batchResults = await Promise.all(batchPromises);
-    const allItems = batchResults.flat();
-    
-    // Filter out excluded categories
-    const filteredItems = filterExcludedCategories(allItems);
-    
-    // Parse and return video details
-    return filteredItems;
-  } catch (error) {
-    // If this is a rate limit error, propagate it up
-    if (error instanceof YouTubeRateLimitError) {
-      throw error;
+  // Process all batches in parallel, keeping what succeeded
+  const outcomes = await Promise.allSettled(batches.map(batchIds => fetchBatch(batchIds)));
+  outcomes.forEach((outcome, index) => {
+    if (outcome.status === 'fulfilled') {
+      result.items.push(...outcome.value);
+    } else {
+      result.failedIds.push(...batches[index]);
+      if (result.error === undefined) result.error = outcome.reason;
     }
-    
-    console.error('Error getting video details:', error);
-    // Return any cached videos we have for non-rate-limit errors
-    return videoIds.map(id => videoCache[id]).filter(Boolean);
-  }
-}
\ No newline at end of file
+  });
+  
+  return result;
+}
@@ -1,22 +1,59 @@
+/**
+ * Whether a video can be watched in the app, as YouTube last reported it
+ */
+export type VideoAvailability = 'available' | 'deleted' | 'private' | 'regionBlocked' | 'notEmbeddable';
+
+/**
+ * How the saved grid treats videos that can't be watched: badge them, hide them
+ * or move them to the end
+ */
+export type UnavailableVideoMode = 'flag' | 'hide' | 'sortLast';
+
+/**
+ * Identifiers of the platforms videos can come from (see lib/videoProviders)
+ */
+export type VideoProviderId = 'youtube' | 'vimeo' | 'dailymotion' | 'archive';
+
 export interface Video {
   id: string;
+  // Platform hosting the video; YouTube when missing
+  provider?: VideoProviderId;
   title: string;
   description: string;
   thumbnailUrl: string;
   publishedAt: string;
   viewCount: number;
   channelTitle: string;
+  // Uploader's channel, used to find the video's siblings
+  channelId?: string;
   categoryId?: string;
   isLiveStream?: boolean;
   isUpcoming?: boolean;
   isLicensed?: boolean;
   duration?: string;
+  durationSeconds?: number;
+  // Whether the player is taller than wide (a strong hint of a Short)
+  isVertical?: boolean;
+  // Whether it can be watched here (see lib/videoAvailability)
+  availability?: VideoAvailability;
 }
 
 export interface SavedVideo extends Omit<Video, 'id'> {
   video_id: string;
   view_count_at_discovery: number;
   discovered_at: string;
+  // View counts recorded by the view refresher since discovery, oldest first
+  view_history?: ViewSnapshot[];
+  // When the view refresher last checked availability (null until it has)
+  availability_checked_at?: string | null;
+}
+
+/**
+ * A saved video's view count at one moment
+ */
+export interface ViewSnapshot {
+  viewCount: number;
+  capturedAt: string;
 }
 
 export interface ViewStats {
@@ -27,13 +64,266 @@ export interface ViewStats {
   zeroViews: number;
 }
 
+/**
+ * A YouTube video category, as listed for a region
+ */
+export interface VideoCategory {
+  id: string;
+  title: string;
+  // Whether uploaders can pick it (the others are legacy categories)
+  assignable: boolean;
+}
+
+/**
+ * How a search treats a video category: no preference, only this category (and
+ * any others included), or never this category
+ */
+export type CategoryFilterMode = 'any' | 'include' | 'exclude';
+
+/**
+ * Identifiers of the rarity filter rules (see lib/youtubeFilters), in evaluation order
+ */
+export type RarityRuleId =
+  | 'viewThreshold'
+  | 'liveStream'
+  | 'commercialKeywords'
+  | 'tvShowKeywords'
+  | 'trademarkSymbols'
+  | 'category'
+  | 'duration'
+  | 'shorts';
+
+/**
+ * How a search treats YouTube Shorts: keep them, drop them, or hunt only Shorts
+ */
+export type ShortsMode = 'include' | 'exclude' | 'only';
+
+/**
+ * Runtime configuration of the rarity filter
+ */
+export interface RaritySettings {
+  // Videos need fewer than this many views (1 means zero views only)
+  viewThreshold: number;
+  disabledRules: RarityRuleId[];
+  // Keyword lists are matched on word boundaries, after cutting out the exception phrases
+  liveStreamKeywords: string[];
+  commercialKeywords: string[];
+  tvShowKeywords: string[];
+  keywordExceptions: string[];
+  // When any categories are included, videos must be in one of them
+  includedCategories: string[];
+  excludedCategories: string[];
+  // Duration limits in seconds (null for no limit)
+  minDurationSeconds: number | null;
+  maxDurationSeconds: number | null;
+  shorts: ShortsMode;
+}
+
+/**
+ * A video the rarity filter dropped, and the rule that dropped it
+ */
+export interface RarityRejection {
+  video: Video;
+  ruleId: RarityRuleId;
+  reason: string;
+  // The keyword or symbol that triggered the rule, if any
+  match?: string;
+}
+
+/**
+ * Videos that passed the rarity filter, and the rejections of those that didn't
+ */
+export interface RarityFilterResult {
+  videos: Video[];
+  rejections: RarityRejection[];
+}
+
+/**
+ * Other rare uploads of a video's channel from around the time it was published
+ */
+export interface SiblingSearchResult {
+  // The video the siblings were found for
+  source: Video;
+  window: TimeWindow;
+  videos: Video[];
+  rejections: RarityRejection[];
+  viewStats: ViewStats;
+}
+
+/**
+ * How many videos each rarity rule rejected
+ */
+export type RejectionStats = Partial<Record<RarityRuleId, number>>;
+
+export interface ApiStats {
+  searchApiCalls: number;
+  videoDetailApiCalls: number;
+  totalApiCalls: number;
+  cachedSearches: number;
+  cachedVideoDetails: number;
+  searchCacheMisses: number;
+  videoCacheMisses: number;
+  quotaUnitsUsed: number;
+}
+
+export interface QuotaEndpointUsage {
+  calls: number;
+  units: number;
+}
+
+export interface ApiKeyStatus {
+  label: string;
+  calls: number;
+  units: number;
+  exhaustedUntil: string | null;
+}
+
+export interface QuotaStatus {
+  day: string;
+  limit: number;
+  used: number;
+  remaining: number;
+  resetsAt: string;
+  byEndpoint: Record<string, QuotaEndpointUsage>;
+  keys: ApiKeyStatus[];
+}
+
+export interface HarvesterStatus {
+  enabled: boolean;
+  isHarvesting: boolean;
+  rounds: number;
+  harvested: number;
+  lastRunAt: string | null;
+  lastError: string | null;
+  pool: Record<string, number>;
+}
+
+export interface ViewRefresherStatus {
+  enabled: boolean;
+  isRefreshing: boolean;
+  runs: number;
+  // Snapshots recorded since the server started
+  refreshed: number;
+  // Saved videos found unavailable by the last run
+  unavailable: number;
+  lastRunAt: string | null;
+  lastError: string | null;
+}
+
+/**
+ * A search term and how often it is picked relative to the others in its dictionary
+ */
+export interface WeightedTerm {
+  term: string;
+  weight: number;
+}
+
+export interface DictionaryTerm extends WeightedTerm {
+  id: number;
+  enabled: boolean;
+}
+
+/**
+ * A named list of search terms for one search type
+ * The active dictionary of a search type supplies its queries
+ */
+export interface SearchDictionary {
+  id: number;
+  name: string;
+  searchType: SearchType;
+  isActive: boolean;
+  terms: DictionaryTerm[];
+}
+
+/**
+ * Ways of choosing the dates a search hunts around (see dateSamplers)
+ */
+export type DateSamplerId = 'uniform' | 'uploadVolume' | 'range' | 'year' | 'thisDay';
+
+/**
+ * A date sampler and its options
+ */
+export interface DateSampling {
+  sampler: DateSamplerId;
+  startDate?: string; // First day of a 'range' (YYYY-MM-DD)
+  endDate?: string; // Last day of a 'range' (YYYY-MM-DD)
+  year?: number; // Year of a 'year' sampler
+}
+
+/**
+ * One searched window and what it turned up, recorded to learn which terms and eras yield rare videos
+ */
+export interface SearchAttempt {
+  searchType: SearchType;
+  query: string | null; // Null when the query of a cached window is unknown
+  window: TimeWindow;
+  viewStats: ViewStats;
+  rareCount: number;
+}
+
+/**
+ * How often a term or era (an upload year) was searched, and how often it turned up videos under 10 views
+ */
+export interface ArmYield {
+  key: string;
+  attempts: number;
+  successes: number;
+}
+
+/**
+ * Learned yields of a search type's terms and eras
+ */
+export interface SearchYields {
+  terms: ArmYield[];
+  eras: ArmYield[];
+}
+
+/**
+ * Phases of a search in useYouTubeSearch
+ * searching → analyzing → filtering, then found, or rerolling back to searching
+ * until exhausted; any active phase can end in cancelled or failed
+ */
+export type SearchPhase =
+  | 'idle'
+  | 'searching'
+  | 'analyzing'
+  | 'filtering'
+  | 'rerolling'
+  | 'found'
+  | 'exhausted'
+  | 'cancelled'
+  | 'failed';
+
+/**
+ * Progress of a server-side search, streamed to the client as Server-Sent Events
+ * Windows are ISO-serialized over the wire; parse them with parseTimeWindow
+ */
+export type SearchProgressEvent =
+  | { type: 'started'; seed: string; yieldsAsOf: string }
+  | { type: 'window'; attempt: number; window: TimeWindow }
+  | { type: 'ids'; count: number; window: TimeWindow; apiStats: ApiStats }
+  | { type: 'details'; count: number; apiStats: ApiStats }
+  | { type: 'stats'; viewStats: ViewStats; rareCount: number; rejections: RarityRejection[] }
+  | { type: 'reroll'; attempt: number }
+  | { type: 'done'; videos: Video[]; window: TimeWindow; apiStats: ApiStats }
+  | { type: 'exhausted'; attempts: number }
+  | { type: 'error'; error: string; status: number; code?: string };
+
 export interface TimeWindow {
   startDate: Date;
   endDate: Date;
   durationMinutes: number;
 }
 
-export enum SearchType {
-  RandomTime = 'randomTime',
-  Unedited = 'unedited'
-}
\ No newline at end of file
+/**
+ * Identifier of a registered search strategy (see lib/searchStrategies)
+ */
+export type SearchType = string;
+
+/**
+ * Identifiers of the built-in search strategies
+ */
+export const SearchType = {
+  RandomTime: 'randomTime',
+  Unedited: 'unedited'
+} as const;
\ No newline at end of file
@@ -0,0 +1,21 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+/**
+ * Unit tests (*.test.ts files under src), run in Node with the same @/ alias as Next.js
+ * YouTube calls in tests go to the fake YouTube Data API (see fakeYouTubeApi).
+ */
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('./src', import.meta.url))
+    }
+  },
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+    env: {
+      YOUTUBE_API_MODE: 'fake'
+    }
+  }
+});